@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { proxyOpenAIRequest } from "@/lib/openai-proxy";
+
+// Anthropic API version sent with every request
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Anthropic Messages API proxy to avoid CORS issues
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { endpoint = "messages", apiKey, payload, stream } = body;
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key is required" },
+        { status: 400 }
+      );
+    }
+
+    // Proxy request to the Anthropic API (cancelled when the client aborts)
+    return await proxyOpenAIRequest({
+      url: `https://api.anthropic.com/v1/${endpoint}`,
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      payload,
+      stream,
+      signal: request.signal,
+      label: "Anthropic API",
+    });
+  } catch (error) {
+    console.error("Anthropic proxy error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
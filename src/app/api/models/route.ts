@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { guessVisionSupport } from "@/lib/attachments";
 
 // Models API route - fetches available models from different providers
 export async function GET(request: NextRequest) {
@@ -47,6 +48,7 @@ export async function GET(request: NextRequest) {
           id: model.id,
           provider: "nvidia-nim",
           name: model.id,
+          supportsVision: guessVisionSupport(model.id),
         }));
 
         return NextResponse.json({ models });
@@ -115,6 +117,7 @@ export async function GET(request: NextRequest) {
               context: capabilities.context,
               max_tokens: capabilities.max_tokens,
               supportsThinking: capabilities.supportsThinking,
+              supportsVision: true, // All Gemini models accept images
             };
           });
 
@@ -196,12 +199,125 @@ export async function GET(request: NextRequest) {
               context: capabilities.context,
               max_tokens: capabilities.max_tokens,
               supportsThinking: capabilities.supportsThinking,
+              supportsVision: true, // All Gemini models accept images
             };
           });
 
         return NextResponse.json({ models, location });
       }
 
+      case "openrouter": {
+        // The model list is public, no API key needed
+        const response = await fetch("https://openrouter.ai/api/v1/models", {
+          method: "GET",
+          headers: {
+            "Accept": "application/json",
+          },
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          return NextResponse.json(
+            { error: errorData.error?.message || `HTTP ${response.status}` },
+            { status: response.status }
+          );
+        }
+
+        const data = await response.json();
+
+        // OpenRouter prices are USD per token (as strings); convert to our cost format
+        // (cents per million tokens, as used for Puter.js models). Negative = variable pricing.
+        const toCents = (price?: string) => {
+          const value = parseFloat(price || "");
+          return Number.isFinite(value) && value >= 0 ? value * 1000000 * 100 : undefined;
+        };
+
+        // Transform OpenRouter models to our format
+        const models = (data.data || []).map((model: {
+          id: string;
+          name?: string;
+          context_length?: number;
+          pricing?: { prompt?: string; completion?: string };
+          top_provider?: { max_completion_tokens?: number | null };
+          supported_parameters?: string[];
+          architecture?: { input_modalities?: string[] };
+        }) => {
+          const input = toCents(model.pricing?.prompt);
+          const output = toCents(model.pricing?.completion);
+
+          return {
+            id: model.id,
+            provider: "openrouter",
+            name: model.name || model.id,
+            context: model.context_length,
+            max_tokens: model.top_provider?.max_completion_tokens || undefined,
+            supportsThinking: model.supported_parameters?.includes("reasoning") ?? false,
+            supportsVision: model.architecture?.input_modalities?.includes("image") ?? false,
+            cost: input !== undefined && output !== undefined
+              ? { currency: "usd-cents", tokens: 1000000, input, output }
+              : undefined,
+          };
+        });
+
+        return NextResponse.json({ models });
+      }
+
+      case "anthropic": {
+        if (!apiKey) {
+          return NextResponse.json(
+            { error: "API key is required for Anthropic" },
+            { status: 400 }
+          );
+        }
+
+        const response = await fetch("https://api.anthropic.com/v1/models?limit=1000", {
+          method: "GET",
+          headers: {
+            "x-api-key": apiKey,
+            "anthropic-version": "2023-06-01",
+          },
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          return NextResponse.json(
+            { error: errorData.error?.message || `HTTP ${response.status}` },
+            { status: response.status }
+          );
+        }
+
+        const data = await response.json();
+
+        // Known model capabilities by model family (the API only returns ids and names)
+        const modelCapabilities: [string, { context: number; max_tokens: number; supportsThinking?: boolean }][] = [
+          ["claude-opus-4-1", { context: 200000, max_tokens: 32000, supportsThinking: true }],
+          ["claude-opus-4", { context: 200000, max_tokens: 32000, supportsThinking: true }],
+          ["claude-sonnet-4", { context: 200000, max_tokens: 64000, supportsThinking: true }],
+          ["claude-haiku-4", { context: 200000, max_tokens: 64000, supportsThinking: true }],
+          ["claude-3-7-sonnet", { context: 200000, max_tokens: 64000, supportsThinking: true }],
+          ["claude-3-5", { context: 200000, max_tokens: 8192, supportsThinking: false }],
+          ["claude-3", { context: 200000, max_tokens: 4096, supportsThinking: false }],
+        ];
+
+        // Transform Anthropic models to our format
+        const models = (data.data || []).map((model: { id: string; display_name?: string }) => {
+          const capabilities = modelCapabilities.find(([prefix]) => model.id.startsWith(prefix))?.[1]
+            || { context: 200000, max_tokens: 8192, supportsThinking: false };
+
+          return {
+            id: model.id,
+            provider: "anthropic",
+            name: model.display_name || model.id,
+            context: capabilities.context,
+            max_tokens: capabilities.max_tokens,
+            supportsThinking: capabilities.supportsThinking,
+            supportsVision: true, // Every Claude model since Claude 3 accepts images
+          };
+        });
+
+        return NextResponse.json({ models });
+      }
+
       case "puter": {
         // Puter.js models are fetched client-side
         return NextResponse.json({ 
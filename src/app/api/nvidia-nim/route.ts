@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { proxyOpenAIRequest } from "@/lib/openai-proxy";
 
 // NVIDIA NIM API proxy to avoid CORS issues
 export async function POST(request: NextRequest) {
@@ -13,103 +14,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Proxy request to NVIDIA NIM API
-    const response = await fetch(`https://integrate.api.nvidia.com/v1/${endpoint}`, {
-      method: "POST",
-      headers: {
-        "Accept": stream ? "text/event-stream" : "application/json",
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(payload),
+    // Proxy request to NVIDIA NIM API (cancelled when the client aborts)
+    return await proxyOpenAIRequest({
+      url: `https://integrate.api.nvidia.com/v1/${endpoint}`,
+      headers: { "Authorization": `Bearer ${apiKey}` },
+      payload,
+      stream,
+      signal: request.signal,
+      label: "NVIDIA API",
     });
-
-    // Handle streaming response
-    if (stream && response.ok && response.body) {
-      const streamResponse = new ReadableStream({
-        async start(controller) {
-          const reader = response.body!.getReader();
-          
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              
-              // Forward the chunk directly
-              controller.enqueue(value);
-            }
-            controller.close();
-          } catch (error) {
-            controller.error(error);
-          }
-        },
-      });
-
-      return new Response(streamResponse, {
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          "Connection": "keep-alive",
-        },
-      });
-    }
-
-    // Handle non-OK streaming responses
-    if (stream && !response.ok) {
-      const contentType = response.headers.get("content-type");
-      let errorMessage: string;
-      
-      if (contentType?.includes("application/json")) {
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error?.message || `HTTP ${response.status}`;
-        } catch {
-          errorMessage = `HTTP ${response.status}: Failed to parse error response`;
-        }
-      } else {
-        errorMessage = await response.text() || `HTTP ${response.status}`;
-      }
-      
-      // Return as SSE error event
-      return new Response(`event: error\ndata: ${JSON.stringify({ error: errorMessage })}\n\n`, {
-        status: 200, // Return 200 so client can parse the error
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-        },
-      });
-    }
-
-    // Try to parse JSON, but handle non-JSON responses (like Cloudflare errors)
-    let data;
-    const contentType = response.headers.get("content-type");
-    
-    if (contentType?.includes("application/json")) {
-      try {
-        data = await response.json();
-      } catch {
-        return NextResponse.json(
-          { error: `HTTP ${response.status}: Invalid JSON response from NVIDIA API` },
-          { status: response.status }
-        );
-      }
-    } else {
-      // Handle non-JSON responses (e.g., Cloudflare timeout errors)
-      const textResponse = await response.text();
-      return NextResponse.json(
-        { error: `HTTP ${response.status}: ${textResponse || "Unknown error from NVIDIA API"}` },
-        { status: response.status }
-      );
-    }
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: data.error?.message || `HTTP ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    return NextResponse.json(data);
   } catch (error) {
     console.error("NVIDIA NIM proxy error:", error);
     return NextResponse.json(
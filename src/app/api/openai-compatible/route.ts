@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { normalizeBaseUrl, proxyOpenAIRequest } from "@/lib/openai-proxy";
+import { checkUpstreamUrl } from "@/lib/upstream-url";
+
+// Generic OpenAI-compatible API proxy (llama.cpp, vLLM, LM Studio, Ollama, ...) to avoid CORS issues
+// Requests without a payload are sent as GET (e.g. endpoint "models" for model discovery)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { baseUrl, endpoint, apiKey, headers, payload, stream } = body;
+
+    if (!baseUrl) {
+      return NextResponse.json(
+        { error: "Base URL is required" },
+        { status: 400 }
+      );
+    }
+
+    const normalizedBaseUrl = normalizeBaseUrl(baseUrl);
+    if (!normalizedBaseUrl) {
+      return NextResponse.json(
+        { error: `Invalid base URL: ${baseUrl}. Use an http(s) URL such as http://localhost:8080/v1` },
+        { status: 400 }
+      );
+    }
+
+    // Local network addresses are only reached when the server allows them
+    const blocked = await checkUpstreamUrl(normalizedBaseUrl);
+    if (blocked) {
+      return NextResponse.json(
+        { error: blocked },
+        { status: 403 }
+      );
+    }
+
+    // Extra headers from the profile; the API key (if any) is sent as a bearer token
+    const upstreamHeaders: Record<string, string> = {};
+    if (headers && typeof headers === "object") {
+      for (const [name, value] of Object.entries(headers)) {
+        if (typeof value === "string") upstreamHeaders[name] = value;
+      }
+    }
+    if (apiKey) {
+      upstreamHeaders["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    // Proxy request to the server (cancelled when the client aborts)
+    return await proxyOpenAIRequest({
+      url: `${normalizedBaseUrl}/${String(endpoint || "chat/completions").replace(/^\/+/, "")}`,
+      headers: upstreamHeaders,
+      payload,
+      stream,
+      signal: request.signal,
+      label: "OpenAI-compatible server",
+    });
+  } catch (error) {
+    console.error("OpenAI-compatible proxy error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { proxyOpenAIRequest } from "@/lib/openai-proxy";
+
+// OpenRouter API proxy to avoid CORS issues
+// Requests without a payload are sent as GET (e.g. endpoint "key" to check the API key)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { endpoint, apiKey, payload, stream } = body;
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key is required" },
+        { status: 400 }
+      );
+    }
+
+    // Proxy request to OpenRouter (cancelled when the client aborts)
+    return await proxyOpenAIRequest({
+      url: `https://openrouter.ai/api/v1/${endpoint}`,
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        // App attribution shown on openrouter.ai
+        "HTTP-Referer": request.nextUrl.origin,
+        "X-Title": "Roleplay Studio",
+      },
+      payload,
+      stream,
+      signal: request.signal,
+      label: "OpenRouter",
+    });
+  } catch (error) {
+    console.error("OpenRouter proxy error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
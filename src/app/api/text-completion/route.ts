@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { normalizeBaseUrl, proxyOpenAIRequest } from "@/lib/openai-proxy";
+import { checkUpstreamUrl } from "@/lib/upstream-url";
+
+// Text-completion API proxy for local servers (KoboldCpp, Ollama) to avoid CORS issues
+// The endpoint is relative to the server root, e.g. "api/v1/generate" or "api/generate";
+// requests without a payload are sent as GET (e.g. "api/tags" for model discovery)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { baseUrl, endpoint, headers, payload, stream } = body;
+
+    if (!baseUrl) {
+      return NextResponse.json(
+        { error: "Base URL is required" },
+        { status: 400 }
+      );
+    }
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Endpoint is required" },
+        { status: 400 }
+      );
+    }
+
+    const normalizedBaseUrl = normalizeBaseUrl(baseUrl, "");
+    if (!normalizedBaseUrl) {
+      return NextResponse.json(
+        { error: `Invalid base URL: ${baseUrl}. Use an http(s) URL such as http://localhost:5001` },
+        { status: 400 }
+      );
+    }
+
+    // Local network addresses are only reached when the server allows them
+    const blocked = await checkUpstreamUrl(normalizedBaseUrl);
+    if (blocked) {
+      return NextResponse.json(
+        { error: blocked },
+        { status: 403 }
+      );
+    }
+
+    const upstreamHeaders: Record<string, string> = {};
+    if (headers && typeof headers === "object") {
+      for (const [name, value] of Object.entries(headers)) {
+        if (typeof value === "string") upstreamHeaders[name] = value;
+      }
+    }
+
+    // Proxy request to the server (cancelled when the client aborts)
+    return await proxyOpenAIRequest({
+      url: `${normalizedBaseUrl}/${String(endpoint).replace(/^\/+/, "")}`,
+      headers: upstreamHeaders,
+      payload,
+      stream,
+      signal: request.signal,
+      label: "text-completion server",
+    });
+  } catch (error) {
+    console.error("Text-completion proxy error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getServiceAccountAccessToken, parseServiceAccount } from "@/lib/google-auth";
+
+// Authentication headers for a Vertex AI request: an API key (express mode) or an OAuth
+// access token minted from the service-account JSON (full mode)
+const getVertexAuth = async (
+  body: { apiKey?: string; serviceAccountJson?: string; projectId?: string },
+  signal: AbortSignal
+): Promise<{ headers?: Record<string, string>; projectId?: string; error?: string; status?: number }> => {
+  if (body.serviceAccountJson) {
+    const { account, error } = parseServiceAccount(body.serviceAccountJson);
+    if (!account) {
+      return { error, status: 400 };
+    }
+
+    const token = await getServiceAccountAccessToken(account, signal);
+    if (!token.accessToken) {
+      return { error: token.error, status: 401 };
+    }
+
+    // The key file names its project, so the project ID field may be left empty
+    return {
+      headers: { "Authorization": `Bearer ${token.accessToken}` },
+      projectId: body.projectId || account.projectId,
+    };
+  }
+
+  if (!body.apiKey) {
+    return { error: "API key is required", status: 400 };
+  }
+  return { headers: { "x-goog-api-key": body.apiKey }, projectId: body.projectId };
+};
 
 // Vertex AI proxy route to avoid CORS issues
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { endpoint, apiKey, payload, location = "global", projectId } = body;
+    const { endpoint, payload, location = "global" } = body;
 
-    if (!apiKey) {
+    const auth = await getVertexAuth(body, request.signal);
+    if (!auth.headers) {
       return NextResponse.json(
-        { error: "API key is required" },
-        { status: 400 }
+        { error: auth.error },
+        { status: auth.status }
       );
     }
 
+    const projectId = auth.projectId;
     if (!projectId) {
       return NextResponse.json(
         { error: "Project ID is required for Vertex AI. Please enter your Google Cloud project ID in the provider settings." },
@@ -27,9 +60,10 @@ export async function POST(request: NextRequest) {
 
     const response = await fetch(vertexEndpoint, {
       method: "POST",
+      signal: request.signal, // Cancelled when the client aborts
       headers: {
         "Content-Type": "application/json",
-        "x-goog-api-key": apiKey,
+        ...auth.headers,
       },
       body: JSON.stringify(payload),
     });
@@ -57,15 +91,17 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { endpoint, apiKey, payload, location = "global", projectId } = body;
+    const { endpoint, payload, location = "global" } = body;
 
-    if (!apiKey) {
+    const auth = await getVertexAuth(body, request.signal);
+    if (!auth.headers) {
       return NextResponse.json(
-        { error: "API key is required" },
-        { status: 400 }
+        { error: auth.error },
+        { status: auth.status }
       );
     }
 
+    const projectId = auth.projectId;
     if (!projectId) {
       return NextResponse.json(
         { error: "Project ID is required for Vertex AI. Please enter your Google Cloud project ID in the provider settings." },
@@ -80,9 +116,10 @@ export async function PATCH(request: NextRequest) {
 
     const response = await fetch(vertexEndpoint, {
       method: "POST",
+      signal: request.signal, // Cancelled when the client aborts
       headers: {
         "Content-Type": "application/json",
-        "x-goog-api-key": apiKey,
+        ...auth.headers,
       },
       body: JSON.stringify(payload),
     });
@@ -125,6 +162,10 @@ export async function PATCH(request: NextRequest) {
           controller.error(error);
         }
       },
+      // Client went away: stop reading from Vertex AI
+      cancel() {
+        reader.cancel();
+      },
     });
 
     return new Response(stream, {
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect, useMemo, useCallback } from "react";
+import { Fragment, useState, useRef, useEffect, useMemo, useCallback } from "react";
 
 // Import our custom types and utilities
 import {
@@ -10,7 +10,7 @@ import {
   sendChatMessage,
   streamChatMessage,
   AVAILABLE_PROVIDERS,
-  getModelsForProvider,
+  getModelVisionSupport,
   testProviderConnection,
   getDefaultModelForProvider,
   TestConnectionResult,
@@ -18,9 +18,66 @@ import {
   VertexLocation,
   fetchModelsFromProvider,
   FetchedModel,
+  TEXT_COMPLETION_DEFAULT_URLS,
+  getProviderAdapter,
+  createProviderRecord,
+  getDefaultProviderConfig,
+  ChatOptions,
+  ChatTarget,
+  FallbackStreamCallback,
+  resolveChatTargets,
+  buildProfileConfig,
+  sendChatWithFallback,
+  streamChatWithFallback,
+  KEY_ROTATION_MODES,
+  KeyStatusMap,
+  recordKeyResult,
+  isCoolingDown,
 } from "@/lib/providers";
-import { readCharacterFile, buildFullSystemPrompt } from "@/lib/character-import";
-import { Character as CharacterType, CharacterBook, CharacterBookEntry, ProviderProfile } from "@/lib/types";
+import { readCharacterFile, buildSystemPromptSections, scanCharacterLorebooks, exportToSillyTavern, exportToPngCard } from "@/lib/character-import";
+import { Character as CharacterType, CharacterBook, CharacterBookEntry, ContextDropTarget, ConversationSummary, EmbeddingModel, FallbackChainEntry, InstructTemplateId, KeyRotationMode, MessageAttachment, MessageSwipe, PromptSection, ProviderProfile, SummaryModel, TextCompletionBackend, WorldLorebook } from "@/lib/types";
+import { INSTRUCT_TEMPLATES, DEFAULT_TEXT_COMPLETION_SETTINGS } from "@/lib/instruct-templates";
+import { MAX_ATTACHMENTS, readImageAttachment, toDataUrl } from "@/lib/attachments";
+import { getSwipes, getSwipeIndex, selectSwipe, addSwipe } from "@/lib/swipes";
+import { MAX_GENERATION_RECORDS, GenerationRecord, createGenerationRecorder, exportGenerationRecord } from "@/lib/inspector";
+import { ESTIMATE_COUNTER, TokenCounter, countMessageTokens, getTokenCounter, prepareTokenCounts } from "@/lib/tokenizer";
+import {
+  CONTEXT_CATEGORY_NAMES,
+  CONTEXT_DROP_TARGET_NAMES,
+  ContextCategory,
+  ContextMap,
+  DEFAULT_CONTEXT_DROP_ORDER,
+  DEFAULT_REPLY_RESERVE_TOKENS,
+  fitToContext,
+} from "@/lib/context-budget";
+import { KEEP_RECENT_MESSAGES, getSummaryCoverage, removeFromSummary, summarizeMessages } from "@/lib/summarizer";
+import { EmbeddingSource, LOCAL_EMBEDDING_SOURCE, getProviderEmbeddingSource } from "@/lib/embeddings";
+import { DEFAULT_MEMORY_TOP_K, formatMemories, recallMemories } from "@/lib/memory";
+import { clearMemoryVectors } from "@/lib/vector-store";
+import { CollectionSync, createCollectionSync, describeStorageError, mergeLoadedRecords, openStorage, setLocalStorageItem } from "@/lib/storage";
+import {
+  createBranch,
+  flattenBranchTree,
+  getBranchFamily,
+  isSharedMessage,
+  migrateBranchHistory,
+  reparentBranches,
+  setBranchMessages,
+  withBranchHistory,
+} from "@/lib/branches";
+import { readWorldInfoFile, exportWorldInfo, resolveAttachedLorebooks } from "@/lib/world-info";
+import {
+  scanLorebook,
+  insertLorebookDepthEntries,
+  getEntryMatchMode,
+  validateLorebookKey,
+  LorebookMatchMode,
+  LorebookPosition,
+  SELECTIVE_LOGIC,
+  DEFAULT_SCAN_DEPTH,
+  DEFAULT_ENTRY_POSITION,
+  DEFAULT_INSERTION_DEPTH,
+} from "@/lib/lorebook";
 import { parseRoleplayText, getSegmentClasses, TextSegment } from "@/lib/text-formatter";
 
 // Types - using imported Message interface
@@ -28,28 +85,12 @@ export interface Persona {
   id: string;
   name: string;
   description: string;
+  lorebookIds?: string[]; // Attached world lorebooks
   createdAt: number;
 }
 
-// AI character (who the AI roleplays as) - extended from types
-export interface Character {
-  id: string;
-  name: string;
-  description: string;
-  firstMessage: string;
-  // SillyTavern extended fields
-  mesExample?: string;
-  scenario?: string;
-  creatorNotes?: string;
-  tags?: string[];
-  avatar?: string;
-  // Instruction fields (SillyTavern style)
-  systemPrompt?: string;
-  postHistoryInstructions?: string;
-  characterBook?: CharacterBook;
-  alternateGreetings?: string[];
-  createdAt: number;
-}
+// AI character (who the AI roleplays as) - shared with the card import/export types
+export type Character = CharacterType;
 
 // Model configuration from puter.ai.listModels()
 interface ModelCost {
@@ -77,6 +118,8 @@ interface GlobalSettings {
   temperature: number;
   maxTokens: number;
   maxContextTokens: number;
+  replyReserveTokens: number; // Kept free for the reply when fitting the prompt into the context
+  contextDropOrder: ContextDropTarget[]; // What is dropped first when the prompt is too long
   topP: number;
   topK: number;
   modelId: string;
@@ -85,6 +128,14 @@ interface GlobalSettings {
   useCustomSize: boolean; // Enable custom context/output sizes
   enableStreaming: boolean; // Enable/disable streaming for all AI responses
   dingWhenUnfocused: boolean; // Play notification sound when AI finishes and window is unfocused
+  enableFallback: boolean; // Try the fallback chain when the active provider is rate limited or down
+  fallbackChain: FallbackChainEntry[]; // Tried in order after the active provider
+  enableSummary: boolean; // Fold messages about to fall out of the context into the story summary
+  summaryModel: SummaryModel | null; // Writes the summary (null: the active provider and model)
+  enableMemory: boolean; // Recall earlier messages related to the latest one (vector retrieval)
+  memoryEmbeddingModel: EmbeddingModel | null; // Embeds messages for recall (null: the local model)
+  memoryTopK: number; // Memories recalled per reply
+  memoryAcrossChats: boolean; // Also recall from the character's other chats
 }
 
 // Global instructions with advanced fields
@@ -130,6 +181,11 @@ interface Conversation {
   personaId: string;
   characterId: string;
   messages: Message[];
+  lorebookIds?: string[]; // Attached world lorebooks
+  parentId?: string; // Conversation this branch was forked from
+  branchPointIndex?: number; // Number of messages shared with the parent
+  sharesHistory?: boolean; // Branch stores only its own messages
+  summary?: ConversationSummary; // Story so far (long-term memory)
   createdAt: number;
   updatedAt: number;
 }
@@ -189,15 +245,13 @@ interface ConnectionStatus {
 }
 
 // Local storage keys
-const PERSONAS_KEY = "chat_personas";
-const CHARACTERS_KEY = "chat_characters";
-const CONVERSATIONS_KEY = "chat_conversations";
 const GLOBAL_INSTRUCTIONS_KEY = "chat_global_instructions";
 const GLOBAL_SETTINGS_KEY = "chat_global_settings";
 const PROVIDER_CONFIGS_KEY = "chat_provider_configs";
 const ACTIVE_PROVIDER_KEY = "chat_active_provider";
 const CONNECTION_STATUS_KEY = "chat_connection_status";
 const AUTO_EXPORT_KEY = "chat_auto_export";
+const KEY_STATUS_KEY = "chat_key_status";
 const BRAINSTORM_INSTRUCTIONS_KEY = "chat_brainstorm_instructions";
 const BRAINSTORM_MESSAGES_KEY = "chat_brainstorm_messages";
 const GENERATOR_INSTRUCTIONS_KEY = "chat_generator_instructions";
@@ -348,6 +402,8 @@ const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   temperature: 0.7,
   maxTokens: 2000,
   maxContextTokens: 32000, // Default context limit
+  replyReserveTokens: DEFAULT_REPLY_RESERVE_TOKENS,
+  contextDropOrder: DEFAULT_CONTEXT_DROP_ORDER,
   topP: 0.9,
   topK: 40,
   modelId: "", // Empty initially - user must connect to a provider first
@@ -356,41 +412,14 @@ const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   useCustomSize: false, // By default, use model max sizes
   enableStreaming: true, // Streaming enabled by default for better UX
   dingWhenUnfocused: false, // Disabled by default
-};
-
-// Estimate token count for text (rough approximation: ~4 chars per token)
-const estimateTokens = (text: string): number => {
-  if (!text) return 0;
-  return Math.ceil(text.length / 4);
-};
-
-// Truncate messages to fit within max context tokens
-const truncateMessagesToContext = (messages: Message[], maxContextTokens: number, systemPromptTokens: number): Message[] => {
-  // Reserve tokens for system prompt and a buffer for the new message
-  const reservedTokens = systemPromptTokens + 1000;
-  const availableTokens = maxContextTokens - reservedTokens;
-  
-  if (availableTokens <= 0) {
-    return []; // Not enough space for any messages
-  }
-  
-  // Start from the most recent messages and work backwards
-  const result: Message[] = [];
-  let totalTokens = 0;
-  
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const msg = messages[i];
-    const msgTokens = estimateTokens(msg.content) + (msg.thinking ? estimateTokens(msg.thinking) : 0);
-    
-    if (totalTokens + msgTokens <= availableTokens) {
-      result.unshift(msg);
-      totalTokens += msgTokens;
-    } else {
-      break; // Stop adding messages
-    }
-  }
-  
-  return result;
+  enableFallback: false,
+  fallbackChain: [],
+  enableSummary: false,
+  summaryModel: null,
+  enableMemory: false,
+  memoryEmbeddingModel: null,
+  memoryTopK: DEFAULT_MEMORY_TOP_K,
+  memoryAcrossChats: false,
 };
 
 // Default auto-export settings
@@ -416,6 +445,18 @@ function replaceMacros(content: string, personaName: string, characterName: stri
     .replace(/\{\{char\}\}/gi, characterName);
 }
 
+// Trigger a browser download for a blob
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 // Thinking Section Component
 function ThinkingSection({ content }: { content: string }) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -587,6 +628,8 @@ function SettingsModal({
   selectProfile,
   deleteProfile,
   getActiveProfile,
+  keyStatus,
+  setKeyStatus,
 }: {
   show: boolean;
   onClose: () => void;
@@ -615,6 +658,8 @@ function SettingsModal({
   selectProfile: (providerType: LLMProviderType, profileId: string) => void;
   deleteProfile: (providerType: LLMProviderType, profileId: string) => void;
   getActiveProfile: (providerType: LLMProviderType) => ProviderProfile | undefined;
+  keyStatus: KeyStatusMap;
+  setKeyStatus: React.Dispatch<React.SetStateAction<KeyStatusMap>>;
 }) {
   const [expandedProviders, setExpandedProviders] = useState<Record<string, boolean>>({});
   const [showModelDropdown, setShowModelDropdown] = useState(false);
@@ -623,6 +668,14 @@ function SettingsModal({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const instructionsFileInputRef = useRef<HTMLInputElement>(null);
   const dataImportInputRef = useRef<HTMLInputElement>(null);
+  const [now, setNow] = useState(() => Date.now()); // Ticks while open, for key cooldowns
+  const [memoryIndexNotice, setMemoryIndexNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!show) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [show]);
 
   // Get models for the active provider (from fetched models or puter.js models)
   const activeProviderModels = activeProvider === "puter" 
@@ -784,6 +837,12 @@ function SettingsModal({
                       <span>Max Output:</span>
                       <span className="text-zinc-300">{selectedModel.max_tokens?.toLocaleString() || "Unknown"} tokens</span>
                     </div>
+                    {selectedModel.cost && (
+                      <div className="flex justify-between">
+                        <span>Pricing:</span>
+                        <span className="text-zinc-300">{getModelCostInfo(selectedModel)}</span>
+                      </div>
+                    )}
                   </div>
                 )}
               </>
@@ -926,6 +985,70 @@ function SettingsModal({
             </p>
           </div>
 
+          {/* Context Budget */}
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-2">
+              Reserve for Reply
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="100"
+              value={globalSettings.replyReserveTokens}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (!isNaN(value) && value >= 0) {
+                  setGlobalSettings({ ...globalSettings, replyReserveTokens: value });
+                }
+              }}
+              className="w-24 px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-white text-center text-sm focus:outline-none focus:border-purple-500"
+            />
+            <p className="text-xs text-zinc-500 mt-1">
+              Tokens of the context kept free for the AI&apos;s reply
+            </p>
+            <label className="block text-sm font-medium text-zinc-400 mt-4 mb-2">
+              When the Context Is Full, Drop First
+            </label>
+            <div className="space-y-2">
+              {globalSettings.contextDropOrder.map((target, index) => {
+                const moveTarget = (offset: number) => {
+                  const order = [...globalSettings.contextDropOrder];
+                  [order[index], order[index + offset]] = [order[index + offset], order[index]];
+                  setGlobalSettings({ ...globalSettings, contextDropOrder: order });
+                };
+                return (
+                  <div key={target} className="flex items-center gap-2 bg-zinc-800/50 border border-zinc-700 rounded-lg px-3 py-1.5">
+                    <span className="text-xs text-zinc-500 w-4">{index + 1}.</span>
+                    <span className="flex-1 text-sm text-white">{CONTEXT_DROP_TARGET_NAMES[target]}</span>
+                    <button
+                      onClick={() => moveTarget(-1)}
+                      disabled={index === 0}
+                      className="p-1 text-zinc-400 hover:text-white hover:bg-zinc-700 rounded transition-colors disabled:opacity-30"
+                      title="Drop earlier"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => moveTarget(1)}
+                      disabled={index === globalSettings.contextDropOrder.length - 1}
+                      className="p-1 text-zinc-400 hover:text-white hover:bg-zinc-700 rounded transition-colors disabled:opacity-30"
+                      title="Drop later"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-zinc-500 mt-1">
+              Pinned messages and your latest message are always kept
+            </p>
+          </div>
+
           {/* Top P */}
           <div>
             <label className="block text-sm font-medium text-zinc-400 mb-2">
@@ -1033,8 +1156,8 @@ function SettingsModal({
             </p>
           </div>
 
-          {/* Thinking Level - Only for Google providers */}
-          {(activeProvider === "google-ai-studio" || activeProvider === "google-vertex") && globalSettings.enableThinking && (
+          {/* Thinking Level - Only for providers that honor it (Gemini thinking level, Anthropic budget, OpenRouter effort) */}
+          {getProviderAdapter(activeProvider)?.capabilities.thinkingLevel && globalSettings.enableThinking && (
             <div>
               <label className="block text-sm font-medium text-zinc-400 mb-2">
                 Thinking Level
@@ -1453,7 +1576,7 @@ function SettingsModal({
                             <option value="full">Full (Service Account)</option>
                           </select>
                           <p className="text-xs text-zinc-500 mt-1">
-                            Express mode uses API key authentication. Full mode requires a Google Cloud Service Account JSON.
+                            Express mode uses API key authentication. Full mode signs in with a Google Cloud Service Account JSON key (OAuth tokens are minted by this app&apos;s server).
                           </p>
                         </div>
                         {/* Show Service Account JSON input only in Full mode */}
@@ -1480,13 +1603,17 @@ function SettingsModal({
                               className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono text-xs"
                             />
                             <p className="text-xs text-zinc-500 mt-1">
-                              Paste your service account JSON key from the Google Cloud Console
+                              Paste your service account JSON key from the Google Cloud Console. The account needs the Vertex AI User role.
                             </p>
                           </div>
                         )}
                         {/* Project ID */}
                         <div>
-                          <label className="block text-xs text-zinc-400 mb-1">Google Cloud Project ID <span className="text-red-400">*</span></label>
+                          <label className="block text-xs text-zinc-400 mb-1">
+                            Google Cloud Project ID {getActiveProfile("google-vertex")?.vertexMode === "full"
+                              ? <span className="text-zinc-500">(optional, defaults to the key&apos;s project)</span>
+                              : <span className="text-red-400">*</span>}
+                          </label>
                           <input
                             type="text"
                             value={getActiveProfile("google-vertex")?.projectId || ""}
@@ -1544,38 +1671,40 @@ function SettingsModal({
                             Choose the closest region for lower latency
                           </p>
                         </div>
-                        <div>
-                          <label className="block text-xs text-zinc-400 mb-1">API Key</label>
-                          <input
-                            type="password"
-                            value={getActiveProfile("google-vertex")?.apiKey || ""}
-                            onChange={(e) => {
-                              const profileId = providerConfigs["google-vertex"].activeProfileId;
-                              if (!profileId) return;
-                              setProviderConfigs(prev => ({
-                                ...prev,
-                                "google-vertex": {
-                                  ...prev["google-vertex"],
-                                  profiles: prev["google-vertex"].profiles.map(p =>
-                                    p.id === profileId ? { ...p, apiKey: e.target.value } : p
-                                  )
-                                }
-                              }));
-                            }}
-                            placeholder="Enter your Google API key"
-                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                          />
-                        </div>
+                        {/* API key only in Express mode */}
+                        {getActiveProfile("google-vertex")?.vertexMode !== "full" && (
+                          <div>
+                            <label className="block text-xs text-zinc-400 mb-1">API Key</label>
+                            <input
+                              type="password"
+                              value={getActiveProfile("google-vertex")?.apiKey || ""}
+                              onChange={(e) => {
+                                const profileId = providerConfigs["google-vertex"].activeProfileId;
+                                if (!profileId) return;
+                                setProviderConfigs(prev => ({
+                                  ...prev,
+                                  "google-vertex": {
+                                    ...prev["google-vertex"],
+                                    profiles: prev["google-vertex"].profiles.map(p =>
+                                      p.id === profileId ? { ...p, apiKey: e.target.value } : p
+                                    )
+                                  }
+                                }));
+                              }}
+                              placeholder="Enter your Google API key"
+                              className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                          </div>
+                        )}
                         <div className="flex gap-2">
                           <button
                             type="button"
                             onClick={() => onTestConnection("google-vertex")}
                             disabled={
                               connectionStatus["google-vertex"]?.status === "testing" ||
-                              !getActiveProfile("google-vertex")?.projectId ||
                               (getActiveProfile("google-vertex")?.vertexMode === "full" 
                                 ? !getActiveProfile("google-vertex")?.serviceAccountJson 
-                                : !getActiveProfile("google-vertex")?.apiKey)
+                                : !getActiveProfile("google-vertex")?.apiKey || !getActiveProfile("google-vertex")?.projectId)
                             }
                             className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           >
@@ -1585,10 +1714,9 @@ function SettingsModal({
                             type="button"
                             onClick={() => onConnect("google-vertex")}
                             disabled={
-                              !getActiveProfile("google-vertex")?.projectId ||
                               (getActiveProfile("google-vertex")?.vertexMode === "full" 
                                 ? !getActiveProfile("google-vertex")?.serviceAccountJson 
-                                : !getActiveProfile("google-vertex")?.apiKey)
+                                : !getActiveProfile("google-vertex")?.apiKey || !getActiveProfile("google-vertex")?.projectId)
                             }
                             className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           >
@@ -1725,127 +1853,2147 @@ function SettingsModal({
                 )}
               </div>
 
-              {/* Puter.js - No API key needed */}
+              {/* Anthropic */}
               <div className="p-3 bg-zinc-800/50 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-2">
                     <div className={`w-2 h-2 rounded-full ${
-                      connectionStatus["puter"]?.status === "connected" ? "bg-green-500" :
-                      connectionStatus["puter"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
-                      connectionStatus["puter"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
+                      connectionStatus["anthropic"]?.status === "connected" ? "bg-green-500" :
+                      connectionStatus["anthropic"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
+                      connectionStatus["anthropic"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
                     }`} />
-                    <span className="text-sm font-medium text-white">Puter.js</span>
-                    {activeProvider === "puter" && (
+                    <span className="text-sm font-medium text-white">Anthropic</span>
+                    {activeProvider === "anthropic" && (
                       <span className="text-xs bg-blue-600 text-white px-2 py-0.5 rounded">Active</span>
                     )}
-                    <span className="text-xs text-zinc-500">(Free, no API key required)</span>
                   </div>
+                  <button
+                    type="button"
+                    onClick={() => setEditingProvider(editingProvider === 'anthropic' ? null : 'anthropic')}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    {editingProvider === 'anthropic' ? 'Hide' : 'Configure'}
+                  </button>
                 </div>
-                {connectionStatus["puter"]?.message && (
+                {connectionStatus["anthropic"]?.message && (
                   <p className={`text-xs mb-2 ${
-                    connectionStatus["puter"]?.status === "connected" ? "text-green-400" :
-                    connectionStatus["puter"]?.status === "error" ? "text-red-400" : "text-zinc-400"
+                    connectionStatus["anthropic"]?.status === "connected" ? "text-green-400" :
+                    connectionStatus["anthropic"]?.status === "error" ? "text-red-400" : "text-zinc-400"
                   }`}>
-                    {connectionStatus["puter"].message}
+                    {connectionStatus["anthropic"].message}
                   </p>
                 )}
-                <div className="flex gap-2 mt-2">
-                  <button
-                    type="button"
-                    onClick={() => onTestConnection("puter")}
-                    disabled={connectionStatus["puter"]?.status === "testing"}
-                    className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {connectionStatus["puter"]?.status === "testing" ? "Testing..." : "Test Connection"}
-                  </button>
+                {editingProvider === 'anthropic' && (
+                  <div className="mt-3 space-y-3">
+                    {/* Profile Selection */}
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Profile</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={providerConfigs["anthropic"]?.activeProfileId || ""}
+                          onChange={(e) => {
+                            if (e.target.value === "__new__") {
+                              const name = prompt("Enter profile name (or leave empty for date/time):");
+                              if (name !== null) {
+                                createProfile("anthropic", {
+                                  name: name.trim() || new Date().toLocaleString(),
+                                  apiKey: ""
+                                });
+                              }
+                            } else {
+                              selectProfile("anthropic", e.target.value);
+                            }
+                          }}
+                          className="flex-1 bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Select a profile...</option>
+                          {providerConfigs["anthropic"]?.profiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                          ))}
+                          <option value="__new__">+ Add New Profile</option>
+                        </select>
+                        {providerConfigs["anthropic"]?.activeProfileId && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (confirm("Delete this profile?")) {
+                                deleteProfile("anthropic", providerConfigs["anthropic"].activeProfileId!);
+                              }
+                            }}
+                            className="px-3 py-2 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {/* API Key - only show if profile is selected */}
+                    {providerConfigs["anthropic"]?.activeProfileId && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">API Key</label>
+                          <input
+                            type="password"
+                            value={getActiveProfile("anthropic")?.apiKey || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["anthropic"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "anthropic": {
+                                  ...prev["anthropic"],
+                                  profiles: prev["anthropic"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, apiKey: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="Enter your Anthropic API key"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onTestConnection("anthropic")}
+                            disabled={connectionStatus["anthropic"]?.status === "testing" || !getActiveProfile("anthropic")?.apiKey}
+                            className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {connectionStatus["anthropic"]?.status === "testing" ? "Testing..." : "Test Connection"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onConnect("anthropic")}
+                            disabled={connectionStatus["anthropic"]?.status !== "connected"}
+                            className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Connect
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* OpenRouter */}
+              <div className="p-3 bg-zinc-800/50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full ${
+                      connectionStatus["openrouter"]?.status === "connected" ? "bg-green-500" :
+                      connectionStatus["openrouter"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
+                      connectionStatus["openrouter"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
+                    }`} />
+                    <span className="text-sm font-medium text-white">OpenRouter</span>
+                    {activeProvider === "openrouter" && (
+                      <span className="text-xs bg-blue-600 text-white px-2 py-0.5 rounded">Active</span>
+                    )}
+                  </div>
                   <button
                     type="button"
-                    onClick={() => onConnect("puter")}
-                    disabled={connectionStatus["puter"]?.status === "error"}
-                    className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => setEditingProvider(editingProvider === 'openrouter' ? null : 'openrouter')}
+                    className="text-xs text-blue-400 hover:text-blue-300"
                   >
-                    Connect
+                    {editingProvider === 'openrouter' ? 'Hide' : 'Configure'}
                   </button>
                 </div>
-              </div>
-            </div>
+                {connectionStatus["openrouter"]?.message && (
+                  <p className={`text-xs mb-2 ${
+                    connectionStatus["openrouter"]?.status === "connected" ? "text-green-400" :
+                    connectionStatus["openrouter"]?.status === "error" ? "text-red-400" : "text-zinc-400"
+                  }`}>
+                    {connectionStatus["openrouter"].message}
+                  </p>
+                )}
+                {editingProvider === 'openrouter' && (
+                  <div className="mt-3 space-y-3">
+                    {/* Profile Selection */}
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Profile</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={providerConfigs["openrouter"]?.activeProfileId || ""}
+                          onChange={(e) => {
+                            if (e.target.value === "__new__") {
+                              const name = prompt("Enter profile name (or leave empty for date/time):");
+                              if (name !== null) {
+                                createProfile("openrouter", {
+                                  name: name.trim() || new Date().toLocaleString(),
+                                  apiKey: ""
+                                });
+                              }
+                            } else {
+                              selectProfile("openrouter", e.target.value);
+                            }
+                          }}
+                          className="flex-1 bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Select a profile...</option>
+                          {providerConfigs["openrouter"]?.profiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                          ))}
+                          <option value="__new__">+ Add New Profile</option>
+                        </select>
+                        {providerConfigs["openrouter"]?.activeProfileId && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (confirm("Delete this profile?")) {
+                                deleteProfile("openrouter", providerConfigs["openrouter"].activeProfileId!);
+                              }
+                            }}
+                            className="px-3 py-2 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {/* API Key - only show if profile is selected */}
+                    {providerConfigs["openrouter"]?.activeProfileId && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">API Key</label>
+                          <input
+                            type="password"
+                            value={getActiveProfile("openrouter")?.apiKey || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openrouter"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openrouter": {
+                                  ...prev["openrouter"],
+                                  profiles: prev["openrouter"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, apiKey: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="Enter your OpenRouter API key"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Provider Order (optional)</label>
+                          <input
+                            type="text"
+                            value={getActiveProfile("openrouter")?.openRouter?.providerOrder || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openrouter"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openrouter": {
+                                  ...prev["openrouter"],
+                                  profiles: prev["openrouter"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, openRouter: { ...p.openRouter, providerOrder: e.target.value } } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="e.g. anthropic, deepinfra"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <p className="text-xs text-zinc-500 mt-1">Upstream providers OpenRouter tries first, comma-separated</p>
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={getActiveProfile("openrouter")?.openRouter?.allowFallbacks ?? true}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openrouter"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openrouter": {
+                                  ...prev["openrouter"],
+                                  profiles: prev["openrouter"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, openRouter: { ...p.openRouter, allowFallbacks: e.target.checked } } : p
+                                  )
+                                }
+                              }));
+                            }}
+                          />
+                          Allow other providers when the listed ones are unavailable
+                        </label>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Fallback Models (optional)</label>
+                          <input
+                            type="text"
+                            value={getActiveProfile("openrouter")?.openRouter?.fallbackModels || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openrouter"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openrouter": {
+                                  ...prev["openrouter"],
+                                  profiles: prev["openrouter"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, openRouter: { ...p.openRouter, fallbackModels: e.target.value } } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="e.g. anthropic/claude-sonnet-4.5, deepseek/deepseek-chat"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <p className="text-xs text-zinc-500 mt-1">Tried in order when the selected model fails, comma-separated</p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onTestConnection("openrouter")}
+                            disabled={connectionStatus["openrouter"]?.status === "testing" || !getActiveProfile("openrouter")?.apiKey}
+                            className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {connectionStatus["openrouter"]?.status === "testing" ? "Testing..." : "Test Connection"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onConnect("openrouter")}
+                            disabled={connectionStatus["openrouter"]?.status !== "connected"}
+                            className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Connect
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* OpenAI-Compatible (llama.cpp, vLLM, LM Studio, Ollama, ...) */}
+              <div className="p-3 bg-zinc-800/50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full ${
+                      connectionStatus["openai-compatible"]?.status === "connected" ? "bg-green-500" :
+                      connectionStatus["openai-compatible"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
+                      connectionStatus["openai-compatible"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
+                    }`} />
+                    <span className="text-sm font-medium text-white">OpenAI-Compatible</span>
+                    {activeProvider === "openai-compatible" && (
+                      <span className="text-xs bg-blue-600 text-white px-2 py-0.5 rounded">Active</span>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setEditingProvider(editingProvider === 'openai-compatible' ? null : 'openai-compatible')}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    {editingProvider === 'openai-compatible' ? 'Hide' : 'Configure'}
+                  </button>
+                </div>
+                {connectionStatus["openai-compatible"]?.message && (
+                  <p className={`text-xs mb-2 ${
+                    connectionStatus["openai-compatible"]?.status === "connected" ? "text-green-400" :
+                    connectionStatus["openai-compatible"]?.status === "error" ? "text-red-400" : "text-zinc-400"
+                  }`}>
+                    {connectionStatus["openai-compatible"].message}
+                  </p>
+                )}
+                {editingProvider === 'openai-compatible' && (
+                  <div className="mt-3 space-y-3">
+                    {/* Profile Selection */}
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Profile</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={providerConfigs["openai-compatible"]?.activeProfileId || ""}
+                          onChange={(e) => {
+                            if (e.target.value === "__new__") {
+                              const name = prompt("Enter profile name (or leave empty for date/time):");
+                              if (name !== null) {
+                                createProfile("openai-compatible", {
+                                  name: name.trim() || new Date().toLocaleString(),
+                                  baseUrl: "http://localhost:8080/v1",
+                                  apiKey: ""
+                                });
+                              }
+                            } else {
+                              selectProfile("openai-compatible", e.target.value);
+                            }
+                          }}
+                          className="flex-1 bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Select a profile...</option>
+                          {providerConfigs["openai-compatible"]?.profiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                          ))}
+                          <option value="__new__">+ Add New Profile</option>
+                        </select>
+                        {providerConfigs["openai-compatible"]?.activeProfileId && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (confirm("Delete this profile?")) {
+                                deleteProfile("openai-compatible", providerConfigs["openai-compatible"].activeProfileId!);
+                              }
+                            }}
+                            className="px-3 py-2 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {/* Server settings - only show if profile is selected */}
+                    {providerConfigs["openai-compatible"]?.activeProfileId && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Base URL</label>
+                          <input
+                            type="text"
+                            value={getActiveProfile("openai-compatible")?.baseUrl || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openai-compatible"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openai-compatible": {
+                                  ...prev["openai-compatible"],
+                                  profiles: prev["openai-compatible"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, baseUrl: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="http://localhost:8080/v1"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <p className="text-xs text-zinc-500 mt-1">
+                            llama.cpp :8080/v1, LM Studio :1234/v1, Ollama :11434/v1, vLLM :8000/v1. Requests go through this app&apos;s server, so &quot;localhost&quot; is the machine running it; local and LAN addresses need PROXY_ALLOW_PRIVATE_NETWORK=true in the server&apos;s environment.
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">API Key (optional)</label>
+                          <input
+                            type="password"
+                            value={getActiveProfile("openai-compatible")?.apiKey || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openai-compatible"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openai-compatible": {
+                                  ...prev["openai-compatible"],
+                                  profiles: prev["openai-compatible"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, apiKey: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder="Leave empty for local servers"
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Extra Headers (optional)</label>
+                          <textarea
+                            value={getActiveProfile("openai-compatible")?.extraHeaders || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openai-compatible"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openai-compatible": {
+                                  ...prev["openai-compatible"],
+                                  profiles: prev["openai-compatible"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, extraHeaders: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder={"One per line, e.g.\nX-Organization: my-team"}
+                            rows={2}
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                          />
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={!!getActiveProfile("openai-compatible")?.sendTopK}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["openai-compatible"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "openai-compatible": {
+                                  ...prev["openai-compatible"],
+                                  profiles: prev["openai-compatible"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, sendTopK: e.target.checked } : p
+                                  )
+                                }
+                              }));
+                            }}
+                          />
+                          Send Top K (llama.cpp, vLLM and Ollama accept it; the official OpenAI API rejects it)
+                        </label>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onTestConnection("openai-compatible")}
+                            disabled={connectionStatus["openai-compatible"]?.status === "testing" || !getActiveProfile("openai-compatible")?.baseUrl?.trim()}
+                            className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {connectionStatus["openai-compatible"]?.status === "testing" ? "Testing..." : "Test Connection"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onConnect("openai-compatible")}
+                            disabled={connectionStatus["openai-compatible"]?.status !== "connected"}
+                            className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Connect
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Text Completion (KoboldCpp / Ollama) */}
+              <div className="p-3 bg-zinc-800/50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full ${
+                      connectionStatus["text-completion"]?.status === "connected" ? "bg-green-500" :
+                      connectionStatus["text-completion"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
+                      connectionStatus["text-completion"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
+                    }`} />
+                    <span className="text-sm font-medium text-white">Text Completion</span>
+                    {activeProvider === "text-completion" && (
+                      <span className="text-xs bg-blue-600 text-white px-2 py-0.5 rounded">Active</span>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setEditingProvider(editingProvider === 'text-completion' ? null : 'text-completion')}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    {editingProvider === 'text-completion' ? 'Hide' : 'Configure'}
+                  </button>
+                </div>
+                {connectionStatus["text-completion"]?.message && (
+                  <p className={`text-xs mb-2 ${
+                    connectionStatus["text-completion"]?.status === "connected" ? "text-green-400" :
+                    connectionStatus["text-completion"]?.status === "error" ? "text-red-400" : "text-zinc-400"
+                  }`}>
+                    {connectionStatus["text-completion"].message}
+                  </p>
+                )}
+                {editingProvider === 'text-completion' && (
+                  <div className="mt-3 space-y-3">
+                    {/* Profile Selection */}
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Profile</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={providerConfigs["text-completion"]?.activeProfileId || ""}
+                          onChange={(e) => {
+                            if (e.target.value === "__new__") {
+                              const name = prompt("Enter profile name (or leave empty for date/time):");
+                              if (name !== null) {
+                                createProfile("text-completion", {
+                                  name: name.trim() || new Date().toLocaleString(),
+                                  baseUrl: TEXT_COMPLETION_DEFAULT_URLS.koboldcpp,
+                                  textCompletion: DEFAULT_TEXT_COMPLETION_SETTINGS
+                                });
+                              }
+                            } else {
+                              selectProfile("text-completion", e.target.value);
+                            }
+                          }}
+                          className="flex-1 bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          <option value="">Select a profile...</option>
+                          {providerConfigs["text-completion"]?.profiles.map(profile => (
+                            <option key={profile.id} value={profile.id}>{profile.name}</option>
+                          ))}
+                          <option value="__new__">+ Add New Profile</option>
+                        </select>
+                        {providerConfigs["text-completion"]?.activeProfileId && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (confirm("Delete this profile?")) {
+                                deleteProfile("text-completion", providerConfigs["text-completion"].activeProfileId!);
+                              }
+                            }}
+                            className="px-3 py-2 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    
+                    {/* Server settings - only show if profile is selected */}
+                    {providerConfigs["text-completion"]?.activeProfileId && (
+                      <>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Backend</label>
+                          <select
+                            value={getActiveProfile("text-completion")?.textCompletion?.backend || DEFAULT_TEXT_COMPLETION_SETTINGS.backend}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["text-completion"].activeProfileId;
+                              if (!profileId) return;
+                              const backend = e.target.value as TextCompletionBackend;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "text-completion": {
+                                  ...prev["text-completion"],
+                                  profiles: prev["text-completion"].profiles.map(p => {
+                                    if (p.id !== profileId) return p;
+                                    // Follow the backend's default port unless a custom URL was entered
+                                    const isDefaultUrl = !p.baseUrl?.trim() || Object.values(TEXT_COMPLETION_DEFAULT_URLS).includes(p.baseUrl.trim());
+                                    return {
+                                      ...p,
+                                      baseUrl: isDefaultUrl ? TEXT_COMPLETION_DEFAULT_URLS[backend] : p.baseUrl,
+                                      textCompletion: { ...DEFAULT_TEXT_COMPLETION_SETTINGS, ...p.textCompletion, backend },
+                                      selectedModel: undefined
+                                    };
+                                  })
+                                }
+                              }));
+                            }}
+                            className="w-full bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          >
+                            <option value="koboldcpp">KoboldCpp (/api/v1/generate)</option>
+                            <option value="ollama">Ollama (/api/generate)</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Server URL</label>
+                          <input
+                            type="text"
+                            value={getActiveProfile("text-completion")?.baseUrl || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["text-completion"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "text-completion": {
+                                  ...prev["text-completion"],
+                                  profiles: prev["text-completion"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, baseUrl: e.target.value } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder={TEXT_COMPLETION_DEFAULT_URLS[getActiveProfile("text-completion")?.textCompletion?.backend || DEFAULT_TEXT_COMPLETION_SETTINGS.backend]}
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <p className="text-xs text-zinc-500 mt-1">
+                            Server root without /api. Requests go through this app&apos;s server, so &quot;localhost&quot; is the machine running it; local and LAN addresses need PROXY_ALLOW_PRIVATE_NETWORK=true in the server&apos;s environment.
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Instruct Template</label>
+                          <select
+                            value={getActiveProfile("text-completion")?.textCompletion?.template || DEFAULT_TEXT_COMPLETION_SETTINGS.template}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["text-completion"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "text-completion": {
+                                  ...prev["text-completion"],
+                                  profiles: prev["text-completion"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, textCompletion: { ...DEFAULT_TEXT_COMPLETION_SETTINGS, ...p.textCompletion, template: e.target.value as InstructTemplateId } } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            className="w-full bg-zinc-900 text-white rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          >
+                            {Object.values(INSTRUCT_TEMPLATES).map(template => (
+                              <option key={template.id} value={template.id}>{template.name}</option>
+                            ))}
+                          </select>
+                          <p className="text-xs text-zinc-500 mt-1">
+                            Must match the format the model was trained on. The template&apos;s stop sequences are always used.
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-zinc-400 mb-1">Extra Stop Sequences (optional)</label>
+                          <textarea
+                            value={getActiveProfile("text-completion")?.textCompletion?.stopSequences || ""}
+                            onChange={(e) => {
+                              const profileId = providerConfigs["text-completion"].activeProfileId;
+                              if (!profileId) return;
+                              setProviderConfigs(prev => ({
+                                ...prev,
+                                "text-completion": {
+                                  ...prev["text-completion"],
+                                  profiles: prev["text-completion"].profiles.map(p =>
+                                    p.id === profileId ? { ...p, textCompletion: { ...DEFAULT_TEXT_COMPLETION_SETTINGS, ...p.textCompletion, stopSequences: e.target.value } } : p
+                                  )
+                                }
+                              }));
+                            }}
+                            placeholder={"One per line (\\n for a line break), e.g.\n\\nUser:"}
+                            rows={2}
+                            className="w-full bg-zinc-900 text-white placeholder-zinc-500 rounded px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono"
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onTestConnection("text-completion")}
+                            disabled={connectionStatus["text-completion"]?.status === "testing" || !getActiveProfile("text-completion")?.baseUrl?.trim()}
+                            className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {connectionStatus["text-completion"]?.status === "testing" ? "Testing..." : "Test Connection"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onConnect("text-completion")}
+                            disabled={connectionStatus["text-completion"]?.status !== "connected"}
+                            className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Connect
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Puter.js - No API key needed */}
+              <div className="p-3 bg-zinc-800/50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full ${
+                      connectionStatus["puter"]?.status === "connected" ? "bg-green-500" :
+                      connectionStatus["puter"]?.status === "testing" ? "bg-yellow-500 animate-pulse" :
+                      connectionStatus["puter"]?.status === "error" ? "bg-red-500" : "bg-zinc-500"
+                    }`} />
+                    <span className="text-sm font-medium text-white">Puter.js</span>
+                    {activeProvider === "puter" && (
+                      <span className="text-xs bg-blue-600 text-white px-2 py-0.5 rounded">Active</span>
+                    )}
+                    <span className="text-xs text-zinc-500">(Free, no API key required)</span>
+                  </div>
+                </div>
+                {connectionStatus["puter"]?.message && (
+                  <p className={`text-xs mb-2 ${
+                    connectionStatus["puter"]?.status === "connected" ? "text-green-400" :
+                    connectionStatus["puter"]?.status === "error" ? "text-red-400" : "text-zinc-400"
+                  }`}>
+                    {connectionStatus["puter"].message}
+                  </p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => onTestConnection("puter")}
+                    disabled={connectionStatus["puter"]?.status === "testing"}
+                    className="flex-1 py-1.5 text-xs bg-zinc-700 text-white rounded hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {connectionStatus["puter"]?.status === "testing" ? "Testing..." : "Test Connection"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onConnect("puter")}
+                    disabled={connectionStatus["puter"]?.status === "error"}
+                    className="flex-1 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Connect
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Fallback Chain */}
+          <div className="border-t border-zinc-700 pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-white">Fallback Chain</h3>
+              <button
+                type="button"
+                onClick={() => setGlobalSettings({ ...globalSettings, enableFallback: !globalSettings.enableFallback })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  globalSettings.enableFallback ? "bg-blue-600" : "bg-zinc-700"
+                }`}
+                title={globalSettings.enableFallback ? "Disable fallback" : "Enable fallback"}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    globalSettings.enableFallback ? "translate-x-6" : "translate-x-1"
+                  }`}
+                />
+              </button>
+            </div>
+            <p className="text-xs text-zinc-400 mb-4">
+              When the active provider is rate limited (429) or fails with a server error (5xx), the reply is
+              retried with these entries in order, waiting longer before each one (1s, 2s, 4s...). Replies written
+              by a fallback entry show which provider answered.
+            </p>
+            <div className={`space-y-2 ${globalSettings.enableFallback ? "" : "opacity-50"}`}>
+              {globalSettings.fallbackChain.map((entry, index) => {
+                const provider = AVAILABLE_PROVIDERS.find(p => p.id === entry.provider);
+                const profile = providerConfigs[entry.provider]?.profiles.find(p => p.id === entry.profileId);
+                const isMissing = !provider || (entry.profileId !== null && !profile);
+                const chain = globalSettings.fallbackChain;
+                const updateChain = (fallbackChain: FallbackChainEntry[]) => setGlobalSettings({ ...globalSettings, fallbackChain });
+                const moveEntry = (offset: number) => {
+                  const reordered = [...chain];
+                  reordered.splice(index, 1);
+                  reordered.splice(index + offset, 0, entry);
+                  updateChain(reordered);
+                };
+
+                return (
+                  <div key={entry.id} className="flex items-center gap-2 p-2 bg-zinc-800 rounded-lg">
+                    <span className="text-xs text-zinc-500 w-4">{index + 1}.</span>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm truncate ${isMissing ? "text-red-400 line-through" : "text-white"}`}>
+                        {provider?.name || entry.provider}{profile ? ` (${profile.name})` : ""}
+                      </p>
+                      <input
+                        type="text"
+                        value={entry.modelId || ""}
+                        onChange={(e) => updateChain(chain.map(c => c.id === entry.id ? { ...c, modelId: e.target.value.trim() || undefined } : c))}
+                        placeholder={profile?.selectedModel ? `Model (default: ${profile.selectedModel})` : "Model ID"}
+                        list={`fallback-models-${entry.id}`}
+                        className="w-full mt-1 bg-zinc-900 text-white placeholder-zinc-500 rounded px-2 py-1 text-xs border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                      <datalist id={`fallback-models-${entry.id}`}>
+                        {(entry.provider === "puter" ? models : providerModels[entry.provider] || []).map(m => (
+                          <option key={m.id} value={m.id}>{m.name}</option>
+                        ))}
+                      </datalist>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => moveEntry(-1)}
+                      disabled={index === 0}
+                      className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveEntry(1)}
+                      disabled={index === chain.length - 1}
+                      className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateChain(chain.filter(c => c.id !== entry.id))}
+                      className="p-1 text-zinc-400 hover:text-red-400"
+                      title="Remove from chain"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+              <select
+                value=""
+                onChange={(e) => {
+                  const [provider, profileId] = e.target.value.split("|");
+                  if (!provider) return;
+                  setGlobalSettings({
+                    ...globalSettings,
+                    fallbackChain: [
+                      ...globalSettings.fallbackChain,
+                      { id: crypto.randomUUID(), provider, profileId: profileId || null },
+                    ],
+                  });
+                }}
+                className="w-full bg-zinc-800 text-white rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">+ Add a provider profile...</option>
+                {/* Saved profiles of every provider; Puter.js (no profiles) once connected */}
+                {AVAILABLE_PROVIDERS.map(provider => provider.id === "puter"
+                  ? connectionStatus["puter"]?.status === "connected" && (
+                      <option key="puter" value="puter|">Puter.js</option>
+                    )
+                  : (providerConfigs[provider.id]?.profiles || []).map(profile => (
+                      <option key={`${provider.id}|${profile.id}`} value={`${provider.id}|${profile.id}`}>
+                        {provider.name} ({profile.name})
+                      </option>
+                    ))
+                )}
+              </select>
+            </div>
+          </div>
+
+          {/* API Key Rotation */}
+          <div className="border-t border-zinc-700 pt-6">
+            <h3 className="text-sm font-medium text-white mb-2">API Key Rotation</h3>
+            <p className="text-xs text-zinc-400 mb-4">
+              Spread requests over all profiles of a provider. A key that is rate limited (429) cools down
+              (1 minute, doubled for every rate limit in a row) and is tried last until then; the request
+              moves on to the next key right away.
+            </p>
+            {AVAILABLE_PROVIDERS.filter(provider => (providerConfigs[provider.id]?.profiles.length || 0) > 1).length === 0 ? (
+              <p className="text-xs text-zinc-500">Add two or more profiles to a provider to rotate its keys.</p>
+            ) : (
+              <div className="space-y-4">
+                {AVAILABLE_PROVIDERS.filter(provider => (providerConfigs[provider.id]?.profiles.length || 0) > 1).map(provider => {
+                  const config = providerConfigs[provider.id];
+                  return (
+                    <div key={provider.id} className="p-3 bg-zinc-800/50 rounded-lg">
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <span className="text-sm font-medium text-white">{provider.name}</span>
+                        <select
+                          value={config.keyRotation || "off"}
+                          onChange={(e) => setProviderConfigs(prev => ({
+                            ...prev,
+                            [provider.id]: { ...prev[provider.id], keyRotation: e.target.value as KeyRotationMode },
+                          }))}
+                          className="bg-zinc-800 text-white rounded px-2 py-1 text-xs border border-zinc-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          {KEY_ROTATION_MODES.map(mode => (
+                            <option key={mode.id} value={mode.id}>{mode.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-zinc-500 text-left">
+                            <th className="font-normal py-1">Profile</th>
+                            <th className="font-normal py-1">Last used</th>
+                            <th className="font-normal py-1">Last error</th>
+                            <th className="font-normal py-1">Cooldown</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {config.profiles.map(profile => {
+                            const status = keyStatus[profile.id];
+                            const coolingDown = isCoolingDown(status, now);
+                            return (
+                              <tr key={profile.id} className="border-t border-zinc-700/50 align-top">
+                                <td className="py-1 pr-2 text-white">
+                                  {profile.name}
+                                  {profile.id === config.activeProfileId && <span className="ml-1 text-blue-400">(active)</span>}
+                                </td>
+                                <td className="py-1 pr-2 text-zinc-400 whitespace-nowrap">
+                                  {status?.lastUsedAt ? new Date(status.lastUsedAt).toLocaleTimeString() : "Never"}
+                                </td>
+                                <td className="py-1 pr-2 text-red-400 break-words" title={status?.lastError}>
+                                  {status?.lastError
+                                    ? `${new Date(status.lastErrorAt || 0).toLocaleTimeString()}: ${status.lastError.length > 60 ? `${status.lastError.slice(0, 60)}...` : status.lastError}`
+                                    : <span className="text-zinc-500">None</span>}
+                                </td>
+                                <td className="py-1 whitespace-nowrap">
+                                  {coolingDown ? (
+                                    <span className="text-amber-400">
+                                      {Math.ceil(((status?.cooldownUntil || 0) - now) / 1000)}s
+                                      <button
+                                        type="button"
+                                        onClick={() => setKeyStatus(prev => ({ ...prev, [profile.id]: { ...prev[profile.id], cooldownUntil: undefined, rateLimitCount: 0 } }))}
+                                        className="ml-2 text-zinc-400 hover:text-white"
+                                        title="End the cooldown now"
+                                      >
+                                        Reset
+                                      </button>
+                                    </span>
+                                  ) : (
+                                    <span className="text-green-400">Ready</span>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Story Summary */}
+          <div className="border-t border-zinc-700 pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-white">Story Summary</h3>
+              <button
+                type="button"
+                onClick={() => setGlobalSettings({ ...globalSettings, enableSummary: !globalSettings.enableSummary })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  globalSettings.enableSummary ? "bg-blue-600" : "bg-zinc-700"
+                }`}
+                title={globalSettings.enableSummary ? "Disable story summary" : "Enable story summary"}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    globalSettings.enableSummary ? "translate-x-6" : "translate-x-1"
+                  }`}
+                />
+              </button>
+            </div>
+            <p className="text-xs text-zinc-400 mb-4">
+              Before older messages would fall out of the context, they are summarized into the chat&apos;s
+              story so far, which is sent with every reply. A cheaper model can write the summary.
+            </p>
+            <div className={`space-y-2 ${globalSettings.enableSummary ? "" : "opacity-50"}`}>
+              <label className="block text-xs text-zinc-400">Summarize with</label>
+              <select
+                value={globalSettings.summaryModel ? `${globalSettings.summaryModel.provider}|${globalSettings.summaryModel.profileId || ""}` : ""}
+                onChange={(e) => {
+                  const [provider, profileId] = e.target.value.split("|");
+                  setGlobalSettings({
+                    ...globalSettings,
+                    summaryModel: provider ? { provider, profileId: profileId || null } : null,
+                  });
+                }}
+                className="w-full bg-zinc-800 text-white rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Active provider and model</option>
+                {AVAILABLE_PROVIDERS.map(provider => provider.id === "puter"
+                  ? connectionStatus["puter"]?.status === "connected" && (
+                      <option key="puter" value="puter|">Puter.js</option>
+                    )
+                  : (providerConfigs[provider.id]?.profiles || []).map(profile => (
+                      <option key={`${provider.id}|${profile.id}`} value={`${provider.id}|${profile.id}`}>
+                        {provider.name} ({profile.name})
+                      </option>
+                    ))
+                )}
+              </select>
+              {globalSettings.summaryModel && (() => {
+                const summaryModel = globalSettings.summaryModel;
+                const profile = providerConfigs[summaryModel.provider]?.profiles.find(p => p.id === summaryModel.profileId);
+                return (
+                  <>
+                    <input
+                      type="text"
+                      value={summaryModel.modelId || ""}
+                      onChange={(e) => setGlobalSettings({
+                        ...globalSettings,
+                        summaryModel: { ...summaryModel, modelId: e.target.value.trim() || undefined },
+                      })}
+                      placeholder={profile?.selectedModel ? `Model (default: ${profile.selectedModel})` : "Model ID"}
+                      list="summary-models"
+                      className="w-full bg-zinc-800 text-white placeholder-zinc-500 rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <datalist id="summary-models">
+                      {(summaryModel.provider === "puter" ? models : providerModels[summaryModel.provider] || []).map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </datalist>
+                  </>
+                );
+              })()}
+            </div>
+          </div>
+
+          {/* Memory Recall */}
+          <div className="border-t border-zinc-700 pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-white">Memory Recall</h3>
+              <button
+                type="button"
+                onClick={() => setGlobalSettings({ ...globalSettings, enableMemory: !globalSettings.enableMemory })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  globalSettings.enableMemory ? "bg-blue-600" : "bg-zinc-700"
+                }`}
+                title={globalSettings.enableMemory ? "Disable memory recall" : "Enable memory recall"}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    globalSettings.enableMemory ? "translate-x-6" : "translate-x-1"
+                  }`}
+                />
+              </button>
+            </div>
+            <p className="text-xs text-zinc-400 mb-4">
+              Messages that no longer fit into the context are embedded and kept in this browser. With each reply,
+              the ones most related to your latest message are sent along as relevant memories. The local model
+              (all-MiniLM-L6-v2) runs in this browser: it is downloaded once (about 23 MB) on first use and works
+              offline after that. A provider&apos;s embedding model needs no download but sends the messages to
+              the provider.
+            </p>
+            <div className={`space-y-3 ${globalSettings.enableMemory ? "" : "opacity-50"}`}>
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Embeddings from</label>
+                <select
+                  value={globalSettings.memoryEmbeddingModel ? `${globalSettings.memoryEmbeddingModel.provider}|${globalSettings.memoryEmbeddingModel.profileId}` : ""}
+                  onChange={(e) => {
+                    const [provider, profileId] = e.target.value.split("|");
+                    setGlobalSettings({
+                      ...globalSettings,
+                      memoryEmbeddingModel: provider ? { provider, profileId, modelId: "" } : null,
+                    });
+                  }}
+                  className="w-full bg-zinc-800 text-white rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Local model (all-MiniLM-L6-v2, in the browser)</option>
+                  {/* Saved profiles of the providers with an embedding endpoint */}
+                  {AVAILABLE_PROVIDERS.filter(provider => getProviderAdapter(provider.id)?.embed).map(provider =>
+                    (providerConfigs[provider.id]?.profiles || []).map(profile => (
+                      <option key={`${provider.id}|${profile.id}`} value={`${provider.id}|${profile.id}`}>
+                        {provider.name} ({profile.name})
+                      </option>
+                    ))
+                  )}
+                </select>
+              </div>
+              {globalSettings.memoryEmbeddingModel && (() => {
+                const embeddingModel = globalSettings.memoryEmbeddingModel;
+                return (
+                  <div>
+                    <input
+                      type="text"
+                      value={embeddingModel.modelId}
+                      onChange={(e) => setGlobalSettings({
+                        ...globalSettings,
+                        memoryEmbeddingModel: { ...embeddingModel, modelId: e.target.value.trim() },
+                      })}
+                      placeholder="Embedding model ID (e.g. text-embedding-3-small, gemini-embedding-001)"
+                      list="embedding-models"
+                      className="w-full bg-zinc-800 text-white placeholder-zinc-500 rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <datalist id="embedding-models">
+                      {(providerModels[embeddingModel.provider] || []).filter(m => /embed/i.test(m.id)).map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </datalist>
+                    <p className="text-xs text-zinc-500 mt-1">Changing the model embeds the messages again.</p>
+                  </div>
+                );
+              })()}
+              <div className="flex items-center justify-between gap-4">
+                <label className="text-xs text-zinc-400">Memories per reply</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={globalSettings.memoryTopK}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    if (!isNaN(value) && value >= 1 && value <= 20) {
+                      setGlobalSettings({ ...globalSettings, memoryTopK: value });
+                    }
+                  }}
+                  className="w-20 bg-zinc-800 text-white rounded-lg px-3 py-1 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={globalSettings.memoryAcrossChats}
+                  onChange={(e) => setGlobalSettings({ ...globalSettings, memoryAcrossChats: e.target.checked })}
+                  className="rounded border-zinc-600 bg-zinc-800"
+                />
+                Also recall from other chats with the same character
+              </label>
+              <button
+                type="button"
+                onClick={async () => {
+                  try {
+                    await clearMemoryVectors();
+                    setMemoryIndexNotice("Stored embeddings cleared");
+                  } catch (error) {
+                    setMemoryIndexNotice(`Could not clear the embeddings: ${error instanceof Error ? error.message : "Unknown error"}`);
+                  }
+                }}
+                className="py-1.5 px-3 bg-zinc-800 text-zinc-300 rounded-lg hover:bg-zinc-700 transition-colors text-xs"
+              >
+                Clear stored embeddings
+              </button>
+              {memoryIndexNotice && <p className="text-xs text-zinc-400">{memoryIndexNotice}</p>}
+            </div>
+          </div>
+
+          {/* Data Export/Import */}
+          <div className="border-t border-zinc-700 pt-6">
+            <h3 className="text-sm font-medium text-white mb-4">Data Backup</h3>
+            <p className="text-xs text-zinc-400 mb-4">
+              Export your personas, characters, conversations, and settings to a JSON file. 
+              Import to restore your data on any device.
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onExportData}
+                className="flex-1 py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+              >
+                📥 Export Data
+              </button>
+              <input
+                type="file"
+                ref={dataImportInputRef}
+                accept=".json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    onImportData(file);
+                    e.target.value = "";
+                  }
+                }}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => dataImportInputRef.current?.click()}
+                className="flex-1 py-2 px-4 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
+              >
+                📤 Import Data
+              </button>
+            </div>
+            
+            {/* Auto-export settings */}
+            <div className="mt-4 p-3 bg-zinc-800 rounded-lg">
+              <div className="flex items-center gap-3 mb-3">
+                <input
+                  type="checkbox"
+                  id="autoExport"
+                  checked={autoExport.enabled}
+                  onChange={(e) => setAutoExport(prev => ({ ...prev, enabled: e.target.checked }))}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-blue-500 focus:ring-blue-500 focus:ring-offset-zinc-900"
+                />
+                <label htmlFor="autoExport" className="text-sm text-white">
+                  Auto-export every
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="60"
+                  value={autoExport.intervalMinutes}
+                  onChange={(e) => setAutoExport(prev => ({ ...prev, intervalMinutes: Math.max(1, Math.min(60, parseInt(e.target.value) || 1)) }))}
+                  disabled={!autoExport.enabled}
+                  className="w-16 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-white text-sm text-center disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+                <span className="text-sm text-zinc-400">minutes</span>
+              </div>
+              <p className="text-xs text-zinc-500">
+                {autoExport.enabled 
+                  ? `✓ Auto-export enabled - will export every ${autoExport.intervalMinutes} minute${autoExport.intervalMinutes !== 1 ? 's' : ''}`
+                  : "Enable to automatically backup your data at regular intervals"
+                }
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Labels for lorebook entry positions
+const LOREBOOK_POSITION_LABELS: Record<LorebookPosition, string> = {
+  before_char: "Before character",
+  after_char: "After character",
+  before_example: "Before examples",
+  after_example: "After examples",
+  at_depth: "In chat at depth",
+};
+
+// Split a comma-separated keyword field (empty keys are kept while typing and dropped on save)
+// Commas inside /regex/ keys don't split
+const parseKeyList = (value: string): string[] => {
+  const keys: string[] = [];
+  let current = "";
+  let inRegex = false;
+
+  for (const char of value) {
+    if (char === "," && !inRegex) {
+      keys.push(current.trim());
+      current = "";
+      continue;
+    }
+    if (char === "/" && (inRegex ? !current.endsWith("\\") : !current.trim())) {
+      inRegex = !inRegex;
+    }
+    current += char;
+  }
+
+  keys.push(current.trim());
+  return keys;
+};
+
+// Drop empty keywords left over from editing (a book with no entries and no settings is dropped)
+function cleanCharacterBook(book: CharacterBook | undefined): CharacterBook | undefined {
+  if (!book) return undefined;
+  const { entries, ...metadata } = book;
+  const hasMetadata = Object.values(metadata).some((value) =>
+    value && typeof value === "object" ? Object.keys(value).length > 0 : value !== undefined && value !== "" && value !== false
+  );
+  if (entries.length === 0 && !hasMetadata) return undefined;
+  return {
+    ...book,
+    entries: book.entries.map((entry) => ({
+      ...entry,
+      keys: entry.keys.filter(Boolean),
+      secondaryKeys: entry.secondaryKeys?.filter(Boolean),
+    })),
+  };
+}
+
+// Lorebook Editor Component - edit entries and test which ones fire
+function LorebookEditor({
+  book,
+  onChange,
+  personaName,
+  characterName,
+}: {
+  book: CharacterBook | undefined;
+  onChange: (book: CharacterBook) => void;
+  personaName: string;
+  characterName: string;
+}) {
+  const [expandedEntryId, setExpandedEntryId] = useState<number | null>(null);
+  const [testText, setTestText] = useState("");
+  const entries = book?.entries || [];
+  // Listed in placement order (the order scanLorebook inserts them in)
+  const sortedEntries = [...entries].sort((a, b) => a.insertionOrder - b.insertionOrder || a.id - b.id);
+
+  const updateBook = (changes: Partial<CharacterBook>) => {
+    onChange({ entries: [], ...book, ...changes });
+  };
+
+  const updateEntry = (id: number, changes: Partial<CharacterBookEntry>) => {
+    updateBook({ entries: entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)) });
+  };
+
+  const addEntry = () => {
+    const id = entries.reduce((max, entry) => Math.max(max, entry.id), -1) + 1;
+    const insertionOrder = entries.reduce((max, entry) => Math.max(max, entry.insertionOrder), 90) + 10;
+    updateBook({
+      entries: [...entries, { id, keys: [], content: "", enabled: true, insertionOrder, name: `Entry ${entries.length + 1}` }],
+    });
+    setExpandedEntryId(id);
+  };
+
+  const deleteEntry = (id: number) => {
+    updateBook({ entries: entries.filter((entry) => entry.id !== id) });
+  };
+
+  // Moving an entry renumbers the insertion orders (10, 20, ...) to follow the new list order
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sortedEntries.length) return;
+    const reordered = [...sortedEntries];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const insertionOrders = new Map(reordered.map((entry, i) => [entry.id, (i + 1) * 10]));
+    updateBook({ entries: entries.map((entry) => ({ ...entry, insertionOrder: insertionOrders.get(entry.id)! })) });
+  };
+
+  // Live tester: scan the test text as if it were the latest chat message
+  const testResult = useMemo(() => {
+    if (!testText.trim() || !book) return null;
+    return scanLorebook([{ role: "user", content: testText }], { ...book, scanDepth: 1 }, { personaName, characterName });
+  }, [testText, book, personaName, characterName]);
+
+  const inputClass = "w-full bg-zinc-800 text-white placeholder-zinc-500 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500 border border-zinc-700 text-sm";
+
+  return (
+    <div className="space-y-3">
+      {/* Book settings */}
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs text-zinc-400 mb-1">Scan depth</label>
+          <input
+            type="number"
+            min={1}
+            value={book?.scanDepth ?? ""}
+            onChange={(e) => updateBook({ scanDepth: e.target.value ? parseInt(e.target.value) : undefined })}
+            placeholder={String(DEFAULT_SCAN_DEPTH)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-zinc-400 mb-1">Token budget</label>
+          <input
+            type="number"
+            min={0}
+            value={book?.tokenBudget ?? ""}
+            onChange={(e) => updateBook({ tokenBudget: e.target.value ? parseInt(e.target.value) : undefined })}
+            placeholder="Unlimited"
+            className={inputClass}
+          />
+        </div>
+        <label className="flex items-end gap-2 pb-2 text-xs text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!book?.recursiveScanning}
+            onChange={(e) => updateBook({ recursiveScanning: e.target.checked })}
+            className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+          />
+          Recursive
+        </label>
+      </div>
+
+      {/* Entries */}
+      <div className="space-y-2">
+        {sortedEntries.map((entry, index) => {
+          const isExpanded = expandedEntryId === entry.id;
+          const matchMode = getEntryMatchMode(entry);
+          const keyErrors = [...entry.keys, ...(entry.secondaryKeys || [])]
+            .map((key) => {
+              const error = validateLorebookKey(key, matchMode);
+              return error ? `${key}: ${error}` : null;
+            })
+            .filter((error): error is string => error !== null);
+          const title = entry.name || entry.comment || entry.keys.filter(Boolean).join(", ") || `Entry ${index + 1}`;
+
+          return (
+            <div key={entry.id} className={`border rounded-lg ${entry.enabled ? "border-zinc-700" : "border-zinc-800 opacity-60"}`}>
+              <div className="flex items-center gap-1 px-2 py-1.5">
+                <input
+                  type="checkbox"
+                  checked={entry.enabled}
+                  onChange={(e) => updateEntry(entry.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                  title="Enabled"
+                />
+                <button
+                  onClick={() => setExpandedEntryId(isExpanded ? null : entry.id)}
+                  className="flex-1 min-w-0 text-left px-1 text-sm text-zinc-200 truncate"
+                >
+                  {entry.constant && <span className="text-yellow-400 mr-1" title="Constant">★</span>}
+                  {keyErrors.length > 0 && <span className="text-red-400 mr-1" title="Invalid regex key">!</span>}
+                  {title}
+                </button>
+                <button
+                  onClick={() => moveEntry(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveEntry(index, 1)}
+                  disabled={index === entries.length - 1}
+                  className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => deleteEntry(entry.id)}
+                  className="p-1 text-red-400 hover:text-red-300"
+                  title="Delete entry"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-zinc-800 p-3 space-y-3">
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={entry.name || ""}
+                      onChange={(e) => updateEntry(entry.id, { name: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="col-span-2">
+                      <label className="block text-xs text-zinc-400 mb-1">Keys (comma-separated)</label>
+                      <input
+                        type="text"
+                        value={entry.keys.join(", ")}
+                        onChange={(e) => updateEntry(entry.id, { keys: parseKeyList(e.target.value) })}
+                        placeholder={matchMode === "regex" ? "/drag(on|ons)/i" : "dragon, wyrm"}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Match</label>
+                      <select
+                        value={matchMode}
+                        onChange={(e) => {
+                          const mode = e.target.value as LorebookMatchMode;
+                          updateEntry(entry.id, { useRegex: mode === "regex", matchWholeWords: mode === "whole_word" });
+                        }}
+                        className={inputClass}
+                      >
+                        <option value="substring">Substring</option>
+                        <option value="whole_word">Whole word</option>
+                        <option value="regex">Regex</option>
+                      </select>
+                    </div>
+                  </div>
+                  {keyErrors.length > 0 && (
+                    <div className="text-xs text-red-400 space-y-0.5">
+                      {keyErrors.map((error) => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="col-span-2">
+                      <label className="block text-xs text-zinc-400 mb-1">Secondary keys</label>
+                      <input
+                        type="text"
+                        value={(entry.secondaryKeys || []).join(", ")}
+                        onChange={(e) => updateEntry(entry.id, { secondaryKeys: parseKeyList(e.target.value) })}
+                        placeholder="Optional filter"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Logic</label>
+                      <select
+                        value={entry.selectiveLogic ?? SELECTIVE_LOGIC.AND}
+                        onChange={(e) => updateEntry(entry.id, { selectiveLogic: parseInt(e.target.value) })}
+                        className={inputClass}
+                      >
+                        <option value={SELECTIVE_LOGIC.AND}>Any</option>
+                        <option value={SELECTIVE_LOGIC.AND_ALL}>All</option>
+                        <option value={SELECTIVE_LOGIC.NOT}>Not all</option>
+                        <option value={SELECTIVE_LOGIC.NOT_OR}>None</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-1">Content</label>
+                    <textarea
+                      value={entry.content}
+                      onChange={(e) => updateEntry(entry.id, { content: e.target.value })}
+                      placeholder="Information inserted into the prompt when this entry fires..."
+                      rows={3}
+                      className={`${inputClass} resize-none`}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Insertion order</label>
+                      <input
+                        type="number"
+                        value={entry.insertionOrder}
+                        onChange={(e) => updateEntry(entry.id, { insertionOrder: parseInt(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Priority</label>
+                      <input
+                        type="number"
+                        value={entry.priority ?? ""}
+                        onChange={(e) => updateEntry(entry.id, { priority: e.target.value ? parseInt(e.target.value) : undefined })}
+                        placeholder="0"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-zinc-400 mb-1">Depth</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={entry.depth ?? ""}
+                        onChange={(e) => updateEntry(entry.id, { depth: e.target.value ? parseInt(e.target.value) : undefined })}
+                        placeholder={String(DEFAULT_INSERTION_DEPTH)}
+                        disabled={entry.position !== "at_depth"}
+                        className={`${inputClass} disabled:opacity-40`}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-1">Position</label>
+                    <select
+                      value={entry.position || DEFAULT_ENTRY_POSITION}
+                      onChange={(e) => updateEntry(entry.id, { position: e.target.value as LorebookPosition })}
+                      className={inputClass}
+                    >
+                      {(Object.keys(LOREBOOK_POSITION_LABELS) as LorebookPosition[]).map((position) => (
+                        <option key={position} value={position}>{LOREBOOK_POSITION_LABELS[position]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-xs text-zinc-300">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!entry.constant}
+                        onChange={(e) => updateEntry(entry.id, { constant: e.target.checked })}
+                        className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                      />
+                      Constant (always active)
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!entry.caseSensitive}
+                        onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })}
+                        className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                      />
+                      Case sensitive
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={addEntry}
+          className="text-sm text-purple-400 hover:text-purple-300 flex items-center gap-1"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Add Entry
+        </button>
+      </div>
+
+      {/* Live tester */}
+      {entries.length > 0 && (
+        <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg p-3 space-y-2">
+          <label className="block text-xs text-zinc-400">Test: which entries fire for this text?</label>
+          <textarea
+            value={testText}
+            onChange={(e) => setTestText(e.target.value)}
+            placeholder="Type a message to test keyword matching..."
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+          {testResult && (
+            testResult.entries.length === 0 ? (
+              <p className="text-xs text-zinc-500">No entries fire.</p>
+            ) : (
+              <ul className="space-y-1">
+                {testResult.entries.map(({ entry, tokens }) => (
+                  <li key={entry.id} className="flex justify-between gap-2 text-xs">
+                    <span className="text-green-400 truncate">
+                      {entry.name || entry.comment || entry.keys.filter(Boolean).join(", ") || `Entry ${entry.id}`}
+                    </span>
+                    <span className="text-zinc-500 flex-shrink-0">
+                      {LOREBOOK_POSITION_LABELS[entry.position || DEFAULT_ENTRY_POSITION]} • ~{tokens} tokens
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Checkbox list for attaching world lorebooks to a character, persona or conversation
+function LorebookPicker({
+  lorebooks,
+  selectedIds,
+  onChange,
+}: {
+  lorebooks: WorldLorebook[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  if (lorebooks.length === 0) {
+    return <p className="text-xs text-zinc-500">No world lorebooks yet. Create or import one from the Lorebooks menu.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {lorebooks.map((book) => (
+        <label key={book.id} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(book.id)}
+            onChange={(e) =>
+              onChange(e.target.checked ? [...selectedIds, book.id] : selectedIds.filter((id) => id !== book.id))
+            }
+            className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+          />
+          <span className="truncate">{book.name}</span>
+          <span className="text-xs text-zinc-500">({book.entries.length} entries)</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// World Lorebooks Modal - manage standalone lorebooks and attach them to the current chat
+function WorldLorebooksModal({
+  show,
+  onClose,
+  lorebooks,
+  setLorebooks,
+  conversationLorebookIds,
+  onChangeConversationLorebooks,
+  personaName,
+  characterName,
+}: {
+  show: boolean;
+  onClose: () => void;
+  lorebooks: WorldLorebook[];
+  setLorebooks: React.Dispatch<React.SetStateAction<WorldLorebook[]>>;
+  conversationLorebookIds: string[] | null; // null when no conversation is open
+  onChangeConversationLorebooks: (ids: string[]) => void;
+  personaName: string;
+  characterName: string;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const [editingLorebookId, setEditingLorebookId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!show) return null;
+
+  const createLorebook = () => {
+    const now = Date.now();
+    setLorebooks((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), name: `Lorebook ${prev.length + 1}`, entries: [], createdAt: now, updatedAt: now },
+    ]);
+  };
+
+  const updateLorebook = (id: string, changes: Partial<WorldLorebook>) => {
+    setLorebooks((prev) => prev.map((book) => (book.id === id ? { ...book, ...changes, updatedAt: Date.now() } : book)));
+  };
+
+  const deleteLorebook = (id: string) => {
+    setLorebooks((prev) => prev.filter((book) => book.id !== id));
+    if (conversationLorebookIds?.includes(id)) {
+      onChangeConversationLorebooks(conversationLorebookIds.filter((bookId) => bookId !== id));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    const result = await readWorldInfoFile(file);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    setLorebooks((prev) => [...prev, result]);
+  };
+
+  const handleExport = (book: WorldLorebook) => {
+    const baseName = book.name.replace(/\s+/g, "-").toLowerCase() || "lorebook";
+    downloadBlob(new Blob([exportWorldInfo(book)], { type: "application/json" }), `${baseName}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-lg max-h-[80vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-semibold text-white mb-1">World Lorebooks</h2>
+        <p className="text-sm text-zinc-500 mb-4">
+          Standalone lorebooks can be attached to characters, personas or a single chat. The character&apos;s own
+          lorebook always comes first; attached books follow in the order chat → character → persona.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input type="file" ref={fileInputRef} accept=".json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={createLorebook}
+            className="flex-1 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
+          >
+            New Lorebook
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 py-2 bg-zinc-700 text-white rounded-lg hover:bg-zinc-600 transition-colors text-sm"
+            title="Import SillyTavern World Info (JSON)"
+          >
+            Import
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-800 rounded-lg px-4 py-3 text-red-200 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {lorebooks.length === 0 ? (
+          <p className="text-center text-sm text-zinc-500 py-8">No world lorebooks yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {lorebooks.map((book) => (
+              <div key={book.id} className="bg-zinc-800/50 border border-zinc-700 rounded-xl p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={book.name}
+                    onChange={(e) => updateLorebook(book.id, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-zinc-800 text-white rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 border border-zinc-700"
+                  />
+                  <button
+                    onClick={() => setEditingLorebookId(editingLorebookId === book.id ? null : book.id)}
+                    className={`p-1.5 hover:bg-zinc-700 rounded-lg transition-colors ${editingLorebookId === book.id ? "text-purple-400" : "text-zinc-400 hover:text-white"}`}
+                    title="Edit entries"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleExport(book)}
+                    className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-700 rounded-lg transition-colors"
+                    title="Export as SillyTavern World Info"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => deleteLorebook(book.id)}
+                    className="p-1.5 text-zinc-400 hover:text-red-400 hover:bg-zinc-700 rounded-lg transition-colors"
+                    title="Delete lorebook"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+                <div className="flex items-center justify-between text-xs text-zinc-500">
+                  <span>
+                    {book.entries.length} entries
+                    {book.entries.length > 0 && ` • ${book.entries.filter((entry) => entry.enabled).length} enabled`}
+                  </span>
+                  {conversationLorebookIds && (
+                    <label className="flex items-center gap-2 text-zinc-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={conversationLorebookIds.includes(book.id)}
+                        onChange={(e) =>
+                          onChangeConversationLorebooks(
+                            e.target.checked
+                              ? [...conversationLorebookIds, book.id]
+                              : conversationLorebookIds.filter((id) => id !== book.id)
+                          )
+                        }
+                        className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                      />
+                      Use in this chat
+                    </label>
+                  )}
+                </div>
+                {editingLorebookId === book.id && (
+                  <LorebookEditor
+                    book={book}
+                    onChange={(changed) => updateLorebook(book.id, changed)}
+                    personaName={personaName}
+                    characterName={characterName}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Collapsible block of preformatted text (JSON or prompt) in the request inspector
+function InspectorSection({ title, content, defaultOpen = false }: { title: string; content: string; defaultOpen?: boolean }) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  return (
+    <div className="border border-zinc-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-800 rounded-lg transition-colors"
+      >
+        <span>{title}</span>
+        <span className="text-xs text-zinc-500">{isOpen ? "Hide" : "Show"}</span>
+      </button>
+      {isOpen && (
+        <pre className="px-3 pb-3 text-xs text-zinc-400 whitespace-pre-wrap break-words max-h-72 overflow-y-auto">
+          {content || "(empty)"}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// Bar colors of the context map categories
+const CONTEXT_CATEGORY_COLORS: Record<ContextCategory, string> = {
+  system: "bg-purple-500",
+  persona: "bg-blue-500",
+  lorebook: "bg-emerald-500",
+  examples: "bg-amber-500",
+  summary: "bg-cyan-500",
+  memory: "bg-indigo-500",
+  history: "bg-pink-500",
+};
+
+// Context map of a generation: tokens per part of the prompt and what was cut to fit
+function ContextMapView({ contextMap }: { contextMap: ContextMap }) {
+  const categories = Object.keys(CONTEXT_CATEGORY_NAMES) as ContextCategory[];
+  const totalUsed = categories.reduce((total, category) => total + contextMap.used[category], 0);
+  const percent = (tokens: number) =>
+    contextMap.maxContextTokens > 0 ? `${Math.min((tokens / contextMap.maxContextTokens) * 100, 100)}%` : "0%";
+  const prefix = contextMap.exact ? "" : "~";
+
+  return (
+    <div className="mb-4 bg-zinc-800/50 border border-zinc-700 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-white font-medium">Context Map</span>
+        <span className="text-xs text-zinc-400">
+          {prefix}{totalUsed.toLocaleString()} / {contextMap.maxContextTokens.toLocaleString()} tokens • {contextMap.tokenizer}
+        </span>
+      </div>
+      <div className="flex h-2 bg-zinc-800 rounded-full overflow-hidden">
+        {categories.map((category) => (
+          <div
+            key={category}
+            className={CONTEXT_CATEGORY_COLORS[category]}
+            style={{ width: percent(contextMap.used[category]) }}
+            title={`${CONTEXT_CATEGORY_NAMES[category]}: ${contextMap.used[category].toLocaleString()} tokens`}
+          />
+        ))}
+        <div className="bg-zinc-600" style={{ width: percent(contextMap.reserveTokens) }} title="Reserved for the reply" />
+      </div>
+      <div className="grid grid-cols-[auto_1fr_auto_auto] gap-x-3 gap-y-1 text-xs">
+        {categories.map((category) => (
+          <Fragment key={category}>
+            <span className={`w-2 h-2 mt-1 rounded-full ${CONTEXT_CATEGORY_COLORS[category]}`} />
+            <span className="text-zinc-300">{CONTEXT_CATEGORY_NAMES[category]}</span>
+            <span className="text-zinc-400 text-right">{prefix}{contextMap.used[category].toLocaleString()}</span>
+            <span className="text-red-400 text-right">
+              {contextMap.dropped[category] > 0 ? `−${contextMap.dropped[category].toLocaleString()} cut` : ""}
+            </span>
+          </Fragment>
+        ))}
+        <span className="w-2 h-2 mt-1 rounded-full bg-zinc-600" />
+        <span className="text-zinc-300">Reserved for reply</span>
+        <span className="text-zinc-400 text-right">{contextMap.reserveTokens.toLocaleString()}</span>
+        <span />
+      </div>
+      {contextMap.overBudget && (
+        <p className="text-xs text-amber-400">
+          Still over the budget after dropping everything allowed (pinned messages and the latest message are always sent).
+        </p>
+      )}
+      {contextMap.cutMessages.length > 0 && (
+        <div>
+          <p className="text-xs text-zinc-400 mb-1">{contextMap.cutMessages.length} messages cut:</p>
+          <div className="max-h-32 overflow-y-auto space-y-0.5">
+            {contextMap.cutMessages.map((cut) => (
+              <p key={cut.index} className="text-xs text-zinc-500 truncate">
+                #{cut.index + 1} {cut.role} ({prefix}{cut.tokens.toLocaleString()}): {cut.preview}
+              </p>
+            ))}
           </div>
+        </div>
+      )}
+    </div>
+  );
+}
 
-          {/* Data Export/Import */}
-          <div className="border-t border-zinc-700 pt-6">
-            <h3 className="text-sm font-medium text-white mb-4">Data Backup</h3>
-            <p className="text-xs text-zinc-400 mb-4">
-              Export your personas, characters, conversations, and settings to a JSON file. 
-              Import to restore your data on any device.
-            </p>
-            <div className="flex gap-3">
-              <button
-                type="button"
-                onClick={onExportData}
-                className="flex-1 py-2 px-4 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
-              >
-                📥 Export Data
-              </button>
-              <input
-                type="file"
-                ref={dataImportInputRef}
-                accept=".json"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) {
-                    onImportData(file);
-                    e.target.value = "";
-                  }
-                }}
-                className="hidden"
-              />
-              <button
-                type="button"
-                onClick={() => dataImportInputRef.current?.click()}
-                className="flex-1 py-2 px-4 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm font-medium"
-              >
-                📤 Import Data
-              </button>
+// Request inspector: what was sent for one generation and what came back
+// Story so far of the open chat: edit it, or rewrite it from the messages it covers
+function StorySummaryModal({
+  show,
+  onClose,
+  summary,
+  messageCount,
+  onSave,
+  onRegenerate,
+}: {
+  show: boolean;
+  onClose: () => void;
+  summary: ConversationSummary | undefined;
+  messageCount: number;
+  onSave: (text: string) => void;
+  onRegenerate: () => Promise<{ summary: string } | { error: string }>;
+}) {
+  const [text, setText] = useState(summary?.text || "");
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!show) return null;
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    setError(null);
+    const result = await onRegenerate();
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setText(result.summary);
+    }
+    setIsRegenerating(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-2xl max-h-[80vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-semibold text-white mb-1">Story So Far</h2>
+        <p className="text-sm text-zinc-500 mb-4">
+          {summary
+            ? `Covers the first ${summary.coveredCount} of ${messageCount} messages • updated ${new Date(summary.updatedAt).toLocaleString()}`
+            : "No summary yet. It is written when older messages are about to fall out of the context (enable it in the settings), or now with Regenerate."}
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={12}
+          placeholder="What has happened in the story so far..."
+          className="w-full bg-zinc-800 text-white placeholder-zinc-500 rounded-lg px-3 py-2 text-sm border border-zinc-700 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+        />
+        <p className="text-xs text-zinc-500 mt-2">
+          Sent with every reply as [Story So Far]. When the context is full, the messages it covers are left out first.
+        </p>
+        {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+        <div className="flex flex-wrap gap-3 mt-6">
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            disabled={isRegenerating}
+            className="py-2 px-4 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {isRegenerating ? "Summarizing..." : "Regenerate"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setText("")}
+            disabled={isRegenerating || !text}
+            className="py-2 px-4 bg-zinc-800 text-red-400 rounded-lg hover:bg-zinc-700 transition-colors text-sm disabled:opacity-50"
+          >
+            Clear
+          </button>
+          <div className="flex-1" />
+          <button
+            type="button"
+            onClick={onClose}
+            className="py-2 px-4 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(text)}
+            disabled={isRegenerating}
+            className="py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function GenerationInspectorModal({
+  record,
+  onClose,
+}: {
+  record: GenerationRecord | null;
+  onClose: () => void;
+}) {
+  if (!record) return null;
+
+  const formatDuration = (from?: number, to?: number) =>
+    from !== undefined && to !== undefined ? `${((to - from) / 1000).toFixed(2)}s` : "—";
+
+  const handleExport = () => {
+    const timestamp = new Date(record.createdAt).toISOString().replace(/[:.]/g, "-");
+    downloadBlob(
+      new Blob([exportGenerationRecord(record)], { type: "application/json" }),
+      `generation-${record.kind}-${timestamp}.json`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-3xl max-h-[80vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-semibold text-white mb-1">Request Inspector</h2>
+        <p className="text-sm text-zinc-500 mb-4">
+          {record.kind.charAt(0).toUpperCase() + record.kind.slice(1)} • {new Date(record.createdAt).toLocaleString()} •{" "}
+          {formatDuration(record.createdAt, record.finishedAt)} total. API keys and credentials are redacted.
+        </p>
+
+        {record.contextMap && <ContextMapView contextMap={record.contextMap} />}
+
+        <div className="space-y-2">
+          <InspectorSection title="System prompt" content={record.systemPrompt} />
+          <InspectorSection
+            title={`Messages sent (${record.messages.length} after truncation)`}
+            content={JSON.stringify(record.messages, null, 2)}
+          />
+        </div>
+
+        {record.attempts.length === 0 && (
+          <p className="text-center text-sm text-zinc-500 py-6">Waiting for the request...</p>
+        )}
+        {record.attempts.map((attempt, i) => (
+          <div key={i} className="mt-4 bg-zinc-800/50 border border-zinc-700 rounded-xl p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <span className="text-white font-medium">
+                {record.attempts.length > 1 ? `Attempt ${i + 1}: ` : ""}
+                {attempt.provider ? `${attempt.provider}${attempt.model ? ` · ${attempt.model}` : ""}` : "Not sent"}
+              </span>
+              {attempt.status !== undefined && <span className="text-xs text-zinc-400">HTTP {attempt.status}</span>}
+              {attempt.aborted && <span className="text-xs text-amber-400">Stopped</span>}
+              {attempt.finishedAt === undefined && <span className="text-xs text-blue-400">In progress</span>}
             </div>
-            
-            {/* Auto-export settings */}
-            <div className="mt-4 p-3 bg-zinc-800 rounded-lg">
-              <div className="flex items-center gap-3 mb-3">
-                <input
-                  type="checkbox"
-                  id="autoExport"
-                  checked={autoExport.enabled}
-                  onChange={(e) => setAutoExport(prev => ({ ...prev, enabled: e.target.checked }))}
-                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-700 text-blue-500 focus:ring-blue-500 focus:ring-offset-zinc-900"
-                />
-                <label htmlFor="autoExport" className="text-sm text-white">
-                  Auto-export every
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  max="60"
-                  value={autoExport.intervalMinutes}
-                  onChange={(e) => setAutoExport(prev => ({ ...prev, intervalMinutes: Math.max(1, Math.min(60, parseInt(e.target.value) || 1)) }))}
-                  disabled={!autoExport.enabled}
-                  className="w-16 px-2 py-1 bg-zinc-700 border border-zinc-600 rounded text-white text-sm text-center disabled:opacity-50 disabled:cursor-not-allowed"
-                />
-                <span className="text-sm text-zinc-400">minutes</span>
-              </div>
-              <p className="text-xs text-zinc-500">
-                {autoExport.enabled 
-                  ? `✓ Auto-export enabled - will export every ${autoExport.intervalMinutes} minute${autoExport.intervalMinutes !== 1 ? 's' : ''}`
-                  : "Enable to automatically backup your data at regular intervals"
-                }
+            {attempt.url && (
+              <p className="text-xs text-zinc-500 break-all">
+                {attempt.method} {attempt.url}
               </p>
-            </div>
+            )}
+            <p className="text-xs text-zinc-400">
+              First event after {formatDuration(attempt.startedAt, attempt.firstEventAt)} • Finished after{" "}
+              {formatDuration(attempt.startedAt, attempt.finishedAt)} • {attempt.events.length} events
+              {attempt.droppedEvents > 0 && ` (${attempt.droppedEvents} more not kept)`}
+            </p>
+            {attempt.error && (
+              <div className="bg-red-900/50 border border-red-800 rounded-lg px-3 py-2 text-red-200 text-xs">
+                {attempt.error}
+              </div>
+            )}
+            {attempt.url && <InspectorSection title="Request payload" content={JSON.stringify(attempt.payload, null, 2)} />}
+            {attempt.events.length > 0 && (
+              <InspectorSection
+                title="Raw response events"
+                content={attempt.events.map((event) => JSON.stringify(event)).join("\n")}
+              />
+            )}
           </div>
-        </div>
+        ))}
 
         <div className="flex gap-3 mt-6">
+          <button
+            onClick={handleExport}
+            className="flex-1 py-2 bg-zinc-700 text-white rounded-lg hover:bg-zinc-600 transition-colors"
+          >
+            Export JSON
+          </button>
           <button
             onClick={onClose}
-            className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            className="flex-1 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
           >
             Done
           </button>
@@ -1860,6 +4008,15 @@ export default function Chat() {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [lorebooks, setLorebooks] = useState<WorldLorebook[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null); // Last failed save (e.g. storage full)
+  // Write the collections to the storage backend once they are loaded
+  const collectionSyncs = useRef<{
+    personas: CollectionSync<Persona>;
+    characters: CollectionSync<Character>;
+    conversations: CollectionSync<Conversation>;
+    lorebooks: CollectionSync<WorldLorebook>;
+  } | null>(null);
   const [selectedPersona, setSelectedPersona] = useState<Persona | null>(null);
   const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(null);
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
@@ -1877,6 +4034,7 @@ export default function Chat() {
   const [showGeneratorInstructionsEditor, setShowGeneratorInstructionsEditor] = useState(false);
   const [showCharacterModal, setShowCharacterModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showLorebooksModal, setShowLorebooksModal] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
   const [editingCharacter, setEditingCharacter] = useState<Character | null>(null);
@@ -1884,6 +4042,7 @@ export default function Chat() {
   // Form state
   const [personaName, setPersonaName] = useState("");
   const [personaDescription, setPersonaDescription] = useState("");
+  const [personaLorebookIds, setPersonaLorebookIds] = useState<string[]>([]);
   const [characterName, setCharacterName] = useState("");
   const [characterDescription, setCharacterDescription] = useState("");
   const [characterFirstMessage, setCharacterFirstMessage] = useState("");
@@ -1893,6 +4052,8 @@ export default function Chat() {
   const [characterPostHistoryInstructions, setCharacterPostHistoryInstructions] = useState("");
   const [characterMesExample, setCharacterMesExample] = useState("");
   const [characterAlternateGreetings, setCharacterAlternateGreetings] = useState<string[]>([]);
+  const [characterLorebookIds, setCharacterLorebookIds] = useState<string[]>([]);
+  const [characterBook, setCharacterBook] = useState<CharacterBook | undefined>(undefined);
   const [showGreetingSelection, setShowGreetingSelection] = useState(false);
   const [pendingConversationCharacter, setPendingConversationCharacter] = useState<Character | null>(null);
   
@@ -1930,27 +4091,18 @@ export default function Chat() {
     }
   }, [globalSettings.dingWhenUnfocused]);
   
-  // Provider configuration state
-  const [providerConfigs, setProviderConfigs] = useState<Record<LLMProviderType, ProviderConfig>>({
-    "puter": { type: "puter", isEnabled: true, profiles: [], activeProfileId: null },
-    "google-ai-studio": { type: "google-ai-studio", isEnabled: false, profiles: [], activeProfileId: null },
-    "google-vertex": { type: "google-vertex", isEnabled: false, profiles: [], activeProfileId: null },
-    "nvidia-nim": { type: "nvidia-nim", isEnabled: false, profiles: [], activeProfileId: null },
-  });
+  // Provider configuration state (one entry per registered provider)
+  const [providerConfigs, setProviderConfigs] = useState<Record<LLMProviderType, ProviderConfig>>(
+    () => createProviderRecord(getDefaultProviderConfig)
+  );
   
   // Provider-specific models (fetched from API after connection)
-  const [providerModels, setProviderModels] = useState<Record<LLMProviderType, FetchedModel[]>>({
-    "puter": [],
-    "google-ai-studio": [],
-    "google-vertex": [],
-    "nvidia-nim": [],
-  });
-  const [modelsFetching, setModelsFetching] = useState<Record<LLMProviderType, boolean>>({
-    "puter": false,
-    "google-ai-studio": false,
-    "google-vertex": false,
-    "nvidia-nim": false,
-  });
+  const [providerModels, setProviderModels] = useState<Record<LLMProviderType, FetchedModel[]>>(
+    () => createProviderRecord((): FetchedModel[] => [])
+  );
+  const [modelsFetching, setModelsFetching] = useState<Record<LLMProviderType, boolean>>(
+    () => createProviderRecord(() => false)
+  );
   
   // Active provider state - default to Google AI Studio (not Puter)
   const [activeProvider, setActiveProvider] = useState<LLMProviderType>("google-ai-studio");
@@ -1961,11 +4113,18 @@ export default function Chat() {
   // Chat state
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null); // Stops the reply being generated
   const [error, setError] = useState<string | null>(null);
   const [streamingContent, setStreamingContent] = useState<string>("");
   const [streamingThinking, setStreamingThinking] = useState<string>("");
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null); // Shown while switching to a fallback provider
+  const [generationRecords, setGenerationRecords] = useState<GenerationRecord[]>([]); // Request inspector (in memory only, newest first)
+  const [inspectedGenerationId, setInspectedGenerationId] = useState<string | null>(null);
+  const [showSummaryModal, setShowSummaryModal] = useState(false);
+  const [tokenCounter, setTokenCounter] = useState<TokenCounter>(ESTIMATE_COUNTER); // Active model's, for the context meter
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]); // Images for the next message
   
   // User state
   const [user, setUser] = useState<PuterUser | null>(null);
@@ -1989,12 +4148,12 @@ export default function Chat() {
   const [importSuccess, setImportSuccess] = useState<string | null>(null);
   
   // Connection status state for each provider
-  const [connectionStatus, setConnectionStatus] = useState<Record<LLMProviderType, ConnectionStatus>>({
-    "puter": { status: "disconnected" },
-    "google-ai-studio": { status: "disconnected" },
-    "google-vertex": { status: "disconnected" },
-    "nvidia-nim": { status: "disconnected" },
-  });
+  const [connectionStatus, setConnectionStatus] = useState<Record<LLMProviderType, ConnectionStatus>>(
+    () => createProviderRecord((): ConnectionStatus => ({ status: "disconnected" }))
+  );
+
+  // Key status of every profile (last error, rate-limit cooldown), used for key rotation
+  const [keyStatus, setKeyStatus] = useState<KeyStatusMap>({});
 
   // Profile management functions - defined early so they're available throughout the component
   const createProfile = useCallback((providerType: LLMProviderType, profileData: Omit<ProviderProfile, "id" | "createdAt">) => {
@@ -2136,25 +4295,41 @@ export default function Chat() {
   // VN segment editing state
   const [editingVnIndex, setEditingVnIndex] = useState<{segIdx: number, content: string} | null>(null);
 
-  // Load data from localStorage on mount
+  // Load data on mount: personas, characters, conversations and lorebooks from the storage backend
+  // (IndexedDB), the settings from localStorage
   useEffect(() => {
-    const storedPersonas = localStorage.getItem(PERSONAS_KEY);
-    const storedCharacters = localStorage.getItem(CHARACTERS_KEY);
-    const storedConversations = localStorage.getItem(CONVERSATIONS_KEY);
+    openStorage().then(async (backend) => {
+      // A successful save clears the last error, but not the note that the fallback storage is in use
+      const reportResult = (error: unknown) => setStorageError(error ? describeStorageError(error) : backend.warning ?? null);
+      if (backend.warning) setStorageError(backend.warning);
+      const syncs = {
+        personas: createCollectionSync<Persona>(backend, "personas", reportResult),
+        characters: createCollectionSync<Character>(backend, "characters", reportResult),
+        conversations: createCollectionSync<Conversation>(backend, "conversations", reportResult),
+        lorebooks: createCollectionSync<WorldLorebook>(backend, "lorebooks", reportResult),
+      };
+      const [storedPersonas, storedCharacters, storedConversations, storedLorebooks] = await Promise.all([
+        syncs.personas.load(),
+        syncs.characters.load(),
+        syncs.conversations.load(),
+        syncs.lorebooks.load(),
+      ]);
+      collectionSyncs.current = syncs;
+      // Records created while loading are kept (and then saved with the loaded ones)
+      setPersonas(prev => mergeLoadedRecords(storedPersonas, prev));
+      setCharacters(prev => mergeLoadedRecords(storedCharacters, prev));
+      setConversations(prev => mergeLoadedRecords(migrateBranchHistory(storedConversations), prev));
+      setLorebooks(prev => mergeLoadedRecords(storedLorebooks, prev));
+    }).catch((error) => {
+      console.error("Failed to load saved data:", error);
+      setStorageError(`Saved data could not be loaded: ${error instanceof Error ? error.message : "Unknown error"}`);
+    });
+
     const storedInstructions = localStorage.getItem(GLOBAL_INSTRUCTIONS_KEY);
     const storedSettings = localStorage.getItem(GLOBAL_SETTINGS_KEY);
     const storedActiveProvider = localStorage.getItem(ACTIVE_PROVIDER_KEY);
     const storedConnectionStatus = localStorage.getItem(CONNECTION_STATUS_KEY);
     
-    if (storedPersonas) {
-      setPersonas(JSON.parse(storedPersonas));
-    }
-    if (storedCharacters) {
-      setCharacters(JSON.parse(storedCharacters));
-    }
-    if (storedConversations) {
-      setConversations(JSON.parse(storedConversations));
-    }
     if (storedInstructions) {
       try {
         const parsed = JSON.parse(storedInstructions);
@@ -2172,19 +4347,30 @@ export default function Chat() {
       }
     }
     if (storedSettings) {
-      setGlobalSettings(JSON.parse(storedSettings));
+      // Merge with defaults to handle new fields
+      setGlobalSettings({ ...DEFAULT_GLOBAL_SETTINGS, ...JSON.parse(storedSettings) });
     }
-    if (storedActiveProvider) {
-      setActiveProvider(storedActiveProvider as LLMProviderType);
+    if (storedActiveProvider && getProviderAdapter(storedActiveProvider)) {
+      setActiveProvider(storedActiveProvider);
     }
     if (storedConnectionStatus) {
       try {
-        setConnectionStatus(JSON.parse(storedConnectionStatus));
+        setConnectionStatus(prev => ({ ...prev, ...JSON.parse(storedConnectionStatus) }));
       } catch (e) {
         console.error("Failed to parse connection status:", e);
       }
     }
     
+    // Load key status (cooldowns survive a reload)
+    const storedKeyStatus = localStorage.getItem(KEY_STATUS_KEY);
+    if (storedKeyStatus) {
+      try {
+        setKeyStatus(JSON.parse(storedKeyStatus));
+      } catch (e) {
+        console.error("Failed to parse key status:", e);
+      }
+    }
+    
     // Load auto-export settings
     const storedAutoExport = localStorage.getItem(AUTO_EXPORT_KEY);
     if (storedAutoExport) {
@@ -2230,55 +4416,87 @@ export default function Chat() {
     }
   }, []);
 
-  // Save personas to localStorage
+  // Save personas (only the records that changed are written)
   useEffect(() => {
-    if (personas.length > 0 || localStorage.getItem(PERSONAS_KEY)) {
-      localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
-    }
+    collectionSyncs.current?.personas.save(personas);
   }, [personas]);
 
-  // Save characters to localStorage
+  // Save characters
   useEffect(() => {
-    if (characters.length > 0 || localStorage.getItem(CHARACTERS_KEY)) {
-      localStorage.setItem(CHARACTERS_KEY, JSON.stringify(characters));
-    }
+    collectionSyncs.current?.characters.save(characters);
   }, [characters]);
 
-  // Save conversations to localStorage
+  // Save conversations
   useEffect(() => {
-    if (conversations.length > 0 || localStorage.getItem(CONVERSATIONS_KEY)) {
-      localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
-    }
+    collectionSyncs.current?.conversations.save(conversations);
   }, [conversations]);
 
+  // Save world lorebooks
+  useEffect(() => {
+    collectionSyncs.current?.lorebooks.save(lorebooks);
+  }, [lorebooks]);
+
+  // Settings stay in localStorage; a failed write (storage full) is shown instead of thrown
+  const saveSetting = (key: string, value: string) => {
+    const error = setLocalStorageItem(key, value);
+    if (error) setStorageError(describeStorageError(error));
+  };
+
+  // World lorebooks attached to the current chat (conversation > character > persona)
+  // Attachments are read from the stored records so edits apply without reselecting
+  const attachedLorebooks = useMemo(() => {
+    if (!selectedCharacter || !selectedPersona) return [];
+    return resolveAttachedLorebooks(lorebooks, {
+      conversation: currentConversation,
+      character: characters.find((c) => c.id === selectedCharacter.id),
+      persona: personas.find((p) => p.id === selectedPersona.id),
+    });
+  }, [lorebooks, currentConversation, characters, personas, selectedCharacter, selectedPersona]);
+
+  // Attach or detach world lorebooks for the current conversation
+  const updateConversationLorebooks = (lorebookIds: string[]) => {
+    if (!currentConversation) return;
+
+    const updated = {
+      ...currentConversation,
+      lorebookIds: lorebookIds.length > 0 ? lorebookIds : undefined,
+      updatedAt: Date.now(),
+    };
+
+    setCurrentConversation(updated);
+    setConversations((prev) =>
+      prev.map((c) => (c.id === currentConversation.id ? { ...c, lorebookIds: updated.lorebookIds, updatedAt: updated.updatedAt } : c))
+    );
+  };
+
   // Save global instructions to localStorage
   useEffect(() => {
-    localStorage.setItem(GLOBAL_INSTRUCTIONS_KEY, JSON.stringify(globalInstructions));
+    saveSetting(GLOBAL_INSTRUCTIONS_KEY, JSON.stringify(globalInstructions));
   }, [globalInstructions]);
 
   // Save global settings to localStorage
   useEffect(() => {
-    localStorage.setItem(GLOBAL_SETTINGS_KEY, JSON.stringify(globalSettings));
+    saveSetting(GLOBAL_SETTINGS_KEY, JSON.stringify(globalSettings));
   }, [globalSettings]);
   
   // Save brainstorm instructions to localStorage
   useEffect(() => {
-    localStorage.setItem(BRAINSTORM_INSTRUCTIONS_KEY, brainstormInstructions);
+    saveSetting(BRAINSTORM_INSTRUCTIONS_KEY, brainstormInstructions);
   }, [brainstormInstructions]);
   
   // Save brainstorm messages to localStorage
   useEffect(() => {
-    localStorage.setItem(BRAINSTORM_MESSAGES_KEY, JSON.stringify(brainstormMessages));
+    saveSetting(BRAINSTORM_MESSAGES_KEY, JSON.stringify(brainstormMessages));
   }, [brainstormMessages]);
   
   // Save generator instructions to localStorage
   useEffect(() => {
-    localStorage.setItem(GENERATOR_INSTRUCTIONS_KEY, generatorInstructions);
+    saveSetting(GENERATOR_INSTRUCTIONS_KEY, generatorInstructions);
   }, [generatorInstructions]);
   
   // Save generator messages to localStorage
   useEffect(() => {
-    localStorage.setItem(GENERATOR_MESSAGES_KEY, JSON.stringify(generatorMessages));
+    saveSetting(GENERATOR_MESSAGES_KEY, JSON.stringify(generatorMessages));
   }, [generatorMessages]);
   
   // Load provider configs from localStorage
@@ -2298,7 +4516,7 @@ export default function Chat() {
           if (needsMigration) {
             console.log("Migrating provider configs to new profiles system");
             configs = Object.keys(configs).reduce((acc, key) => {
-              const providerType = key as LLMProviderType;
+              const providerType = key;
               const oldConfig = configs[providerType];
               
               // Create a default profile from old single-config values
@@ -2329,19 +4547,15 @@ export default function Chat() {
             console.log("Migration completed successfully");
           }
           
-          setProviderConfigs(configs);
+          // Providers added since the configs were saved keep their defaults
+          setProviderConfigs(prev => ({ ...prev, ...configs }));
         } catch (e) {
           console.error("Failed to parse provider configs:", e);
         }
       } else {
         // Check for old per-provider storage (for users upgrading from older versions)
         const providers: LLMProviderType[] = ["google-ai-studio", "google-vertex", "nvidia-nim"];
-        const migratedConfigs: Record<LLMProviderType, ProviderConfig> = {
-          "puter": { type: "puter", isEnabled: true, profiles: [], activeProfileId: null },
-          "google-ai-studio": { type: "google-ai-studio", isEnabled: false, profiles: [], activeProfileId: null },
-          "google-vertex": { type: "google-vertex", isEnabled: false, profiles: [], activeProfileId: null },
-          "nvidia-nim": { type: "nvidia-nim", isEnabled: false, profiles: [], activeProfileId: null },
-        };
+        const migratedConfigs = createProviderRecord(getDefaultProviderConfig);
         
         providers.forEach(providerType => {
           const oldKey = getProviderConfigKey(providerType);
@@ -2385,22 +4599,27 @@ export default function Chat() {
   
   // Save provider configs to localStorage
   useEffect(() => {
-    localStorage.setItem(PROVIDER_CONFIGS_KEY, JSON.stringify(providerConfigs));
+    saveSetting(PROVIDER_CONFIGS_KEY, JSON.stringify(providerConfigs));
   }, [providerConfigs]);
 
   // Save active provider to localStorage
   useEffect(() => {
-    localStorage.setItem(ACTIVE_PROVIDER_KEY, activeProvider);
+    saveSetting(ACTIVE_PROVIDER_KEY, activeProvider);
   }, [activeProvider]);
 
   // Save connection status to localStorage
   useEffect(() => {
-    localStorage.setItem(CONNECTION_STATUS_KEY, JSON.stringify(connectionStatus));
+    saveSetting(CONNECTION_STATUS_KEY, JSON.stringify(connectionStatus));
   }, [connectionStatus]);
   
+  // Save key status to localStorage
+  useEffect(() => {
+    saveSetting(KEY_STATUS_KEY, JSON.stringify(keyStatus));
+  }, [keyStatus]);
+  
   // Save auto-export settings to localStorage
   useEffect(() => {
-    localStorage.setItem(AUTO_EXPORT_KEY, JSON.stringify(autoExport));
+    saveSetting(AUTO_EXPORT_KEY, JSON.stringify(autoExport));
   }, [autoExport]);
   
   // Auto-export timer
@@ -2512,6 +4731,12 @@ export default function Chat() {
     };
   }, []);
 
+  // Whether the selected model accepts image attachments (decides whether images can be attached)
+  const modelSupportsVision = getModelVisionSupport(
+    { ...providerConfigs[activeProvider], type: activeProvider, selectedModel: globalSettings.modelId },
+    providerModels[activeProvider]
+  );
+
   // Fetch available models from puter.ai.listModels()
   useEffect(() => {
     const fetchModels = async () => {
@@ -2608,12 +4833,14 @@ export default function Chat() {
       id: crypto.randomUUID(),
       name: personaName.trim(),
       description: personaDescription.trim(),
+      lorebookIds: personaLorebookIds.length > 0 ? personaLorebookIds : undefined,
       createdAt: Date.now(),
     };
     
     setPersonas((prev) => [...prev, newPersona]);
     setPersonaName("");
     setPersonaDescription("");
+    setPersonaLorebookIds([]);
     setShowPersonaModal(false);
   };
 
@@ -2623,13 +4850,19 @@ export default function Chat() {
     setPersonas((prev) =>
       prev.map((p) =>
         p.id === editingPersona.id
-          ? { ...p, name: personaName.trim(), description: personaDescription.trim() }
+          ? {
+              ...p,
+              name: personaName.trim(),
+              description: personaDescription.trim(),
+              lorebookIds: personaLorebookIds.length > 0 ? personaLorebookIds : undefined,
+            }
           : p
       )
     );
     setEditingPersona(null);
     setPersonaName("");
     setPersonaDescription("");
+    setPersonaLorebookIds([]);
     setShowPersonaModal(false);
   };
 
@@ -2664,6 +4897,7 @@ export default function Chat() {
     setEditingPersona(persona);
     setPersonaName(persona.name);
     setPersonaDescription(persona.description);
+    setPersonaLorebookIds(persona.lorebookIds || []);
     setShowPersonaModal(true);
   };
 
@@ -2714,6 +4948,7 @@ export default function Chat() {
       personas,
       characters,
       conversations,
+      lorebooks,
       globalSettings,
       globalInstructions,
       providerConfigs,
@@ -2754,7 +4989,12 @@ export default function Chat() {
 
       // Import conversations
       if (Array.isArray(json.conversations)) {
-        setConversations(json.conversations);
+        setConversations(migrateBranchHistory(json.conversations));
+      }
+
+      // Import world lorebooks
+      if (Array.isArray(json.lorebooks)) {
+        setLorebooks(json.lorebooks);
       }
 
       // Import global settings
@@ -2771,7 +5011,7 @@ export default function Chat() {
       if (json.providerConfigs) {
         setProviderConfigs(prev => {
           const merged = { ...prev };
-          for (const key of Object.keys(json.providerConfigs) as LLMProviderType[]) {
+          for (const key of Object.keys(json.providerConfigs)) {
             // Preserve existing API keys
             const existingApiKey = prev[key]?.apiKey;
             merged[key] = {
@@ -2784,7 +5024,7 @@ export default function Chat() {
       }
 
       // Import active provider
-      if (json.activeProvider && ["puter", "google-ai-studio", "google-vertex", "nvidia-nim"].includes(json.activeProvider)) {
+      if (json.activeProvider && ["puter", "google-ai-studio", "google-vertex", "nvidia-nim", "openai-compatible", "anthropic", "openrouter", "text-completion"].includes(json.activeProvider)) {
         setActiveProvider(json.activeProvider);
       }
 
@@ -2808,15 +5048,7 @@ export default function Chat() {
     const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
     
     // Build config from active profile
-    const profileConfig = {
-      ...config,
-      apiKey: activeProfile?.apiKey || "",
-      projectId: activeProfile?.projectId || "",
-      serviceAccountJson: activeProfile?.serviceAccountJson,
-      vertexMode: activeProfile?.vertexMode,
-      vertexLocation: activeProfile?.vertexLocation,
-      selectedModel: activeProfile?.selectedModel
-    };
+    const profileConfig = buildProfileConfig(config, activeProfile);
     
     const result = await testProviderConnection(providerType, profileConfig);
 
@@ -2910,18 +5142,10 @@ export default function Chat() {
     }
     
     // Build profile config for API calls
-    const profileConfig = {
-      ...config,
-      apiKey: activeProfile?.apiKey || "",
-      projectId: activeProfile?.projectId || "",
-      serviceAccountJson: activeProfile?.serviceAccountJson,
-      vertexMode: activeProfile?.vertexMode,
-      vertexLocation: activeProfile?.vertexLocation,
-      selectedModel: activeProfile?.selectedModel
-    };
+    const profileConfig = buildProfileConfig(config, activeProfile);
     
     // Fetch models for Vertex AI if not already fetched
-    if (providerType === "google-vertex" && models.length === 0 && activeProfile?.apiKey) {
+    if (providerType === "google-vertex" && models.length === 0 && (activeProfile?.apiKey || activeProfile?.serviceAccountJson)) {
       setModelsFetching(prev => ({ ...prev, [providerType]: true }));
       const modelsResult = await fetchModelsFromProvider(providerType, profileConfig);
       setModelsFetching(prev => ({ ...prev, [providerType]: false }));
@@ -3000,6 +5224,8 @@ export default function Chat() {
       postHistoryInstructions: characterPostHistoryInstructions.trim() || undefined,
       mesExample: characterMesExample.trim() || undefined,
       alternateGreetings: characterAlternateGreetings.length > 0 ? characterAlternateGreetings : undefined,
+      lorebookIds: characterLorebookIds.length > 0 ? characterLorebookIds : undefined,
+      characterBook: cleanCharacterBook(characterBook),
       createdAt: Date.now(),
     };
     
@@ -3012,6 +5238,8 @@ export default function Chat() {
     setCharacterSystemPrompt("");
     setCharacterPostHistoryInstructions("");
     setCharacterMesExample("");
+    setCharacterLorebookIds([]);
+    setCharacterBook(undefined);
     setShowCharacterModal(false);
   };
 
@@ -3032,6 +5260,8 @@ export default function Chat() {
               postHistoryInstructions: characterPostHistoryInstructions.trim() || undefined,
               mesExample: characterMesExample.trim() || undefined,
               alternateGreetings: characterAlternateGreetings.length > 0 ? characterAlternateGreetings : undefined,
+              lorebookIds: characterLorebookIds.length > 0 ? characterLorebookIds : undefined,
+              characterBook: cleanCharacterBook(characterBook),
             }
           : c
       )
@@ -3045,6 +5275,8 @@ export default function Chat() {
     setCharacterSystemPrompt("");
     setCharacterPostHistoryInstructions("");
     setCharacterMesExample("");
+    setCharacterLorebookIds([]);
+    setCharacterBook(undefined);
     setShowCharacterModal(false);
   };
 
@@ -3086,10 +5318,27 @@ export default function Chat() {
     setCharacterPostHistoryInstructions(character.postHistoryInstructions || "");
     setCharacterMesExample(character.mesExample || "");
     setCharacterAlternateGreetings(character.alternateGreetings || []);
+    setCharacterLorebookIds(character.lorebookIds || []);
+    setCharacterBook(character.characterBook);
     setShowCharacterModal(true);
   };
   
-  // Import character from SillyTavern JSON file
+  // Export character as a SillyTavern card (JSON or PNG with embedded card data)
+  const handleExportCharacter = async (character: Character, format: "json" | "png") => {
+    const baseName = character.name.replace(/\s+/g, "-").toLowerCase() || "character";
+    try {
+      if (format === "png") {
+        downloadBlob(await exportToPngCard(character), `${baseName}.png`);
+      } else {
+        downloadBlob(new Blob([exportToSillyTavern(character)], { type: "application/json" }), `${baseName}.json`);
+      }
+    } catch (error) {
+      setImportError(`Failed to export character: ${error instanceof Error ? error.message : "Unknown error"}`);
+      setTimeout(() => setImportError(null), 5000);
+    }
+  };
+  
+  // Import character from SillyTavern JSON or PNG card file
   const handleImportCharacter = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -3147,15 +5396,7 @@ export default function Chat() {
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       // Build messages array with conversation history
       const messages: Message[] = [
@@ -3373,15 +5614,7 @@ export default function Chat() {
         const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
         
         // Build config from active profile
-        const profileConfig = {
-          ...config,
-          apiKey: activeProfile?.apiKey || "",
-          projectId: activeProfile?.projectId || "",
-          serviceAccountJson: activeProfile?.serviceAccountJson,
-          vertexMode: activeProfile?.vertexMode,
-          vertexLocation: activeProfile?.vertexLocation,
-          selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-        };
+        const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
         
         // Build messages for resend
         const messages: Message[] = [
@@ -3474,15 +5707,7 @@ export default function Chat() {
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       let systemPrompt = generatorInstructions;
       
@@ -3602,15 +5827,7 @@ export default function Chat() {
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       let systemPrompt = brainstormInstructions;
       
@@ -3769,15 +5986,7 @@ Generate 3-5 main characters. Respond with ONLY a JSON array of characters in th
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       const messages: Message[] = [
         { role: "system", content: systemPrompt },
@@ -3888,15 +6097,7 @@ Generate 5-10 plot points that tell a complete story. Respond with ONLY a JSON a
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       const messages: Message[] = [
         { role: "system", content: systemPrompt },
@@ -4003,15 +6204,7 @@ Write an engaging story segment. If this is a good point for player interaction,
       const activeProfile = config.profiles.find(p => p.id === config.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...config,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(config, activeProfile, globalSettings.modelId);
       
       const messages: Message[] = [
         { role: "system", content: systemPrompt },
@@ -4163,7 +6356,7 @@ Write an engaging story segment. If this is a good point for player interaction,
   };
 
   const continueConversation = (conversation: Conversation) => {
-    setCurrentConversation(conversation);
+    setCurrentConversation(withBranchHistory(conversations, conversation));
     setView("chat");
   };
 
@@ -4185,7 +6378,11 @@ Write an engaging story segment. If this is a good point for player interaction,
       }, 5000);
     }
     
-    setConversations((prev) => prev.filter((c) => c.id !== id));
+    // Branches of the deleted conversation move up to its parent
+    setConversations((prev) => {
+      const remaining = prev.filter((c) => c.id !== id);
+      return deleted ? reparentBranches(remaining, deleted) : remaining;
+    });
     if (currentConversation?.id === id) {
       setCurrentConversation(null);
     }
@@ -4216,13 +6413,232 @@ Write an engaging story segment. If this is a good point for player interaction,
     setShowSettingsModal(false);
   };
 
-  // Chat functions
+  // Chat functions
+  // Roleplay replies go through the fallback chain when it is enabled, and rotate over the
+  // provider's keys when key rotation is on
+  // Each target sends images only when its own model accepts them
+  const getChatTargets = (profileConfig: ProviderConfig): ChatTarget[] =>
+    resolveChatTargets(profileConfig, globalSettings.enableFallback ? globalSettings.fallbackChain : [], providerConfigs, keyStatus)
+      .map(target => ({ ...target, sendImages: getModelVisionSupport(target.config, providerModels[target.config.type]) }));
+
+  const fallbackEvents = {
+    onFallback: setFallbackNotice,
+    onResult: (target: ChatTarget, result: { error?: string; status?: number }) => {
+      const profileId = target.profileId;
+      if (!profileId) return;
+      setKeyStatus(prev => ({ ...prev, [profileId]: recordKeyResult(prev[profileId], result, Date.now()) }));
+    },
+  };
+
+  const streamReply = (messages: Message[], profileConfig: ProviderConfig, options: ChatOptions, onChunk: FallbackStreamCallback) =>
+    streamChatWithFallback(messages, getChatTargets(profileConfig), options, onChunk, fallbackEvents);
+
+  const sendReply = (messages: Message[], profileConfig: ProviderConfig, options: ChatOptions) =>
+    sendChatWithFallback(messages, getChatTargets(profileConfig), options, fallbackEvents);
+
+  // Build the prompt of a roleplay reply within the context budget (tokens counted with the model's
+  // tokenizer or the provider's endpoint) and start its request inspector record; pass the
+  // inspector's observer in the chat options
+  // Summaries are written by the model chosen in the settings, or the active one
+  const getSummaryConfig = (activeConfig: ProviderConfig): ProviderConfig => {
+    const summaryModel = globalSettings.summaryModel;
+    const config = summaryModel && providerConfigs[summaryModel.provider];
+    if (!summaryModel || !config) return activeConfig;
+    const profile = config.profiles.find(p => p.id === summaryModel.profileId);
+    return buildProfileConfig({ ...config, activeProfileId: summaryModel.profileId }, profile, summaryModel.modelId);
+  };
+
+  const updateConversationSummary = (conversationId: string, summary: ConversationSummary | undefined) => {
+    const withSummary = (c: Conversation): Conversation => ({ ...c, summary, updatedAt: Date.now() });
+    setCurrentConversation(prev => (prev?.id === conversationId ? withSummary(prev) : prev));
+    setConversations(prev => prev.map(c => (c.id === conversationId ? withSummary(c) : c)));
+  };
+
+  // Fold the oldest messages into the story summary when the unsummarized history is about to
+  // outgrow its share of the context. A failed update is reported and the reply goes ahead with
+  // the previous summary.
+  const updateStorySummary = async (
+    conversation: Conversation,
+    messages: Message[],
+    sections: PromptSection[],
+    names: { characterName: string; personaName: string },
+    profileConfig: ProviderConfig,
+    counter: TokenCounter,
+    signal: AbortSignal
+  ): Promise<ConversationSummary | undefined> => {
+    const summary = conversation.summary;
+    const coveredCount = summary?.coveredCount ?? 0;
+    const historyBudget = globalSettings.maxContextTokens - globalSettings.replyReserveTokens -
+      sections.reduce((total, section) => total + counter.count(section.text), 0);
+    const coverage = getSummaryCoverage(messages, coveredCount, historyBudget, counter);
+    if (coverage <= coveredCount) return summary;
+
+    setFallbackNotice("Updating the story summary...");
+    const summaryConfig = getSummaryConfig(profileConfig);
+    const result = await summarizeMessages(
+      summaryConfig,
+      summary?.text || "",
+      messages.slice(coveredCount, coverage),
+      names,
+      await getTokenCounter(summaryConfig),
+      signal
+    );
+    setFallbackNotice(null);
+    if ("error" in result) {
+      if (!signal.aborted) setError(`Story summary not updated: ${result.error}`);
+      return summary;
+    }
+
+    const updated = { text: result.summary, coveredCount: coverage, updatedAt: Date.now() };
+    updateConversationSummary(conversation.id, updated);
+    return updated;
+  };
+
+  // Rewrite the story summary from scratch over the messages it covers (without a summary, all
+  // but the latest messages)
+  const handleRegenerateSummary = async (): Promise<{ summary: string } | { error: string }> => {
+    if (!currentConversation || !selectedCharacter || !selectedPersona) return { error: "No chat is open" };
+    const conversation = currentConversation;
+    const coveredCount = conversation.summary?.coveredCount || Math.max(0, conversation.messages.length - KEEP_RECENT_MESSAGES);
+    if (coveredCount === 0) return { error: "There are no older messages to summarize yet" };
+
+    const currentConfig = providerConfigs[activeProvider];
+    const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
+    const summaryConfig = getSummaryConfig(buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId));
+    const result = await summarizeMessages(
+      summaryConfig,
+      "",
+      conversation.messages.slice(0, coveredCount),
+      { characterName: selectedCharacter.name, personaName: selectedPersona.name },
+      await getTokenCounter(summaryConfig)
+    );
+    if ("summary" in result) {
+      updateConversationSummary(conversation.id, { text: result.summary, coveredCount, updatedAt: Date.now() });
+    }
+    return result;
+  };
+
+  // Manual edits keep the covered messages; an empty summary removes it
+  const handleSaveSummary = (text: string) => {
+    if (!currentConversation) return;
+    updateConversationSummary(
+      currentConversation.id,
+      text.trim()
+        ? { text: text.trim(), coveredCount: currentConversation.summary?.coveredCount ?? 0, updatedAt: Date.now() }
+        : undefined
+    );
+    setShowSummaryModal(false);
+  };
+
+  // Embeddings for memory recall: the provider model chosen in the settings, or the local model
+  const getMemoryEmbeddingSource = (): EmbeddingSource => {
+    const model = globalSettings.memoryEmbeddingModel;
+    const config = model && providerConfigs[model.provider];
+    if (!model || !config) return LOCAL_EMBEDDING_SOURCE;
+    if (!model.modelId) throw new Error("Choose an embedding model in the settings");
+    const profile = config.profiles.find(p => p.id === model.profileId);
+    const source = getProviderEmbeddingSource(buildProfileConfig({ ...config, activeProfileId: model.profileId }, profile, model.modelId));
+    if (!source) throw new Error(`${getProviderAdapter(model.provider)?.provider.name || model.provider} has no embedding endpoint`);
+    return source;
+  };
+
+  // Earlier messages related to the latest user message (those of the chat that were left out of the
+  // prompt, and optionally the character's other chats), as the text of the memory section. A failed
+  // recall is reported and the reply goes ahead without memories.
+  const getRecalledMemories = async (
+    conversation: Conversation,
+    character: Character,
+    persona: Persona,
+    messages: Message[],
+    outOfContext: Set<number>,
+    signal: AbortSignal
+  ): Promise<string | undefined> => {
+    const query = messages.findLast(m => m.role === "user" && !m.isContinue)?.content.trim();
+    if (!query) return undefined;
+    try {
+      const memories = await recallMemories({
+        source: getMemoryEmbeddingSource(),
+        characterId: character.id,
+        conversation: { id: conversation.id, messages },
+        otherConversations: conversations
+          .filter(c => c.characterId === character.id && c.id !== conversation.id)
+          .map(c => withBranchHistory(conversations, c)),
+        acrossChats: globalSettings.memoryAcrossChats,
+        query,
+        outOfContext,
+        topK: globalSettings.memoryTopK,
+        signal,
+      });
+      if (memories.length === 0) return undefined;
+      return formatMemories(memories, { characterName: character.name, personaName: persona.name }, conversation.id);
+    } catch (error) {
+      if (!signal.aborted) setError(`Memory recall failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return undefined;
+    }
+  };
+
+  const buildContext = async (
+    kind: GenerationRecord["kind"],
+    character: Character,
+    persona: Persona,
+    conversation: Conversation,
+    messages: Message[],
+    profileConfig: ProviderConfig,
+    signal: AbortSignal
+  ) => {
+    // Scanned once: the same activated entries go into the system prompt and the at_depth insertions
+    const lorebook = scanCharacterLorebooks(character, persona.name, messages, attachedLorebooks);
+    const buildSections = (summary?: ConversationSummary, memories?: string) =>
+      buildSystemPromptSections(character, persona.name, persona.description, lorebook, globalInstructions, summary?.text, memories);
+    let summary = conversation.summary;
+    let sections = buildSections(summary);
+    const contextMessages = insertLorebookDepthEntries(messages, lorebook.depthInsertions);
+    const counter = await getTokenCounter(profileConfig);
+    await prepareTokenCounts(counter, sections.map(section => section.text), contextMessages, signal);
+
+    if (globalSettings.enableSummary) {
+      const names = { characterName: character.name, personaName: persona.name };
+      const updated = await updateStorySummary(conversation, messages, sections, names, profileConfig, counter, signal);
+      if (updated !== summary) {
+        summary = updated;
+        sections = buildSections(summary);
+        await prepareTokenCounts(counter, sections.map(section => section.text), [], signal);
+      }
+    }
+
+    const fit = () => fitToContext(sections, contextMessages, {
+      maxContextTokens: globalSettings.maxContextTokens,
+      reserveTokens: globalSettings.replyReserveTokens,
+      dropOrder: globalSettings.contextDropOrder,
+      tokenCounter: counter,
+      summarizedCount: summary?.coveredCount,
+    });
+    let fitted = fit();
+
+    // Memories are recalled from the messages that didn't fit, then the prompt is fitted again with them
+    if (globalSettings.enableMemory) {
+      const outOfContext = new Set(fitted.contextMap.cutMessages.map(m => m.index));
+      const memories = await getRecalledMemories(conversation, character, persona, messages, outOfContext, signal);
+      if (memories) {
+        sections = buildSections(summary, memories);
+        await prepareTokenCounts(counter, sections.map(section => section.text), [], signal);
+        fitted = fit();
+      }
+    }
+
+    const { systemPrompt, messages: truncatedMessages, contextMap } = fitted;
+    const inspector = createGenerationRecorder({ kind, systemPrompt, messages: truncatedMessages, contextMap }, (record) =>
+      setGenerationRecords(prev => [record, ...prev.filter(r => r.id !== record.id)].slice(0, MAX_GENERATION_RECORDS))
+    );
+    return { systemPrompt, truncatedMessages, inspector };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isLoading || !currentConversation || !selectedPersona || !selectedCharacter) return;
 
-    // If input is empty, resend the last user message
-    if (!input.trim()) {
+    // If input is empty (and no images are attached), resend the last user message
+    if (!input.trim() && pendingAttachments.length === 0) {
       // Find the last user message
       const lastUserMessageIndex = currentConversation.messages.findLastIndex(m => m.role === "user");
       if (lastUserMessageIndex === -1) return; // No user message to resend
@@ -4233,19 +6649,23 @@ Write an engaging story segment. If this is a good point for player interaction,
     }
 
     const userMessage = input.trim();
+    const attachments = pendingAttachments;
     setInput("");
+    setPendingAttachments([]);
     setError(null);
 
     // Add user message to conversation
     const updatedMessages: Message[] = [
       ...currentConversation.messages,
-      { role: "user", content: userMessage },
+      { role: "user", content: userMessage, ...(attachments.length > 0 ? { attachments } : {}) },
     ];
 
     updateConversationMessages(updatedMessages);
     setIsLoading(true);
     setStreamingContent("");
     setStreamingThinking("");
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       // Get current provider config
@@ -4253,37 +6673,23 @@ Write an engaging story segment. If this is a good point for player interaction,
       const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
       
       // Build config from active profile
-      const profileConfig = {
-        ...currentConfig,
-        apiKey: activeProfile?.apiKey || "",
-        projectId: activeProfile?.projectId || "",
-        serviceAccountJson: activeProfile?.serviceAccountJson,
-        vertexMode: activeProfile?.vertexMode,
-        vertexLocation: activeProfile?.vertexLocation,
-        selectedModel: globalSettings.modelId || activeProfile?.selectedModel
-      };
+      const profileConfig = buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId);
       
-      // Build system prompt with lorebook support
-      const systemPrompt = buildFullSystemPrompt(
+      // Build the prompt within the context budget
+      const { systemPrompt, truncatedMessages, inspector } = await buildContext(
+        "reply",
         selectedCharacter,
-        selectedPersona.name,
-        selectedPersona.description,
-        updatedMessages,
-        globalInstructions
-      );
-      
-      // Estimate system prompt tokens and truncate messages if needed
-      const systemPromptTokens = estimateTokens(systemPrompt);
-      const truncatedMessages = truncateMessagesToContext(
+        selectedPersona,
+        currentConversation,
         updatedMessages,
-        globalSettings.maxContextTokens,
-        systemPromptTokens
+        profileConfig,
+        abortController.signal
       );
 
       // Use streaming or non-streaming based on settings
       if (globalSettings.enableStreaming) {
         // Streaming mode for real-time responses
-        await streamChatMessage(
+        await streamReply(
           truncatedMessages,
           profileConfig,
           {
@@ -4294,6 +6700,8 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           },
           (chunk) => {
             if (chunk.error) {
@@ -4310,11 +6718,14 @@ Write an engaging story segment. If this is a good point for player interaction,
             }
             
             if (chunk.done) {
-              const finalMessages: Message[] = [
-                ...updatedMessages,
-                { role: "assistant", content: chunk.content || "", thinking: chunk.thinking },
-              ];
-              updateConversationMessages(finalMessages);
+              // A reply stopped before any text arrived is dropped; partial text is kept
+              if (!chunk.aborted || chunk.content || chunk.thinking) {
+                const finalMessages: Message[] = [
+                  ...updatedMessages,
+                  { role: "assistant", content: chunk.content || "", thinking: chunk.thinking, servedBy: chunk.servedBy, generationId: inspector.id },
+                ];
+                updateConversationMessages(finalMessages);
+              }
               setStreamingContent("");
               setStreamingThinking("");
             }
@@ -4322,9 +6733,9 @@ Write an engaging story segment. If this is a good point for player interaction,
         );
       } else {
         // Non-streaming mode for stable responses
-        const response = await sendChatMessage(
+        const response = await sendReply(
           truncatedMessages,
-          { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+          profileConfig,
           {
             temperature: globalSettings.temperature,
             maxTokens: globalSettings.maxTokens,
@@ -4333,15 +6744,17 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           }
         );
         
         if (response.error) {
           setError(response.error);
-        } else {
+        } else if (!response.aborted) {
           const finalMessages: Message[] = [
             ...updatedMessages,
-            { role: "assistant", content: response.content || "", thinking: response.thinking },
+            { role: "assistant", content: response.content || "", thinking: response.thinking, servedBy: response.servedBy, generationId: inspector.id },
           ];
           updateConversationMessages(finalMessages);
         }
@@ -4350,24 +6763,34 @@ Write an engaging story segment. If this is a good point for player interaction,
       console.error("Chat error:", err);
       setError(err instanceof Error ? err.message : "An error occurred. Please try again.");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setFallbackNotice(null);
       playNotificationSound();
       inputRef.current?.focus();
     }
   };
 
-  const updateConversationMessages = (messages: Message[]) => {
-    if (!currentConversation) return;
-    
-    const updated = {
-      ...currentConversation,
-      messages,
-      updatedAt: Date.now(),
-    };
+  // removedIndexes: positions of the messages the update deletes (by default, any past the new end)
+  const updateConversationMessages = (
+    messages: Message[],
+    target: Conversation | null = currentConversation,
+    removedIndexes?: number[]
+  ) => {
+    if (!target) return;
     
-    setCurrentConversation(updated);
+    const updatedAt = Date.now();
+    // The story summary no longer counts removed messages it covered
+    const removed = removedIndexes ??
+      Array.from({ length: Math.max(0, target.messages.length - messages.length) }, (_, i) => messages.length + i);
+    const withSummary = (c: Conversation): Conversation =>
+      removed.length > 0 ? { ...c, summary: removeFromSummary(c.summary, removed) } : c;
+    // Applied to the latest version of the conversation (its story summary may have been updated
+    // while the reply was generated)
+    setCurrentConversation((prev) => ({ ...withSummary(prev?.id === target.id ? prev : target), messages, updatedAt }));
+    // Stored split into the history shared with the parent branches and the conversation's own messages
     setConversations((prev) =>
-      prev.map((c) => (c.id === currentConversation.id ? updated : c))
+      setBranchMessages(prev, target.id, messages, updatedAt).map(c => (c.id === target.id ? withSummary(c) : c))
     );
   };
 
@@ -4378,54 +6801,88 @@ Write an engaging story segment. If this is a good point for player interaction,
     }
   };
 
+  // Attach pasted or dropped images to the next message
+  const handleAddAttachments = async (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith("image/"));
+    if (images.length === 0) return;
+    if (!modelSupportsVision) {
+      setError("The selected model doesn't accept images. Choose a vision model to attach images.");
+      return;
+    }
+
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (images.length > room) {
+      setError(`Up to ${MAX_ATTACHMENTS} images can be attached to a message.`);
+      if (room <= 0) return;
+    }
+
+    try {
+      const attachments = await Promise.all(images.slice(0, room).map(readImageAttachment));
+      setPendingAttachments(prev => [...prev, ...attachments].slice(0, MAX_ATTACHMENTS));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to attach image");
+    }
+  };
+
   // Retry the last message (resend to AI)
   const handleRetry = async () => {
     if (isLoading || !currentConversation || !selectedPersona || !selectedCharacter) return;
     
-    // Find the last user message
-    const lastUserMessageIndex = currentConversation.messages.findLastIndex(m => m.role === "user");
+    // Find the last user message (continue instructions belong to the reply before them)
+    const lastUserMessageIndex = currentConversation.messages.findLastIndex(m => m.role === "user" && !m.isContinue);
     if (lastUserMessageIndex === -1) return;
     
-    const lastUserMessage = currentConversation.messages[lastUserMessageIndex];
+    // The reply being regenerated keeps its current version as a swipe
+    const previousReply = currentConversation.messages
+      .slice(lastUserMessageIndex + 1)
+      .find(m => m.role === "assistant");
     
-    // Remove all messages after the last user message (including any failed AI response)
+    // Generate from the messages up to the last user message
     const messagesBeforeRetry = currentConversation.messages.slice(0, lastUserMessageIndex + 1);
+    const withNewSwipe = (swipe: MessageSwipe): Message[] => [
+      ...messagesBeforeRetry,
+      previousReply ? addSwipe(previousReply, swipe) : { role: "assistant", ...swipe },
+    ];
+    // Put the previous reply back if generating the new swipe fails
+    const restorePreviousReply = () => {
+      if (previousReply) updateConversationMessages([...messagesBeforeRetry, previousReply]);
+    };
     
     setError(null);
     setIsLoading(true);
     setStreamingContent("");
     setStreamingThinking("");
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
-    // Update conversation to show only messages up to last user message
+    // Hide the previous reply while the new swipe is generated
     updateConversationMessages(messagesBeforeRetry);
 
     try {
       // Get current provider config
       const currentConfig = providerConfigs[activeProvider];
+      const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
       
-      // Build system prompt with lorebook support
-      const systemPrompt = buildFullSystemPrompt(
-        selectedCharacter,
-        selectedPersona.name,
-        selectedPersona.description,
-        messagesBeforeRetry,
-        globalInstructions
-      );
+      // Build config from active profile
+      const profileConfig = buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId);
       
-      // Estimate system prompt tokens and truncate messages if needed
-      const systemPromptTokens = estimateTokens(systemPrompt);
-      const truncatedMessages = truncateMessagesToContext(
+      // Build the prompt within the context budget
+      const { systemPrompt, truncatedMessages, inspector } = await buildContext(
+        "retry",
+        selectedCharacter,
+        selectedPersona,
+        currentConversation,
         messagesBeforeRetry,
-        globalSettings.maxContextTokens,
-        systemPromptTokens
+        profileConfig,
+        abortController.signal
       );
 
       // Use streaming or non-streaming based on settings
       if (globalSettings.enableStreaming) {
         // Streaming mode for real-time responses
-        await streamChatMessage(
+        await streamReply(
           truncatedMessages,
-          { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+          profileConfig,
           {
             temperature: globalSettings.temperature,
             maxTokens: globalSettings.maxTokens,
@@ -4434,10 +6891,13 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           },
           (chunk) => {
             if (chunk.error) {
               setError(chunk.error);
+              restorePreviousReply();
               return;
             }
             
@@ -4450,11 +6910,11 @@ Write an engaging story segment. If this is a good point for player interaction,
             }
             
             if (chunk.done) {
-              const finalMessages: Message[] = [
-                ...messagesBeforeRetry,
-                { role: "assistant", content: chunk.content || "", thinking: chunk.thinking },
-              ];
-              updateConversationMessages(finalMessages);
+              if (chunk.aborted && !chunk.content && !chunk.thinking) {
+                restorePreviousReply();
+              } else {
+                updateConversationMessages(withNewSwipe({ content: chunk.content || "", thinking: chunk.thinking, servedBy: chunk.servedBy, generationId: inspector.id }));
+              }
               setStreamingContent("");
               setStreamingThinking("");
             }
@@ -4462,9 +6922,9 @@ Write an engaging story segment. If this is a good point for player interaction,
         );
       } else {
         // Non-streaming mode for stable responses
-        const response = await sendChatMessage(
+        const response = await sendReply(
           truncatedMessages,
-          { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+          profileConfig,
           {
             temperature: globalSettings.temperature,
             maxTokens: globalSettings.maxTokens,
@@ -4473,29 +6933,38 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           }
         );
         
         if (response.error) {
           setError(response.error);
+          restorePreviousReply();
+        } else if (response.aborted) {
+          restorePreviousReply();
         } else {
-          const finalMessages: Message[] = [
-            ...messagesBeforeRetry,
-            { role: "assistant", content: response.content || "", thinking: response.thinking },
-          ];
-          updateConversationMessages(finalMessages);
+          updateConversationMessages(withNewSwipe({ content: response.content || "", thinking: response.thinking, servedBy: response.servedBy, generationId: inspector.id }));
         }
       }
     } catch (err) {
       console.error("Retry error:", err);
       setError(err instanceof Error ? err.message : "An error occurred. Please try again.");
+      restorePreviousReply();
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setFallbackNotice(null);
       playNotificationSound();
       inputRef.current?.focus();
     }
   };
 
+  // Stop the reply being generated (streamed text received so far is kept)
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Continue the last AI response (for incomplete responses)
   const handleContinue = async () => {
     if (isLoading || !currentConversation || !selectedPersona || !selectedCharacter) return;
@@ -4517,6 +6986,8 @@ Write an engaging story segment. If this is a good point for player interaction,
     setIsLoading(true);
     setStreamingContent("");
     setStreamingThinking("");
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     // Update conversation with the continue message
     updateConversationMessages(messagesWithContinue);
@@ -4524,30 +6995,28 @@ Write an engaging story segment. If this is a good point for player interaction,
     try {
       // Get current provider config
       const currentConfig = providerConfigs[activeProvider];
+      const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
       
-      // Build system prompt with lorebook support
-      const systemPrompt = buildFullSystemPrompt(
-        selectedCharacter,
-        selectedPersona.name,
-        selectedPersona.description,
-        messagesWithContinue,
-        globalInstructions
-      );
+      // Build config from active profile
+      const profileConfig = buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId);
       
-      // Estimate system prompt tokens and truncate messages if needed
-      const systemPromptTokens = estimateTokens(systemPrompt);
-      const truncatedMessages = truncateMessagesToContext(
+      // Build the prompt within the context budget
+      const { systemPrompt, truncatedMessages, inspector } = await buildContext(
+        "continue",
+        selectedCharacter,
+        selectedPersona,
+        currentConversation,
         messagesWithContinue,
-        globalSettings.maxContextTokens,
-        systemPromptTokens
+        profileConfig,
+        abortController.signal
       );
 
       // Use streaming or non-streaming based on settings
       if (globalSettings.enableStreaming) {
         // Streaming mode for real-time responses
-        await streamChatMessage(
+        await streamReply(
           truncatedMessages,
-          { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+          profileConfig,
           {
             temperature: globalSettings.temperature,
             maxTokens: globalSettings.maxTokens,
@@ -4556,6 +7025,8 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           },
           (chunk) => {
             if (chunk.error) {
@@ -4580,11 +7051,13 @@ Write an engaging story segment. If this is a good point for player interaction,
                 existingMessages[lastAssistantIdx] = {
                   ...existingMessages[lastAssistantIdx],
                   content: existingMessages[lastAssistantIdx].content + (chunk.content || ''),
-                  thinking: chunk.thinking || existingMessages[lastAssistantIdx].thinking
+                  thinking: chunk.thinking || existingMessages[lastAssistantIdx].thinking,
+                  servedBy: chunk.servedBy || existingMessages[lastAssistantIdx].servedBy,
+                  generationId: inspector.id
                 };
               } else {
                 // Fallback: add new message if no existing assistant message
-                existingMessages.push({ role: 'assistant', content: chunk.content || '', thinking: chunk.thinking });
+                existingMessages.push({ role: 'assistant', content: chunk.content || '', thinking: chunk.thinking, servedBy: chunk.servedBy, generationId: inspector.id });
               }
               updateConversationMessages(existingMessages);
               setStreamingContent("");
@@ -4594,9 +7067,9 @@ Write an engaging story segment. If this is a good point for player interaction,
         );
       } else {
         // Non-streaming mode for stable responses
-        const response = await sendChatMessage(
+        const response = await sendReply(
           truncatedMessages,
-          { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+          profileConfig,
           {
             temperature: globalSettings.temperature,
             maxTokens: globalSettings.maxTokens,
@@ -4605,12 +7078,14 @@ Write an engaging story segment. If this is a good point for player interaction,
             systemPrompt,
             enableThinking: globalSettings.enableThinking,
             thinkingLevel: globalSettings.thinkingLevel,
+            observer: inspector.observer,
+            signal: abortController.signal,
           }
         );
         
         if (response.error) {
           setError(response.error);
-        } else {
+        } else if (!response.aborted) {
           // Append to existing assistant message instead of creating new one
           const existingMessages = [...messagesWithContinue];
           const lastAssistantIdx = existingMessages.findLastIndex(m => m.role === 'assistant');
@@ -4619,11 +7094,13 @@ Write an engaging story segment. If this is a good point for player interaction,
             existingMessages[lastAssistantIdx] = {
               ...existingMessages[lastAssistantIdx],
               content: existingMessages[lastAssistantIdx].content + (response.content || ''),
-              thinking: response.thinking || existingMessages[lastAssistantIdx].thinking
+              thinking: response.thinking || existingMessages[lastAssistantIdx].thinking,
+              servedBy: response.servedBy || existingMessages[lastAssistantIdx].servedBy,
+              generationId: inspector.id
             };
           } else {
             // Fallback: add new message if no existing assistant message
-            existingMessages.push({ role: 'assistant', content: response.content || '', thinking: response.thinking });
+            existingMessages.push({ role: 'assistant', content: response.content || '', thinking: response.thinking, servedBy: response.servedBy, generationId: inspector.id });
           }
           updateConversationMessages(existingMessages);
         }
@@ -4632,21 +7109,65 @@ Write an engaging story segment. If this is a good point for player interaction,
       console.error("Continue error:", err);
       setError(err instanceof Error ? err.message : "An error occurred. Please try again.");
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setFallbackNotice(null);
       playNotificationSound();
       inputRef.current?.focus();
     }
   };
 
+  // Fork the conversation after a message and switch to the new branch
+  const handleBranchFromMessage = (index: number) => {
+    if (isLoading || !currentConversation) return;
+    
+    const branch = createBranch(currentConversation, index + 1);
+    setConversations((prev) => [...prev, branch]);
+    setCurrentConversation({ ...branch, messages: currentConversation.messages.slice(0, index + 1) });
+  };
+
+  // Page through the alternative replies (swipes) of an assistant message
+  // Swiping right past the last alternative of the latest reply generates a new one
+  const handleSwipe = (index: number, direction: -1 | 1) => {
+    if (isLoading || !currentConversation) return;
+    
+    const message = currentConversation.messages[index];
+    if (!message || message.role !== "assistant") return;
+    
+    const target = getSwipeIndex(message) + direction;
+    if (target >= getSwipes(message).length) {
+      const isLatestReply = currentConversation.messages
+        .slice(index + 1)
+        .every(m => m.role === "user" && m.isContinue);
+      if (isLatestReply) handleRetry();
+      return;
+    }
+    if (target < 0) return;
+    
+    const updatedMessages = [...currentConversation.messages];
+    updatedMessages[index] = selectSwipe(message, target);
+    updateConversationMessages(updatedMessages);
+  };
+
   // Delete a message from the conversation
   const handleDeleteMessage = (index: number) => {
     if (!currentConversation) return;
     
     const updatedMessages = currentConversation.messages.filter((_, i) => i !== index);
-    updateConversationMessages(updatedMessages);
+    updateConversationMessages(updatedMessages, currentConversation, [index]);
     setShowMessageMenu(null);
   };
 
+  // Pin or unpin a message (pinned messages are never truncated from the context)
+  const handleTogglePin = (index: number) => {
+    if (!currentConversation) return;
+
+    const updatedMessages = currentConversation.messages.map((m, i) =>
+      i === index ? { ...m, pinned: !m.pinned || undefined } : m
+    );
+    updateConversationMessages(updatedMessages);
+  };
+
   // Start editing a message
   const handleStartEditMessage = (index: number) => {
     if (!currentConversation) return;
@@ -4674,9 +7195,19 @@ Write an engaging story segment. If this is a good point for player interaction,
     
     // If editing a user message, we need to regenerate the AI response
     if (message.role === "user") {
-      // Remove all messages after this one
+      // Later messages (and other branches sharing the message) are kept: the edit continues in a new
+      // branch forked at this message
+      const forkBranch = index < currentConversation.messages.length - 1 ||
+        isSharedMessage(conversations, currentConversation.id, index);
+      const targetConversation = forkBranch
+        ? createBranch(currentConversation, index, [updatedMessages[index]])
+        : currentConversation;
+      if (forkBranch) {
+        setConversations((prev) => [...prev, targetConversation]);
+      }
+      
       const messagesAfterEdit = updatedMessages.slice(0, index + 1);
-      updateConversationMessages(messagesAfterEdit);
+      updateConversationMessages(messagesAfterEdit, targetConversation);
       
       setEditingMessageIndex(null);
       setEditingMessageContent("");
@@ -4686,30 +7217,32 @@ Write an engaging story segment. If this is a good point for player interaction,
       setIsLoading(true);
       setStreamingContent("");
       setStreamingThinking("");
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
       
       try {
         const currentConfig = providerConfigs[activeProvider];
+        const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
         
-        const systemPrompt = buildFullSystemPrompt(
-          selectedCharacter,
-          selectedPersona.name,
-          selectedPersona.description,
-          messagesAfterEdit,
-          globalInstructions
-        );
+        // Build config from active profile
+        const profileConfig = buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId);
         
-        const systemPromptTokens = estimateTokens(systemPrompt);
-        const truncatedMessages = truncateMessagesToContext(
+        // Build the prompt within the context budget
+        const { systemPrompt, truncatedMessages, inspector } = await buildContext(
+          "regenerate",
+          selectedCharacter,
+          selectedPersona,
+          targetConversation,
           messagesAfterEdit,
-          globalSettings.maxContextTokens,
-          systemPromptTokens
+          profileConfig,
+          abortController.signal
         );
 
         // Use streaming or non-streaming based on settings
         if (globalSettings.enableStreaming) {
-          await streamChatMessage(
+          await streamReply(
             truncatedMessages,
-            { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+            profileConfig,
             {
               temperature: globalSettings.temperature,
               maxTokens: globalSettings.maxTokens,
@@ -4718,6 +7251,8 @@ Write an engaging story segment. If this is a good point for player interaction,
               systemPrompt,
               enableThinking: globalSettings.enableThinking,
               thinkingLevel: globalSettings.thinkingLevel,
+                observer: inspector.observer,
+              signal: abortController.signal,
             },
             (chunk) => {
               if (chunk.error) {
@@ -4734,20 +7269,22 @@ Write an engaging story segment. If this is a good point for player interaction,
               }
               
               if (chunk.done) {
-                const finalMessages: Message[] = [
-                  ...messagesAfterEdit,
-                  { role: "assistant", content: chunk.content || "", thinking: chunk.thinking },
-                ];
-                updateConversationMessages(finalMessages);
+                if (!chunk.aborted || chunk.content || chunk.thinking) {
+                  const finalMessages: Message[] = [
+                    ...messagesAfterEdit,
+                    { role: "assistant", content: chunk.content || "", thinking: chunk.thinking, servedBy: chunk.servedBy, generationId: inspector.id },
+                  ];
+                  updateConversationMessages(finalMessages, targetConversation);
+                }
                 setStreamingContent("");
                 setStreamingThinking("");
               }
             }
           );
         } else {
-          const response = await sendChatMessage(
+          const response = await sendReply(
             truncatedMessages,
-            { ...currentConfig, selectedModel: globalSettings.modelId || currentConfig.selectedModel },
+            profileConfig,
             {
               temperature: globalSettings.temperature,
               maxTokens: globalSettings.maxTokens,
@@ -4756,24 +7293,28 @@ Write an engaging story segment. If this is a good point for player interaction,
               systemPrompt,
               enableThinking: globalSettings.enableThinking,
               thinkingLevel: globalSettings.thinkingLevel,
+                observer: inspector.observer,
+              signal: abortController.signal,
             }
           );
           
           if (response.error) {
             setError(response.error);
-          } else {
+          } else if (!response.aborted) {
             const finalMessages: Message[] = [
               ...messagesAfterEdit,
-              { role: "assistant", content: response.content || "", thinking: response.thinking },
+              { role: "assistant", content: response.content || "", thinking: response.thinking, servedBy: response.servedBy, generationId: inspector.id },
             ];
-            updateConversationMessages(finalMessages);
+            updateConversationMessages(finalMessages, targetConversation);
           }
         }
       } catch (err) {
         console.error("Edit regenerate error:", err);
         setError(err instanceof Error ? err.message : "An error occurred. Please try again.");
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
+        setFallbackNotice(null);
         playNotificationSound();
         inputRef.current?.focus();
       }
@@ -4809,29 +7350,60 @@ Write an engaging story segment. If this is a good point for player interaction,
     (c) => c.personaId === selectedPersona?.id && c.characterId === selectedCharacter?.id
   );
   
-  // Calculate total context tokens for current conversation
-  const contextTokens = useMemo(() => {
+  // Branches related to the open conversation (same branch tree), for the branch switcher
+  const branchFamily = useMemo(() => {
+    if (!currentConversation) return [];
+    return getBranchFamily(conversations, currentConversation);
+  }, [conversations, currentConversation]);
+
+  // System prompt and messages of the open chat as they would be sent (before truncation)
+  const contextPrompt = useMemo(() => {
     if (view !== "chat" || !currentConversation || !selectedCharacter || !selectedPersona) {
-      return 0;
+      return null;
     }
-    
-    // Calculate system prompt tokens
-    const systemPrompt = buildFullSystemPrompt(
-      selectedCharacter,
-      selectedPersona.name,
-      selectedPersona.description,
-      currentConversation.messages,
-      globalInstructions
-    );
-    const systemTokens = estimateTokens(systemPrompt);
-    
-    // Calculate message tokens
-    const messageTokens = currentConversation.messages.reduce((total, msg) => {
-      return total + estimateTokens(msg.content) + (msg.thinking ? estimateTokens(msg.thinking) : 0);
-    }, 0);
-    
-    return systemTokens + messageTokens;
-  }, [view, currentConversation, selectedCharacter, selectedPersona, globalInstructions]);
+    const lorebook = scanCharacterLorebooks(selectedCharacter, selectedPersona.name, currentConversation.messages, attachedLorebooks);
+    return {
+      sections: buildSystemPromptSections(
+        selectedCharacter,
+        selectedPersona.name,
+        selectedPersona.description,
+        lorebook,
+        globalInstructions,
+        currentConversation.summary?.text
+      ),
+      messages: insertLorebookDepthEntries(currentConversation.messages, lorebook.depthInsertions),
+    };
+  }, [view, currentConversation, selectedCharacter, selectedPersona, globalInstructions, attachedLorebooks]);
+
+  // Load the active model's tokenizer for the context meter (and fetch counts from the provider's
+  // endpoint once the conversation has settled)
+  useEffect(() => {
+    if (!contextPrompt) return;
+    const currentConfig = providerConfigs[activeProvider];
+    const activeProfile = currentConfig.profiles.find(p => p.id === currentConfig.activeProfileId);
+    const profileConfig = buildProfileConfig(currentConfig, activeProfile, globalSettings.modelId);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const counter = await getTokenCounter(profileConfig);
+      await prepareTokenCounts(counter, contextPrompt.sections.map(section => section.text), contextPrompt.messages, controller.signal);
+      // A copy, so the meter recounts with the newly fetched counts
+      if (!controller.signal.aborted) setTokenCounter({ ...counter });
+    }, 500);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [contextPrompt, providerConfigs, activeProvider, globalSettings.modelId]);
+
+  // Total context tokens for current conversation
+  const contextTokens = useMemo(() => {
+    if (!contextPrompt) return 0;
+    return [
+      ...contextPrompt.sections.map(section => tokenCounter.count(section.text)),
+      ...contextPrompt.messages.map(msg => countMessageTokens(msg, tokenCounter)),
+    ].reduce((total, tokens) => total + tokens, 0);
+  }, [contextPrompt, tokenCounter]);
+  const contextUsage = globalSettings.maxContextTokens > 0 ? contextTokens / globalSettings.maxContextTokens : 0;
 
   return (
     <div className="flex flex-col h-screen bg-black">
@@ -4900,11 +7472,47 @@ Write an engaging story segment. If this is a good point for player interaction,
                     ? "Create characters with AI"
                     : view === "brainstorm"
                     ? "Brainstorm roleplay ideas with AI"
-                    : `~${contextTokens.toLocaleString()} context tokens • ${AVAILABLE_PROVIDERS.find(p => p.id === activeProvider)?.name || 'AI'}`}
+                    : `${tokenCounter.exact ? "" : "~"}${contextTokens.toLocaleString()} / ${globalSettings.maxContextTokens.toLocaleString()} context tokens • ${AVAILABLE_PROVIDERS.find(p => p.id === activeProvider)?.name || 'AI'}`}
                 </p>
+                {/* Context meter: full means the oldest messages are being left out */}
+                {view === "chat" && (
+                  <div
+                    className="mt-1 h-1 w-40 max-w-full bg-zinc-800 rounded-full overflow-hidden"
+                    title={`Counted with ${tokenCounter.name}${contextUsage > 1 ? " • older messages are truncated" : ""}`}
+                  >
+                    <div
+                      className={`h-full rounded-full ${contextUsage > 1 ? "bg-red-500" : contextUsage > 0.8 ? "bg-amber-500" : "bg-purple-500"}`}
+                      style={{ width: `${Math.min(contextUsage, 1) * 100}%` }}
+                    />
+                  </div>
+                )}
               </div>
             </div>
             
+            {/* Story summary button - chat view only */}
+            {view === "chat" && currentConversation && (
+              <button
+                onClick={() => setShowSummaryModal(true)}
+                className="p-2 hover:bg-zinc-800 rounded-lg transition-colors"
+                title="Story So Far"
+              >
+                <svg className={`w-5 h-5 ${currentConversation.summary ? "text-cyan-400" : "text-zinc-400"}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+              </button>
+            )}
+
+            {/* World lorebooks button - always visible */}
+            <button
+              onClick={() => setShowLorebooksModal(true)}
+              className="p-2 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="World Lorebooks"
+            >
+              <svg className="w-5 h-5 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+            </button>
+            
             {/* Settings button - always visible */}
             <button
               onClick={openSettings}
@@ -5002,7 +7610,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                                   e.stopPropagation();
                                   handleConnectProvider(provider.id);
                                 }}
-                                disabled={provider.id !== 'puter' && !providerConfigs[provider.id]?.apiKey}
+                                disabled={provider.requiresApiKey && !providerConfigs[provider.id]?.apiKey}
                                 className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                                 title="Connect to this provider"
                               >
@@ -5201,6 +7809,22 @@ Write an engaging story segment. If this is a good point for player interaction,
         </div>
       )}
 
+      {/* Storage Error Banner - failed save (e.g. browser storage full) */}
+      {storageError && (
+        <div className="fixed top-4 left-0 right-0 z-50 px-4">
+          <div className="max-w-2xl mx-auto bg-red-900/90 border border-red-700 rounded-lg px-4 py-3 text-sm text-white shadow-xl flex items-start gap-3">
+            <span className="flex-1">{storageError}</span>
+            <button
+              onClick={() => setStorageError(null)}
+              className="text-red-200 hover:text-white"
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Undo Toast */}
       {showUndoToast && deletedItem && (
         <div className="fixed bottom-20 left-0 right-0 z-40 px-4 py-3">
@@ -5259,6 +7883,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                       setEditingPersona(null);
                       setPersonaName("");
                       setPersonaDescription("");
+                      setPersonaLorebookIds([]);
                       setShowPersonaModal(true);
                     }}
                     className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
@@ -5325,6 +7950,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                       setEditingPersona(null);
                       setPersonaName("");
                       setPersonaDescription("");
+                      setPersonaLorebookIds([]);
                       setShowPersonaModal(true);
                       setShowMobileMenu(false);
                     }}
@@ -5721,19 +8347,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                                           )}
                                         </button>
                                         <button
-                                          onClick={() => {
-                                            // Export character as JSON file
-                                            const characterJson = JSON.stringify(char, null, 2);
-                                            const blob = new Blob([characterJson], { type: "application/json" });
-                                            const url = URL.createObjectURL(blob);
-                                            const a = document.createElement("a");
-                                            a.href = url;
-                                            a.download = `${char.name.replace(/\s+/g, "-").toLowerCase()}.json`;
-                                            document.body.appendChild(a);
-                                            a.click();
-                                            document.body.removeChild(a);
-                                            URL.revokeObjectURL(url);
-                                          }}
+                                          onClick={() => handleExportCharacter({ ...char, id: "", createdAt: Date.now() }, "json")}
                                           className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
                                         >
                                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -5741,6 +8355,15 @@ Write an engaging story segment. If this is a good point for player interaction,
                                           </svg>
                                           Export JSON
                                         </button>
+                                        <button
+                                          onClick={() => handleExportCharacter({ ...char, id: "", createdAt: Date.now() }, "png")}
+                                          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                                        >
+                                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                          </svg>
+                                          Export PNG
+                                        </button>
                                       </div>
                                     </div>
                                     
@@ -6683,14 +9306,14 @@ Write an engaging story segment. If this is a good point for player interaction,
                   <input
                     type="file"
                     ref={fileInputRef}
-                    accept=".json"
+                    accept=".json,.png"
                     onChange={handleImportCharacter}
                     className="hidden"
                   />
                   <button
                     onClick={() => fileInputRef.current?.click()}
                     className="flex items-center gap-2 px-4 py-2 bg-zinc-700 text-white rounded-lg hover:bg-zinc-600 transition-colors text-sm"
-                    title="Import SillyTavern Character"
+                    title="Import SillyTavern Character (JSON or PNG)"
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -6703,6 +9326,8 @@ Write an engaging story segment. If this is a good point for player interaction,
                       setCharacterName("");
                       setCharacterDescription("");
                       setCharacterFirstMessage("");
+                      setCharacterLorebookIds([]);
+                      setCharacterBook(undefined);
                       setShowCharacterModal(true);
                     }}
                     className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
@@ -6735,7 +9360,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                   <input
                     type="file"
                     ref={fileInputRef}
-                    accept=".json"
+                    accept=".json,.png"
                     onChange={handleImportCharacter}
                     className="hidden"
                   />
@@ -6757,6 +9382,8 @@ Write an engaging story segment. If this is a good point for player interaction,
                       setCharacterName("");
                       setCharacterDescription("");
                       setCharacterFirstMessage("");
+                      setCharacterLorebookIds([]);
+                      setCharacterBook(undefined);
                       setShowCharacterModal(true);
                       setShowMobileMenu(false);
                     }}
@@ -6808,12 +9435,40 @@ Write an engaging story segment. If this is a good point for player interaction,
                       className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 hover:border-zinc-700 transition-colors"
                     >
                       <div className="flex justify-between items-start mb-3">
-                        <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
-                          <span className="text-xl text-white font-semibold">
-                            {character.name.charAt(0).toUpperCase()}
-                          </span>
-                        </div>
+                        {character.avatar ? (
+                          // An <img> rather than a CSS background: the URL comes from imported cards
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={character.avatar}
+                            alt={character.name}
+                            className="w-12 h-12 rounded-xl bg-zinc-800 object-cover"
+                          />
+                        ) : (
+                          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                            <span className="text-xl text-white font-semibold">
+                              {character.name.charAt(0).toUpperCase()}
+                            </span>
+                          </div>
+                        )}
                         <div className="flex gap-1">
+                          <button
+                            onClick={() => handleExportCharacter(character, "png")}
+                            className="p-2 hover:bg-zinc-800 rounded-lg transition-colors"
+                            title="Export PNG card"
+                          >
+                            <svg className="w-4 h-4 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={() => handleExportCharacter(character, "json")}
+                            className="p-2 hover:bg-zinc-800 rounded-lg transition-colors"
+                            title="Export JSON card"
+                          >
+                            <svg className="w-4 h-4 text-zinc-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                          </button>
                           <button
                             onClick={() => openEditCharacter(character)}
                             className="p-2 hover:bg-zinc-800 rounded-lg transition-colors"
@@ -6945,27 +9600,38 @@ Write an engaging story segment. If this is a good point for player interaction,
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {filteredConversations
-                    .sort((a, b) => b.updatedAt - a.updatedAt)
-                    .map((conversation) => (
+                  {/* Conversations in branch tree order - branches are indented under their parent */}
+                  {flattenBranchTree(filteredConversations).map(({ conversation: stored, depth }) => {
+                    const conversation = withBranchHistory(conversations, stored);
+                    // Branches are previewed by their first message after the branch point
+                    const previewMessage = stored.parentId
+                      ? stored.messages[0] ?? conversation.messages[conversation.messages.length - 1]
+                      : conversation.messages[1];
+                    
+                    return (
                       <div
                         key={conversation.id}
-                        className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 hover:border-zinc-700 transition-colors"
+                        className={`bg-zinc-900 border rounded-xl p-4 hover:border-zinc-700 transition-colors ${
+                          depth > 0 ? "border-zinc-800 border-l-2 border-l-purple-500/50" : "border-zinc-800"
+                        }`}
+                        style={{ marginLeft: `${Math.min(depth, 4) * 1.5}rem` }}
                       >
                         <div className="flex justify-between items-center">
-                          <div className="flex-1 cursor-pointer" onClick={() => continueConversation(conversation)}>
-                            <p className="text-white font-medium">
-                              {conversation.messages.length > 1
-                                ? conversation.messages[1].content.slice(0, 50) + (conversation.messages[1].content.length > 50 ? "..." : "")
+                          <div className="flex-1 min-w-0 cursor-pointer" onClick={() => continueConversation(stored)}>
+                            <p className="text-white font-medium truncate">
+                              {depth > 0 && <span className="text-purple-400 mr-1">↳</span>}
+                              {previewMessage && conversation.messages.length > 1
+                                ? previewMessage.content.slice(0, 50) + (previewMessage.content.length > 50 ? "..." : "")
                                 : "New conversation"}
                             </p>
                             <p className="text-sm text-zinc-500">
+                              {conversation.parentId && `Branched at message ${(conversation.branchPointIndex ?? 0) + 1} • `}
                               {conversation.messages.length} messages • Updated {new Date(conversation.updatedAt).toLocaleDateString()}
                             </p>
                           </div>
                           <div className="flex gap-2">
                             <button
-                              onClick={() => continueConversation(conversation)}
+                              onClick={() => continueConversation(stored)}
                               className="px-4 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors"
                             >
                               Continue
@@ -6981,7 +9647,8 @@ Write an engaging story segment. If this is a good point for player interaction,
                           </div>
                         </div>
                       </div>
-                    ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
@@ -6990,6 +9657,31 @@ Write an engaging story segment. If this is a good point for player interaction,
           {/* Chat View */}
           {view === "chat" && currentConversation && (
             <div className="pb-32">
+              {/* Branch switcher - shown when the conversation has branches */}
+              {branchFamily.length > 1 && (
+                <div className="flex items-center gap-2 mb-4 text-sm">
+                  <svg className="w-4 h-4 text-purple-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+                  </svg>
+                  <select
+                    value={currentConversation.id}
+                    onChange={(e) => {
+                      const target = conversations.find((c) => c.id === e.target.value);
+                      if (target) continueConversation(target);
+                    }}
+                    disabled={isLoading}
+                    className="flex-1 min-w-0 bg-zinc-900 text-zinc-300 rounded-lg px-3 py-1.5 border border-zinc-800 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                  >
+                    {branchFamily.map(({ conversation, depth }) => (
+                      <option key={conversation.id} value={conversation.id}>
+                        {`${"\u00A0\u00A0".repeat(depth)}${
+                          depth === 0 ? "Main" : `↳ Branch at message ${(conversation.branchPointIndex ?? 0) + 1}`
+                        } (${withBranchHistory(conversations, conversation).messages.length} messages)`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               {currentConversation.messages.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center">
                   <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center mb-6">
@@ -7019,9 +9711,40 @@ Write an engaging story segment. If this is a good point for player interaction,
                       ? replaceMacros(rawContent, selectedPersona.name, selectedCharacter.name)
                       : rawContent;
                     
-                    const isEditing = editingMessageIndex === index;
-                    const isLastMessage = index === currentConversation.messages.length - 1;
+                    // Position in the full message list (hidden continue messages are filtered out above)
+                    const messageIndex = currentConversation.messages.indexOf(message);
+                    const isEditing = editingMessageIndex === messageIndex;
+                    const isLastMessage = currentConversation.messages.slice(messageIndex + 1).every(m => m.isContinue);
                     const isLastAssistantMessage = message.role === "assistant" && isLastMessage;
+                    
+                    // Swipe controls - shown for the latest reply and any reply with alternatives
+                    const swipeCount = message.swipes?.length ?? 1;
+                    const swipeIndex = getSwipeIndex(message);
+                    const swipeControls = message.role === "assistant" && (swipeCount > 1 || isLastAssistantMessage) ? (
+                      <div className="flex items-center text-xs text-zinc-500">
+                        <button
+                          onClick={() => handleSwipe(messageIndex, -1)}
+                          disabled={isLoading || swipeIndex === 0}
+                          className="p-1 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors disabled:opacity-30"
+                          title="Previous reply"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                          </svg>
+                        </button>
+                        <span className="tabular-nums">{swipeIndex + 1}/{swipeCount}</span>
+                        <button
+                          onClick={() => handleSwipe(messageIndex, 1)}
+                          disabled={isLoading || (swipeIndex === swipeCount - 1 && !isLastAssistantMessage)}
+                          className="p-1 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors disabled:opacity-30"
+                          title={swipeIndex === swipeCount - 1 ? "Generate another reply" : "Next reply"}
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                          </svg>
+                        </button>
+                      </div>
+                    ) : null;
 
                     return (
                       <div
@@ -7062,7 +9785,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                                     Cancel
                                   </button>
                                   <button
-                                    onClick={() => handleSaveEdit(index)}
+                                    onClick={() => handleSaveEdit(messageIndex)}
                                     className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                                   >
                                     Save & {message.role === "user" ? "Regenerate" : "Update"}
@@ -7075,16 +9798,31 @@ Write an engaging story segment. If this is a good point for player interaction,
                                 {thinkContent && selectedPersona && selectedCharacter && (
                                   <ThinkingSection content={replaceMacros(thinkContent, selectedPersona.name, selectedCharacter.name)} />
                                 )}
+                                {/* Attached images */}
+                                {message.attachments && message.attachments.length > 0 && (
+                                  <div className={`flex flex-wrap gap-2 ${displayContent ? "mb-2" : ""}`}>
+                                    {message.attachments.map((attachment, attachmentIndex) => (
+                                      <a key={attachmentIndex} href={toDataUrl(attachment)} target="_blank" rel="noopener noreferrer">
+                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                        <img
+                                          src={toDataUrl(attachment)}
+                                          alt={attachment.name || "Attached image"}
+                                          className="max-h-48 max-w-full rounded-lg border border-zinc-600 object-contain"
+                                        />
+                                      </a>
+                                    ))}
+                                  </div>
+                                )}
                                 <FormattedText content={displayContent} />
                               </>
                             )}
                           </div>
-                          {/* Message actions - edit, delete for all messages, retry/continue only on last message */}
-                          {!isEditing && (message.role === "user" || isLastMessage) && (
+                          {/* Message actions - edit, delete, branch for all messages, retry/continue only on last message */}
+                          {!isEditing && (
                             <div className={`flex gap-1 mt-1 ${message.role === "user" ? "justify-end" : "justify-start"}`}>
                               {/* Edit button */}
                               <button
-                                onClick={() => handleStartEditMessage(index)}
+                                onClick={() => handleStartEditMessage(messageIndex)}
                                 className="p-1 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 rounded transition-colors"
                                 title="Edit message"
                               >
@@ -7094,7 +9832,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                               </button>
                               {/* Delete button */}
                               <button
-                                onClick={() => handleDeleteMessage(index)}
+                                onClick={() => handleDeleteMessage(messageIndex)}
                                 className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-800 rounded transition-colors"
                                 title="Delete message"
                               >
@@ -7102,6 +9840,29 @@ Write an engaging story segment. If this is a good point for player interaction,
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                                 </svg>
                               </button>
+                              {/* Pin button - pinned messages always stay in the context */}
+                              <button
+                                onClick={() => handleTogglePin(messageIndex)}
+                                className={`p-1 hover:bg-zinc-800 rounded transition-colors ${message.pinned ? "text-amber-400 hover:text-amber-300" : "text-zinc-500 hover:text-amber-400"}`}
+                                title={message.pinned ? "Unpin message" : "Pin message (always kept in the context)"}
+                              >
+                                <svg className="w-4 h-4" fill={message.pinned ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                                </svg>
+                              </button>
+                              {/* Branch button - fork the conversation after this message */}
+                              {!isLastMessage && (
+                                <button
+                                  onClick={() => handleBranchFromMessage(messageIndex)}
+                                  disabled={isLoading}
+                                  className="p-1 text-zinc-500 hover:text-purple-400 hover:bg-zinc-800 rounded transition-colors disabled:opacity-50"
+                                  title="Branch from here"
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+                                  </svg>
+                                </button>
+                              )}
                               {/* Retry button - only for last assistant message */}
                               {isLastAssistantMessage && (
                                 <button
@@ -7128,6 +9889,28 @@ Write an engaging story segment. If this is a good point for player interaction,
                                   </svg>
                                 </button>
                               )}
+                              {/* Request inspector - while the generation's record is kept */}
+                              {message.generationId && generationRecords.some(r => r.id === message.generationId) && (
+                                <button
+                                  onClick={() => setInspectedGenerationId(message.generationId || null)}
+                                  className="p-1 text-zinc-500 hover:text-amber-400 hover:bg-zinc-800 rounded transition-colors"
+                                  title="Inspect request"
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                                  </svg>
+                                </button>
+                              )}
+                              {swipeControls}
+                              {/* Provider that answered when the active one failed */}
+                              {message.servedBy && (
+                                <span
+                                  className="self-center ml-1 text-xs text-amber-500/80 truncate max-w-[16rem]"
+                                  title={`Answered by the fallback chain: ${message.servedBy}`}
+                                >
+                                  via {message.servedBy}
+                                </span>
+                              )}
                             </div>
                           )}
                         </div>
@@ -7154,6 +9937,10 @@ Write an engaging story segment. If this is a good point for player interaction,
                           <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: "150ms" }} />
                           <div className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
                         </div>
+                        {/* Switching to the next provider of the fallback chain */}
+                        {fallbackNotice && (
+                          <p className="text-xs text-amber-400 mt-2">{fallbackNotice}</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -7186,7 +9973,42 @@ Write an engaging story segment. If this is a good point for player interaction,
       {view === "chat" && currentConversation && (
         <div className="fixed bottom-0 left-0 right-0 border-t border-zinc-800 bg-black/80 backdrop-blur-xl z-50">
           <div className="max-w-4xl mx-auto px-4 py-4">
-            <form onSubmit={handleSubmit}>
+            <form
+              onSubmit={handleSubmit}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                if (e.dataTransfer.files.length === 0) return;
+                e.preventDefault();
+                handleAddAttachments(Array.from(e.dataTransfer.files));
+              }}
+            >
+              {/* Images attached to the next message */}
+              {pendingAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {pendingAttachments.map((attachment, index) => (
+                    <div key={index} className="relative">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={toDataUrl(attachment)}
+                        alt={attachment.name || "Attached image"}
+                        className="w-16 h-16 rounded-lg border border-zinc-700 object-cover"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                        className="absolute -top-1.5 -right-1.5 w-5 h-5 flex items-center justify-center bg-zinc-800 border border-zinc-600 text-zinc-300 rounded-full hover:bg-red-600 hover:text-white transition-colors"
+                        title="Remove image"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex items-end gap-3 bg-zinc-900 rounded-2xl border border-zinc-800 p-2">
                 <div className="flex-1 relative">
                   <textarea
@@ -7194,6 +10016,12 @@ Write an engaging story segment. If this is a good point for player interaction,
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={handleKeyDown}
+                    onPaste={(e) => {
+                      const files = Array.from(e.clipboardData.files).filter(f => f.type.startsWith("image/"));
+                      if (files.length === 0) return; // Plain text pastes as usual
+                      e.preventDefault();
+                      handleAddAttachments(files);
+                    }}
                     placeholder={`Message as ${selectedPersona?.name}...`}
                     rows={1}
                     className="w-full bg-transparent text-white placeholder-zinc-500 px-3 py-2 resize-none focus:outline-none"
@@ -7201,17 +10029,23 @@ Write an engaging story segment. If this is a good point for player interaction,
                     disabled={isLoading}
                   />
                 </div>
-                <button
-                  type="submit"
-                  className="flex-shrink-0 w-10 h-10 flex items-center justify-center bg-gradient-to-r from-blue-600 to-cyan-600 text-white rounded-xl hover:from-blue-500 hover:to-cyan-500 transition-all shadow-lg shadow-blue-600/20"
-                  title={input.trim() ? "Send message" : "Resend last message"}
-                >
-                  {isLoading ? (
-                    <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="flex-shrink-0 w-10 h-10 flex items-center justify-center bg-red-600 text-white rounded-xl hover:bg-red-500 transition-all shadow-lg shadow-red-600/20"
+                    title="Stop generating"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="5" y="5" width="14" height="14" rx="2" />
                     </svg>
-                  ) : (
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    className="flex-shrink-0 w-10 h-10 flex items-center justify-center bg-gradient-to-r from-blue-600 to-cyan-600 text-white rounded-xl hover:from-blue-500 hover:to-cyan-500 transition-all shadow-lg shadow-blue-600/20"
+                    title={input.trim() || pendingAttachments.length > 0 ? "Send message" : "Resend last message"}
+                  >
                     <svg
                       className="w-5 h-5"
                       fill="none"
@@ -7225,12 +10059,13 @@ Write an engaging story segment. If this is a good point for player interaction,
                         d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
                       />
                     </svg>
-                  )}
-                </button>
+                  </button>
+                )}
               </div>
             </form>
             <p className="text-xs text-zinc-600 mt-2 text-center">
               Press Enter to send, Shift+Enter for new line. Empty message resends last.
+              {modelSupportsVision && " Paste or drop images to attach them."}
             </p>
           </div>
         </div>
@@ -7270,6 +10105,13 @@ Write an engaging story segment. If this is a good point for player interaction,
                   className="w-full bg-zinc-800 text-white placeholder-zinc-500 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 border border-zinc-700 resize-none"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">
+                  World Lorebooks
+                </label>
+                <LorebookPicker lorebooks={lorebooks} selectedIds={personaLorebookIds} onChange={setPersonaLorebookIds} />
+              </div>
             </div>
 
             <div className="flex gap-3 mt-6">
@@ -7279,6 +10121,7 @@ Write an engaging story segment. If this is a good point for player interaction,
                   setEditingPersona(null);
                   setPersonaName("");
                   setPersonaDescription("");
+                  setPersonaLorebookIds([]);
                 }}
                 className="flex-1 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors"
               >
@@ -7394,6 +10237,33 @@ Write an engaging story segment. If this is a good point for player interaction,
                 </div>
               </div>
 
+              {/* Lorebook Section */}
+              <div className="border-t border-zinc-700 pt-4 mt-4">
+                <h3 className="text-sm font-medium text-zinc-300 mb-3 flex items-center gap-2">
+                  <span>📖</span> Lorebook (Optional)
+                </h3>
+                <p className="text-xs text-zinc-500 mb-3">
+                  Entries are added to the prompt when their keys appear in recent messages. The list is in insertion order: entries higher up are placed earlier.
+                </p>
+                <LorebookEditor
+                  book={characterBook}
+                  onChange={setCharacterBook}
+                  personaName={selectedPersona?.name || "User"}
+                  characterName={characterName || "Character"}
+                />
+              </div>
+
+              {/* World Lorebooks Section */}
+              <div className="border-t border-zinc-700 pt-4 mt-4">
+                <h3 className="text-sm font-medium text-zinc-300 mb-3 flex items-center gap-2">
+                  <span>📚</span> World Lorebooks (Optional)
+                </h3>
+                <p className="text-xs text-zinc-500 mb-3">
+                  Attach standalone lorebooks. They apply after this character&apos;s own lorebook in every chat with this character.
+                </p>
+                <LorebookPicker lorebooks={lorebooks} selectedIds={characterLorebookIds} onChange={setCharacterLorebookIds} />
+              </div>
+
               {/* Advanced Instructions Section */}
               <div className="border-t border-zinc-700 pt-4 mt-4">
                 <h3 className="text-sm font-medium text-zinc-300 mb-3 flex items-center gap-2">
@@ -7470,6 +10340,8 @@ Write an engaging story segment. If this is a good point for player interaction,
                   setCharacterSystemPrompt("");
                   setCharacterPostHistoryInstructions("");
                   setCharacterMesExample("");
+                  setCharacterLorebookIds([]);
+                  setCharacterBook(undefined);
                   setCharacterAlternateGreetings([]);
                 }}
                 className="flex-1 py-2 bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors"
@@ -7565,6 +10437,36 @@ Write an engaging story segment. If this is a good point for player interaction,
         </div>
       )}
 
+      {/* World Lorebooks Modal */}
+      <WorldLorebooksModal
+        show={showLorebooksModal}
+        onClose={() => setShowLorebooksModal(false)}
+        lorebooks={lorebooks}
+        setLorebooks={setLorebooks}
+        conversationLorebookIds={view === "chat" && currentConversation ? currentConversation.lorebookIds || [] : null}
+        onChangeConversationLorebooks={updateConversationLorebooks}
+        personaName={selectedPersona?.name || "User"}
+        characterName={selectedCharacter?.name || "Character"}
+      />
+
+      {/* Request Inspector Modal */}
+      <GenerationInspectorModal
+        record={generationRecords.find(r => r.id === inspectedGenerationId) || null}
+        onClose={() => setInspectedGenerationId(null)}
+      />
+
+      {/* Story Summary Modal */}
+      {showSummaryModal && currentConversation && (
+        <StorySummaryModal
+          show={showSummaryModal}
+          onClose={() => setShowSummaryModal(false)}
+          summary={currentConversation.summary}
+          messageCount={currentConversation.messages.length}
+          onSave={handleSaveSummary}
+          onRegenerate={handleRegenerateSummary}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettingsModal && (
         <SettingsModal
@@ -7595,6 +10497,8 @@ Write an engaging story segment. If this is a good point for player interaction,
           selectProfile={selectProfile}
           deleteProfile={deleteProfile}
           getActiveProfile={getActiveProfile}
+          keyStatus={keyStatus}
+          setKeyStatus={setKeyStatus}
         />
       )}
     </div>
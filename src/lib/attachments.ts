@@ -0,0 +1,71 @@
+// Image attachments for user messages
+// Pasted or dropped images are downscaled in the browser and stored as base64 with the message
+
+import { MessageAttachment } from "./types";
+
+export const MAX_ATTACHMENTS = 4; // Per message
+const MAX_IMAGE_SIDE = 1568; // Larger images are scaled down (vision APIs downscale them anyway)
+const JPEG_QUALITY = 0.85;
+
+// Image types every vision API accepts as-is; anything else is converted to JPEG
+const PASSTHROUGH_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The file is not a readable image"));
+    image.src = src;
+  });
+
+// Split a data: URL into its MIME type and base64 payload
+const fromDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)[^,]*,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: "", data: "" };
+};
+
+// Read an image file into an attachment, scaling it down (to JPEG) when it is too large
+// or not in a format the APIs accept
+export const readImageAttachment = async (file: File): Promise<MessageAttachment> => {
+  if (!file.type.startsWith("image/")) {
+    throw new Error(`${file.name || "The file"} is not an image`);
+  }
+
+  const dataUrl = await readAsDataUrl(file);
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.width, image.height));
+
+  if (scale === 1 && PASSTHROUGH_TYPES.includes(file.type)) {
+    return { type: "image", ...fromDataUrl(dataUrl), name: file.name };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Could not process the image");
+  }
+  // JPEG has no transparency: paint a white background first
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return { type: "image", ...fromDataUrl(canvas.toDataURL("image/jpeg", JPEG_QUALITY)), name: file.name };
+};
+
+// data: URL of an attachment (for <img> tags and OpenAI-style image_url parts)
+export const toDataUrl = (attachment: MessageAttachment): string =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// Guess from a model id whether it accepts images (for model lists without capability data)
+export const guessVisionSupport = (modelId: string): boolean =>
+  /vision|[-_/]vl\b|llava|pixtral|multimodal|gpt-4o|gpt-4\.1|gpt-5|claude|gemini|gemma-3|llama-4|llama-3\.2-(11|90)b|phi-[34].*vision|kimi-k2\.5|grok-4/i.test(modelId);
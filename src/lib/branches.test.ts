@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { Conversation, Message } from "./types";
+import {
+  createBranch,
+  isSharedMessage,
+  migrateBranchHistory,
+  reparentBranches,
+  setBranchMessages,
+  withBranchHistory,
+} from "./branches";
+
+const message = (content: string, role: Message["role"] = "user"): Message => ({ role, content });
+
+const conversation = (id: string, messages: Message[], fields: Partial<Conversation> = {}): Conversation => ({
+  id,
+  personaId: "persona",
+  characterId: "character",
+  messages,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+const contents = (conversations: Conversation[], id: string) =>
+  withBranchHistory(conversations, conversations.find((c) => c.id === id)!).messages.map((m) => m.content);
+
+// Root [a, b, c] with a branch after b that continues with [x]
+const tree = () => {
+  const root = conversation("root", [message("a"), message("b", "assistant"), message("c")]);
+  const branch = { ...createBranch(root, 2, [message("x")]), id: "branch" };
+  return [root, branch];
+};
+
+describe("createBranch", () => {
+  it("stores only the branch's own messages", () => {
+    const [root, branch] = tree();
+    expect(branch.messages.map((m) => m.content)).toEqual(["x"]);
+    expect(branch).toMatchObject({ parentId: root.id, branchPointIndex: 2, sharesHistory: true });
+    expect(contents([root, branch], "branch")).toEqual(["a", "b", "x"]);
+  });
+});
+
+describe("setBranchMessages", () => {
+  it("makes edits to shared messages in the parent", () => {
+    const conversations = tree();
+    const messages = withBranchHistory(conversations, conversations[1]).messages;
+    const edited = setBranchMessages(conversations, "branch", [message("A"), ...messages.slice(1)], 1);
+    expect(contents(edited, "root")).toEqual(["A", "b", "c"]);
+    expect(contents(edited, "branch")).toEqual(["A", "b", "x"]);
+    expect(edited[1].messages.map((m) => m.content)).toEqual(["x"]);
+  });
+
+  it("stores appended messages in the branch only", () => {
+    const conversations = tree();
+    const messages = withBranchHistory(conversations, conversations[1]).messages;
+    const appended = setBranchMessages(conversations, "branch", [...messages, message("y", "assistant")], 1);
+    expect(appended[0]).toBe(conversations[0]);
+    expect(contents(appended, "branch")).toEqual(["a", "b", "x", "y"]);
+  });
+
+  it("moves the branch point back when the branch removes shared messages", () => {
+    const conversations = tree();
+    const messages = withBranchHistory(conversations, conversations[1]).messages;
+    const deleted = setBranchMessages(conversations, "branch", [messages[0], messages[2]], 1);
+    expect(contents(deleted, "root")).toEqual(["a", "b", "c"]);
+    expect(contents(deleted, "branch")).toEqual(["a", "x"]);
+    expect(deleted[1].branchPointIndex).toBe(1);
+  });
+
+  it("lets branches keep messages their parent removes", () => {
+    const conversations = tree();
+    const truncated = setBranchMessages(conversations, "root", conversations[0].messages.slice(0, 1), 1);
+    expect(contents(truncated, "root")).toEqual(["a"]);
+    expect(contents(truncated, "branch")).toEqual(["a", "b", "x"]);
+    expect(truncated[1]).toMatchObject({ branchPointIndex: 1 });
+  });
+});
+
+describe("isSharedMessage", () => {
+  it("reports messages shared with a parent or a branch", () => {
+    const conversations = tree();
+    expect(isSharedMessage(conversations, "branch", 1)).toBe(true);
+    expect(isSharedMessage(conversations, "branch", 2)).toBe(false);
+    expect(isSharedMessage(conversations, "root", 1)).toBe(true);
+    expect(isSharedMessage(conversations, "root", 2)).toBe(false);
+  });
+});
+
+describe("reparentBranches", () => {
+  it("gives branches of a deleted conversation the messages they shared with it", () => {
+    const [root, branch] = tree();
+    const nested = { ...createBranch(withBranchHistory([root, branch], branch), 3, [message("z")]), id: "nested" };
+    const remaining = reparentBranches([root, nested], branch);
+    expect(remaining[1]).toMatchObject({ parentId: "root", branchPointIndex: 2 });
+    expect(contents(remaining, "nested")).toEqual(["a", "b", "x", "z"]);
+
+    const detached = reparentBranches([branch], root);
+    expect(detached[0].parentId).toBeUndefined();
+    expect(contents(detached, "branch")).toEqual(["a", "b", "x"]);
+  });
+});
+
+describe("migrateBranchHistory", () => {
+  it("drops the copied history of branches stored before sharing", () => {
+    const root = conversation("root", [message("a"), message("b")]);
+    const legacy = conversation("legacy", [message("a"), message("b"), message("x")], { parentId: "root", branchPointIndex: 2 });
+    const migrated = migrateBranchHistory([root, legacy]);
+    expect(migrated[1].messages.map((m) => m.content)).toEqual(["x"]);
+    expect(contents(migrated, "legacy")).toEqual(["a", "b", "x"]);
+    expect(migrateBranchHistory(migrated)[1]).toBe(migrated[1]);
+  });
+});
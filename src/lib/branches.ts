@@ -0,0 +1,207 @@
+// Conversation branching utilities
+// A branch is a conversation forked from another one at a message: it shares the parent's messages
+// up to the branch point and continues independently from there. Only its own messages are stored;
+// the shared history is read from the parent (see withBranchHistory).
+
+import { Conversation, Message } from "./types";
+
+// A conversation placed in the branch tree
+export interface BranchTreeNode<T extends Conversation = Conversation> {
+  conversation: T;
+  depth: number; // 0 = root conversation
+}
+
+// Fork `parent` sharing its first `branchPointIndex` messages, followed by `newMessages`
+export const createBranch = <T extends Conversation>(
+  parent: T,
+  branchPointIndex: number,
+  newMessages: Message[] = []
+): T => {
+  const now = Date.now();
+  return {
+    ...parent,
+    id: crypto.randomUUID(),
+    messages: newMessages,
+    // The story summary only carries over while it covers nothing past the branch point
+    summary: parent.summary && parent.summary.coveredCount <= branchPointIndex ? parent.summary : undefined,
+    parentId: parent.id,
+    branchPointIndex,
+    sharesHistory: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Full message list of a stored conversation: the history shared with its parents, then its own
+// messages (a missing parent ends the walk)
+const resolveMessages = <T extends Conversation>(
+  byId: Map<string, T>,
+  conversation: T,
+  visited = new Set<string>()
+): Message[] => {
+  const parent = conversation.parentId ? byId.get(conversation.parentId) : undefined;
+  if (!parent || visited.has(conversation.id)) return conversation.messages;
+  visited.add(conversation.id);
+  const shared = resolveMessages(byId, parent, visited).slice(0, conversation.branchPointIndex ?? 0);
+  return [...shared, ...conversation.messages];
+};
+
+// A stored conversation with its full message list, for display and prompts
+export const withBranchHistory = <T extends Conversation>(conversations: T[], conversation: T): T =>
+  conversation.parentId
+    ? { ...conversation, messages: resolveMessages(new Map(conversations.map((c) => [c.id, c])), conversation) }
+    : conversation;
+
+// Number of leading messages two lists have in common (same message objects)
+const commonPrefixLength = (a: Message[], b: Message[]): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+// Store a new full message list for a conversation. Changes that keep the list's shape (edits,
+// swipes, pins) to shared messages are made where they are stored, so every branch sharing them sees
+// them. Removing shared messages (deleting, retrying, truncating after an edit) forks instead: the
+// branch point moves back, and branches of the conversation keep the messages it removed.
+export const setBranchMessages = <T extends Conversation>(
+  conversations: T[],
+  conversationId: string,
+  messages: Message[],
+  updatedAt: number
+): T[] => {
+  const byId = new Map(conversations.map((c) => [c.id, c]));
+
+  const update = (id: string, next: Message[], visited: Set<string>) => {
+    const conversation = byId.get(id);
+    if (!conversation || visited.has(id)) return;
+    visited.add(id);
+
+    const previous = resolveMessages(byId, conversation);
+    const parent = conversation.parentId ? byId.get(conversation.parentId) : undefined;
+    let sharedCount = parent ? previous.length - conversation.messages.length : 0;
+    let branchPointIndex = conversation.branchPointIndex;
+    const kept = commonPrefixLength(previous, next);
+
+    if (next.length === previous.length) {
+      // Same shape: changed shared messages go to the parent
+      if (parent && kept < sharedCount) {
+        const parentMessages = resolveMessages(byId, parent);
+        update(parent.id, [...next.slice(0, sharedCount), ...parentMessages.slice(sharedCount)], visited);
+      }
+    } else {
+      if (parent && kept < sharedCount) {
+        sharedCount = kept;
+        branchPointIndex = kept;
+      }
+      // Branches that shared removed or replaced messages keep their own copies
+      byId.forEach((child) => {
+        const childPoint = child.branchPointIndex ?? 0;
+        if (child.parentId !== id || childPoint <= kept) return;
+        byId.set(child.id, {
+          ...child,
+          branchPointIndex: kept,
+          messages: [...previous.slice(kept, childPoint), ...child.messages],
+        });
+      });
+    }
+
+    byId.set(id, { ...conversation, branchPointIndex, messages: next.slice(sharedCount), updatedAt });
+  };
+
+  update(conversationId, messages, new Set());
+  return conversations.map((c) => byId.get(c.id)!);
+};
+
+// Whether a message of a conversation is shared with another conversation of its branch tree
+// (a parent it was branched from, or a branch forked after it)
+export const isSharedMessage = <T extends Conversation>(conversations: T[], conversationId: string, index: number): boolean => {
+  const conversation = conversations.find((c) => c.id === conversationId);
+  if (!conversation) return false;
+  const ownStart = withBranchHistory(conversations, conversation).messages.length - conversation.messages.length;
+  return index < ownStart || conversations.some((c) => c.parentId === conversationId && (c.branchPointIndex ?? 0) > index);
+};
+
+// Convert branches stored with a full copy of the shared history (as they were before) to storing
+// only their own messages. The parent's version of the shared messages is kept.
+export const migrateBranchHistory = <T extends Conversation>(conversations: T[]): T[] => {
+  const ids = new Set(conversations.map((c) => c.id));
+  return conversations.map((c) => {
+    if (!c.parentId || c.sharesHistory) return c;
+    const messages = ids.has(c.parentId) ? c.messages.slice(c.branchPointIndex ?? 0) : c.messages;
+    return { ...c, messages, sharesHistory: true };
+  });
+};
+
+// Root of the branch tree a conversation belongs to (parents missing from the list end the walk)
+export const getBranchRoot = <T extends Conversation>(conversations: T[], conversation: T): T => {
+  const byId = new Map(conversations.map((c) => [c.id, c]));
+  const visited = new Set<string>();
+  let current = conversation;
+
+  while (current.parentId && byId.has(current.parentId) && !visited.has(current.id)) {
+    visited.add(current.id);
+    current = byId.get(current.parentId)!;
+  }
+
+  return current;
+};
+
+// Flatten conversations into tree order: roots by most recent update, each followed
+// by its branches (oldest first), depth-first
+export const flattenBranchTree = <T extends Conversation>(conversations: T[]): BranchTreeNode<T>[] => {
+  const ids = new Set(conversations.map((c) => c.id));
+  const children = new Map<string, T[]>();
+  const roots: T[] = [];
+
+  for (const conversation of conversations) {
+    if (conversation.parentId && ids.has(conversation.parentId) && conversation.parentId !== conversation.id) {
+      children.set(conversation.parentId, [...(children.get(conversation.parentId) || []), conversation]);
+    } else {
+      roots.push(conversation);
+    }
+  }
+
+  const result: BranchTreeNode<T>[] = [];
+  const visited = new Set<string>();
+  const visit = (conversation: T, depth: number) => {
+    if (visited.has(conversation.id)) return;
+    visited.add(conversation.id);
+    result.push({ conversation, depth });
+    [...(children.get(conversation.id) || [])]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach((child) => visit(child, depth + 1));
+  };
+
+  [...roots].sort((a, b) => b.updatedAt - a.updatedAt).forEach((root) => visit(root, 0));
+  return result;
+};
+
+// All conversations in the same branch tree as `conversation`, in tree order
+export const getBranchFamily = <T extends Conversation>(conversations: T[], conversation: T): BranchTreeNode<T>[] => {
+  const rootId = getBranchRoot(conversations, conversation).id;
+  const tree = flattenBranchTree(conversations);
+  const start = tree.findIndex((node) => node.conversation.id === rootId);
+  if (start === -1) return [];
+
+  // The family is the root plus the following nodes that are deeper than it
+  const end = tree.findIndex((node, i) => i > start && node.depth === 0);
+  return tree.slice(start, end === -1 ? undefined : end);
+};
+
+// Detach a deleted conversation from the tree: its branches move up to its parent, taking over
+// the messages they shared with the deleted one
+export const reparentBranches = <T extends Conversation>(conversations: T[], deleted: T): T[] => {
+  const byId = new Map([...conversations, deleted].map((c) => [c.id, c]));
+  return conversations.map((c) => {
+    if (c.parentId !== deleted.id) return c;
+    const branchPointIndex = deleted.parentId
+      ? Math.min(c.branchPointIndex ?? 0, deleted.branchPointIndex ?? 0)
+      : undefined;
+    return {
+      ...c,
+      parentId: deleted.parentId,
+      branchPointIndex,
+      messages: resolveMessages(byId, c).slice(branchPointIndex ?? 0),
+    };
+  });
+};
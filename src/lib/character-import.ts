@@ -1,49 +1,179 @@
-// Simple Character Card import utilities
-// Only extracts: name, description, firstMessage, scenario
+// Character Card import/export utilities
+// Supports SillyTavern V1 (flat), V2 (chara_card_v2) and V3 (chara_card_v3) cards
 
-import { Character, Message, GlobalInstructions, CharacterBook } from "./types";
+import {
+  Character,
+  Message,
+  GlobalInstructions,
+  PromptSection,
+  CharacterBook,
+  CharacterBookEntry,
+  CharacterAsset,
+  CharacterCardSpec,
+  SillyTavernCharacterBook,
+  SillyTavernCharacterBookEntry,
+  SillyTavernCharacterCard,
+  SillyTavernCharacterCardData,
+} from "./types";
+import { LorebookScanResult, scanLorebooks } from "./lorebook";
+import { readPngTextChunks, setPngTextChunks, isPngData, base64ToBytes, bytesToBase64 } from "./png-chunks";
 
 // Generate a unique ID
 export const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
-// Parse character card JSON (simplified - only extracts basic fields)
+// Field readers for untrusted card JSON
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+const asBoolean = (value: unknown): boolean | undefined =>
+  typeof value === "boolean" ? value : undefined;
+
+const asStringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : undefined;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+
+const asStringRecord = (value: unknown): Record<string, string> | undefined => {
+  const record = asRecord(value);
+  if (!record) return undefined;
+  return Object.fromEntries(
+    Object.entries(record).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+};
+
+const asAssets = (value: unknown): CharacterAsset[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .map(asRecord)
+    .filter((a): a is Record<string, unknown> => !!a && typeof a.type === "string" && typeof a.uri === "string")
+    .map((a) => ({
+      type: a.type as string,
+      uri: a.uri as string,
+      name: asString(a.name) ?? "",
+      ext: asString(a.ext) ?? "",
+    }));
+};
+
+const ENTRY_POSITIONS: NonNullable<CharacterBookEntry["position"]>[] = [
+  "before_char",
+  "after_char",
+  "before_example",
+  "after_example",
+];
+
+// SillyTavern's numeric position for "insert into the chat at depth"
+const ST_POSITION_AT_DEPTH = 4;
+
+// Parse a lorebook entry from card JSON
+// SillyTavern keeps its own entry settings inside `extensions`; those are mapped
+// onto our fields while the extensions object itself is kept for export.
+const parseCharacterBookEntry = (raw: unknown, index: number): CharacterBookEntry | null => {
+  const entry = asRecord(raw);
+  if (!entry) return null;
+
+  const extensions = asRecord(entry.extensions);
+  const position = asString(entry.position);
+
+  return {
+    id: asNumber(entry.id) ?? index,
+    keys: asStringArray(entry.keys) ?? [],
+    secondaryKeys: asStringArray(entry.secondary_keys),
+    content: asString(entry.content) ?? "",
+    extensions,
+    enabled: asBoolean(entry.enabled) ?? true,
+    insertionOrder: asNumber(entry.insertion_order) ?? 100,
+    caseSensitive: asBoolean(entry.case_sensitive),
+    name: asString(entry.name),
+    priority: asNumber(entry.priority),
+    position: extensions?.position === ST_POSITION_AT_DEPTH ? "at_depth" : ENTRY_POSITIONS.find((p) => p === position),
+    useRegex: asBoolean(entry.use_regex),
+    matchWholeWords: asBoolean(extensions?.match_whole_words),
+    excludeRecursion: asBoolean(extensions?.exclude_recursion),
+    preventRecursion: asBoolean(extensions?.prevent_recursion),
+    selective: asBoolean(entry.selective),
+    selectiveLogic: asNumber(extensions?.selectiveLogic),
+    group: asString(extensions?.group) || undefined,
+    groupOverride: asBoolean(extensions?.group_override),
+    comment: asString(entry.comment),
+    constant: asBoolean(entry.constant),
+    depth: asNumber(extensions?.depth),
+  };
+};
+
+// Parse a lorebook (character_book) from card JSON
+export const parseCharacterBook = (raw: unknown): CharacterBook | undefined => {
+  const book = asRecord(raw);
+  if (!book || !Array.isArray(book.entries)) return undefined;
+
+  return {
+    name: asString(book.name),
+    description: asString(book.description),
+    entries: book.entries
+      .map((entry, index) => parseCharacterBookEntry(entry, index))
+      .filter((entry): entry is CharacterBookEntry => entry !== null),
+    scanDepth: asNumber(book.scan_depth),
+    tokenBudget: asNumber(book.token_budget),
+    recursiveScanning: asBoolean(book.recursive_scanning),
+    extensions: asRecord(book.extensions),
+  };
+};
+
+// Parse the card fields shared by V1 (top level) and V2/V3 (data object)
+const parseCardFields = (data: Record<string, unknown>, fallbackName: string): Character => {
+  const avatar = asString(data.avatar);
+
+  return {
+    id: generateId(),
+    name: asString(data.name) ?? fallbackName,
+    description: asString(data.description) ?? "",
+    firstMessage: asString(data.first_mes) ?? "Hello!",
+    personality: asString(data.personality),
+    scenario: asString(data.scenario),
+    creatorNotes: asString(data.creator_notes),
+    tags: asStringArray(data.tags),
+    // "none" is the V1 placeholder for "no avatar"
+    avatar: avatar && avatar !== "none" ? avatar : undefined,
+    creator: asString(data.creator),
+    characterVersion: asString(data.character_version),
+    systemPrompt: asString(data.system_prompt),
+    postHistoryInstructions: asString(data.post_history_instructions),
+    mesExample: asString(data.mes_example),
+    characterBook: parseCharacterBook(data.character_book),
+    alternateGreetings: asStringArray(data.alternate_greetings),
+    nickname: asString(data.nickname),
+    creatorNotesMultilingual: asStringRecord(data.creator_notes_multilingual),
+    groupOnlyGreetings: asStringArray(data.group_only_greetings),
+    assets: asAssets(data.assets),
+    source: asStringArray(data.source),
+    creationDate: asNumber(data.creation_date),
+    modificationDate: asNumber(data.modification_date),
+    extensions: asRecord(data.extensions),
+    createdAt: Date.now(),
+  };
+};
+
+// Parse character card JSON (V1, V2 or V3)
 export const parseSillyTavernCard = (json: unknown): Character | null => {
   try {
     const card = json as Record<string, unknown>;
 
-    // Handle V2 format (has data field)
-    if (card.spec === "chara_card_v2" && card.data) {
-      const data = card.data as Record<string, unknown>;
+    // Handle V2/V3 format (has data field)
+    if ((card.spec === "chara_card_v2" || card.spec === "chara_card_v3") && asRecord(card.data)) {
       return {
-        id: generateId(),
-        name: typeof data.name === "string" ? data.name : "Unknown Character",
-        description: typeof data.description === "string" ? data.description : "",
-        firstMessage: typeof data.first_mes === "string" ? data.first_mes : "Hello!",
-        scenario: typeof data.scenario === "string" ? data.scenario : undefined,
-        systemPrompt: typeof data.system_prompt === "string" ? data.system_prompt : undefined,
-        postHistoryInstructions: typeof data.post_history_instructions === "string" ? data.post_history_instructions : undefined,
-        mesExample: typeof data.mes_example === "string" ? data.mes_example : undefined,
-        alternateGreetings: Array.isArray(data.alternate_greetings) ? data.alternate_greetings.filter((g): g is string => typeof g === "string") : undefined,
-        createdAt: Date.now(),
+        ...parseCardFields(card.data as Record<string, unknown>, "Unknown Character"),
+        cardSpec: card.spec,
       };
     }
 
     // Handle V1 format (flat structure)
     if (typeof card.name === "string") {
-      return {
-        id: generateId(),
-        name: card.name,
-        description: typeof card.description === "string" ? card.description : "",
-        firstMessage: typeof card.first_mes === "string" ? card.first_mes : "Hello!",
-        scenario: typeof card.scenario === "string" ? card.scenario : undefined,
-        systemPrompt: typeof card.system_prompt === "string" ? card.system_prompt : undefined,
-        postHistoryInstructions: typeof card.post_history_instructions === "string" ? card.post_history_instructions : undefined,
-        mesExample: typeof card.mes_example === "string" ? card.mes_example : undefined,
-        alternateGreetings: Array.isArray(card.alternate_greetings) ? card.alternate_greetings.filter((g): g is string => typeof g === "string") : undefined,
-        createdAt: Date.now(),
-      };
+      return parseCardFields(card, card.name);
     }
 
     return null;
@@ -58,8 +188,8 @@ export const isValidSillyTavernCard = (json: unknown): boolean => {
 
   const card = json as Record<string, unknown>;
 
-  // V2 format check
-  if (card.spec === "chara_card_v2" && card.data) {
+  // V2/V3 format check
+  if ((card.spec === "chara_card_v2" || card.spec === "chara_card_v3") && card.data) {
     const data = card.data as Record<string, unknown>;
     return typeof data.name === "string";
   }
@@ -68,10 +198,86 @@ export const isValidSillyTavernCard = (json: unknown): boolean => {
   return typeof card.name === "string";
 };
 
-// Read and parse JSON file
+// Card chunk keywords, in order of preference (V3 carries the most data)
+const PNG_CARD_KEYWORDS = ["ccv3", "chara"];
+
+// Extract the embedded character card JSON from PNG bytes
+export const extractCardFromPng = (bytes: Uint8Array): { card: unknown } | { error: string } => {
+  let textChunks: Record<string, string>;
+  try {
+    textChunks = readPngTextChunks(bytes);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Failed to read PNG file" };
+  }
+
+  const keyword = PNG_CARD_KEYWORDS.find((k) => k in textChunks);
+  if (!keyword) {
+    return { error: "This PNG does not contain character card data (no 'chara' or 'ccv3' text chunk found)." };
+  }
+
+  let decoded: string;
+  try {
+    decoded = new TextDecoder("utf-8").decode(base64ToBytes(textChunks[keyword]));
+  } catch {
+    return { error: `The '${keyword}' chunk in this PNG is not valid base64 data.` };
+  }
+
+  try {
+    return { card: JSON.parse(decoded) };
+  } catch {
+    return { error: `The '${keyword}' chunk in this PNG does not contain valid JSON.` };
+  }
+};
+
+// Validate and parse card JSON into a Character
+const cardJsonToCharacter = (json: unknown): Character | { error: string } => {
+  if (!isValidSillyTavernCard(json)) {
+    return { error: "Invalid character card format. Expected a JSON with 'name' field." };
+  }
+
+  const character = parseSillyTavernCard(json);
+  return character || { error: "Failed to parse character card" };
+};
+
+// Read and parse a PNG character card, keeping the image as the avatar
+const readPngCharacterFile = async (
+  file: File
+): Promise<Character | { error: string }> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (!isPngData(bytes)) {
+      return { error: "Invalid PNG file. The file does not have a PNG signature." };
+    }
+
+    const extracted = extractCardFromPng(bytes);
+    if ("error" in extracted) return extracted;
+
+    const result = cardJsonToCharacter(extracted.card);
+    if ("error" in result) return result;
+
+    return {
+      ...result,
+      avatar: `data:image/png;base64,${bytesToBase64(bytes)}`,
+    };
+  } catch {
+    return { error: "Failed to read file" };
+  }
+};
+
+// Check whether a file should be treated as a PNG card
+const isPngFile = (file: File): boolean => {
+  return file.type === "image/png" || file.name.toLowerCase().endsWith(".png");
+};
+
+// Read and parse a character file (JSON or PNG card)
 export const readCharacterFile = async (
   file: File
 ): Promise<Character | { error: string }> => {
+  if (isPngFile(file)) {
+    return readPngCharacterFile(file);
+  }
+
   return new Promise((resolve) => {
     const reader = new FileReader();
 
@@ -79,18 +285,7 @@ export const readCharacterFile = async (
       try {
         const content = e.target?.result as string;
         const json = JSON.parse(content);
-
-        if (!isValidSillyTavernCard(json)) {
-          resolve({ error: "Invalid character card format. Expected a JSON with 'name' field." });
-          return;
-        }
-
-        const character = parseSillyTavernCard(json);
-        if (character) {
-          resolve(character);
-        } else {
-          resolve({ error: "Failed to parse character card" });
-        }
+        resolve(cardJsonToCharacter(json));
       } catch {
         resolve({ error: "Invalid JSON file" });
       }
@@ -104,16 +299,208 @@ export const readCharacterFile = async (
   });
 };
 
-// Convert Character to simple format for export
-export const exportToSillyTavern = (character: Character): string => {
-  const card = {
+// Remove undefined values so exported JSON only contains fields that exist
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+// Convert a lorebook entry to card JSON
+const exportCharacterBookEntry = (
+  entry: CharacterBookEntry,
+  spec: CharacterCardSpec
+): SillyTavernCharacterBookEntry => {
+  // Write our SillyTavern-specific settings back into the extensions they came from
+  const extensions = {
+    ...entry.extensions,
+    ...withoutUndefined({
+      position: entry.position === "at_depth"
+        ? ST_POSITION_AT_DEPTH
+        : entry.extensions?.position === ST_POSITION_AT_DEPTH
+          ? (entry.position === "before_char" ? 0 : 1)
+          : undefined,
+      exclude_recursion: entry.excludeRecursion,
+      prevent_recursion: entry.preventRecursion,
+      selectiveLogic: entry.selectiveLogic,
+      group: entry.group,
+      group_override: entry.groupOverride,
+      depth: entry.depth,
+      match_whole_words: entry.matchWholeWords,
+    }),
+  };
+
+  return withoutUndefined({
+    keys: entry.keys,
+    content: entry.content,
+    extensions,
+    enabled: entry.enabled,
+    insertion_order: entry.insertionOrder,
+    case_sensitive: entry.caseSensitive,
+    use_regex: spec === "chara_card_v3" ? entry.useRegex ?? false : undefined,
+    name: entry.name,
+    priority: entry.priority,
+    id: entry.id,
+    comment: entry.comment,
+    selective: entry.selective,
+    secondary_keys: entry.secondaryKeys,
+    constant: entry.constant,
+    // at_depth is not a spec position; SillyTavern writes "after_char" for it
+    position: entry.position === "at_depth" ? "after_char" : entry.position,
+  });
+};
+
+// Convert a lorebook to card JSON
+export const exportCharacterBook = (
+  book: CharacterBook,
+  spec: CharacterCardSpec = "chara_card_v2"
+): SillyTavernCharacterBook => {
+  return withoutUndefined({
+    name: book.name,
+    description: book.description,
+    scan_depth: book.scanDepth,
+    token_budget: book.tokenBudget,
+    recursive_scanning: book.recursiveScanning,
+    extensions: book.extensions ?? {},
+    entries: book.entries.map((entry) => exportCharacterBookEntry(entry, spec)),
+  });
+};
+
+// Build the card "data" object for a spec
+const buildCardData = (character: Character, spec: CharacterCardSpec): SillyTavernCharacterCardData => {
+  const data: SillyTavernCharacterCardData = {
     name: character.name,
     description: character.description,
+    personality: character.personality ?? "",
+    scenario: character.scenario ?? "",
     first_mes: character.firstMessage,
-    scenario: character.scenario,
+    mes_example: character.mesExample ?? "",
+    creator_notes: character.creatorNotes ?? "",
+    system_prompt: character.systemPrompt ?? "",
+    post_history_instructions: character.postHistoryInstructions ?? "",
+    alternate_greetings: character.alternateGreetings ?? [],
+    character_book: character.characterBook ? exportCharacterBook(character.characterBook, spec) : undefined,
+    tags: character.tags ?? [],
+    creator: character.creator ?? "",
+    character_version: character.characterVersion ?? "",
+    // Embedded images (data URIs) are exported as the PNG itself, not inline
+    avatar: character.avatar && !character.avatar.startsWith("data:") ? character.avatar : undefined,
+    extensions: character.extensions ?? {},
   };
 
-  return JSON.stringify(card, null, 2);
+  if (spec === "chara_card_v3") {
+    Object.assign(data, {
+      nickname: character.nickname,
+      creator_notes_multilingual: character.creatorNotesMultilingual,
+      group_only_greetings: character.groupOnlyGreetings ?? [],
+      assets: character.assets,
+      source: character.source,
+      creation_date: character.creationDate,
+      modification_date: character.modificationDate,
+    });
+  }
+
+  return withoutUndefined(data);
+};
+
+// Build a full character card object (V2 by default, or the spec the card was imported from)
+export const buildCharacterCard = (
+  character: Character,
+  spec: CharacterCardSpec = character.cardSpec ?? "chara_card_v2"
+): SillyTavernCharacterCard => {
+  return {
+    spec,
+    spec_version: spec === "chara_card_v3" ? "3.0" : "2.0",
+    data: buildCardData(character, spec),
+  };
+};
+
+// Convert Character to SillyTavern card JSON for export
+export const exportToSillyTavern = (
+  character: Character,
+  spec: CharacterCardSpec = character.cardSpec ?? "chara_card_v2"
+): string => {
+  return JSON.stringify(buildCharacterCard(character, spec), null, 2);
+};
+
+// Encode a card object the way PNG cards store it (base64 of UTF-8 JSON)
+const encodeCardForPng = (card: SillyTavernCharacterCard): string => {
+  return bytesToBase64(new TextEncoder().encode(JSON.stringify(card)));
+};
+
+// Get a PNG rendering of a canvas
+const canvasToPngBytes = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Failed to render PNG image");
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+// Draw a placeholder card image (gradient with the character's initial)
+const renderPlaceholderAvatar = async (character: Character): Promise<Uint8Array> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = 400;
+  canvas.height = 600;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, "#a855f7");
+  gradient.addColorStop(1, "#ec4899");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "600 200px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(character.name.charAt(0).toUpperCase() || "?", canvas.width / 2, canvas.height / 2);
+
+  return canvasToPngBytes(canvas);
+};
+
+// Convert any loadable image (URL or data URI) to PNG bytes
+const renderImageAsPng = async (src: string): Promise<Uint8Array> => {
+  const image = new Image();
+  image.crossOrigin = "anonymous";
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("Failed to load avatar image"));
+    image.src = src;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.drawImage(image, 0, 0);
+
+  return canvasToPngBytes(canvas);
+};
+
+// Get the base image for a PNG card: the avatar if usable, otherwise a placeholder
+const getCardImage = async (character: Character): Promise<Uint8Array> => {
+  const avatar = character.avatar;
+  if (avatar) {
+    // PNG data URIs are used as-is (old card chunks get replaced)
+    if (avatar.startsWith("data:image/png;base64,")) {
+      const bytes = base64ToBytes(avatar.slice("data:image/png;base64,".length));
+      if (isPngData(bytes)) return bytes;
+    }
+    try {
+      return await renderImageAsPng(avatar);
+    } catch {
+      // Unloadable (or cross-origin) avatar - fall back to the placeholder
+    }
+  }
+  return renderPlaceholderAvatar(character);
+};
+
+// Convert Character to a PNG card with the V2 card in "chara" and the V3 card in "ccv3"
+export const exportToPngCard = async (character: Character): Promise<Blob> => {
+  const image = await getCardImage(character);
+  const png = setPngTextChunks(image, {
+    chara: encodeCardForPng(buildCharacterCard(character, "chara_card_v2")),
+    ccv3: encodeCardForPng(buildCharacterCard(character, "chara_card_v3")),
+  });
+  return new Blob([png as BlobPart], { type: "image/png" });
 };
 
 // Build system prompt from character
@@ -135,6 +522,11 @@ export const buildCharacterSystemPrompt = (
     contextSections.push(`[Character Description]\n${character.description}`);
   }
   
+  // Personality summary
+  if (character.personality) {
+    contextSections.push(`[Personality]\n${character.personality}`);
+  }
+  
   // Scenario
   if (character.scenario) {
     contextSections.push(`[Scenario]\n${character.scenario}`);
@@ -188,171 +580,153 @@ export const buildCharacterSystemPrompt = (
   return [...contextSections, ...instructionSections, ...constraintSections].join("\n\n");
 };
 
-// Scan messages for lorebook keyword matches
-const scanForLorebookEntries = (
-  messages: Message[],
-  characterBook: CharacterBook | undefined,
+// Lorebook entries that fire for the recent messages of a chat (one scan per generation: its result
+// fills both the system prompt and the at_depth insertions)
+// The character's own book comes first, then attached world lorebooks in precedence order
+export const scanCharacterLorebooks = (
+  character: Character,
   personaName: string,
-  characterName: string
-): string[] => {
-  if (!characterBook?.entries?.length) return [];
-  
-  const scanDepth = characterBook.scanDepth || 2;
-  const messagesToScan = messages.slice(-scanDepth);
-  
-  // Combine message content for scanning
-  const recentText = messagesToScan
-    .map(m => m.content)
-    .join(" ")
-    .replace(/\{\{char\}\}/gi, characterName)
-    .replace(/\{\{user\}\}/gi, personaName)
-    .toLowerCase();
-  
-  const matchedContents: string[] = [];
-  
-  for (const entry of characterBook.entries) {
-    if (!entry.enabled) continue;
-    
-    // Constant entries are always included
-    if (entry.constant) {
-      const content = entry.content
-        .replace(/\{\{char\}\}/gi, characterName)
-        .replace(/\{\{user\}\}/gi, personaName);
-      matchedContents.push(content);
-      continue;
-    }
-    
-    // Check for keyword matches
-    const keys = entry.keys || [];
-    const secondaryKeys = entry.secondaryKeys || [];
-    
-    let primaryMatch = false;
-    let secondaryMatch = false;
-    
-    // Check primary keys
-    for (const key of keys) {
-      const searchKey = entry.caseSensitive ? key : key.toLowerCase();
-      const searchText = entry.caseSensitive ? recentText : recentText.toLowerCase();
-      if (searchText.includes(searchKey)) {
-        primaryMatch = true;
-        break;
-      }
-    }
-    
-    // Check secondary keys if primary matched
-    if (primaryMatch && secondaryKeys.length > 0) {
-      for (const key of secondaryKeys) {
-        const searchKey = entry.caseSensitive ? key : key.toLowerCase();
-        const searchText = entry.caseSensitive ? recentText : recentText.toLowerCase();
-        if (searchText.includes(searchKey)) {
-          secondaryMatch = true;
-          break;
-        }
-      }
-      // If secondary keys exist but none matched, skip this entry
-      if (!secondaryMatch) continue;
-    }
-    
-    if (primaryMatch) {
-      const content = entry.content
-        .replace(/\{\{char\}\}/gi, characterName)
-        .replace(/\{\{user\}\}/gi, personaName);
-      matchedContents.push(content);
-    }
-  }
-  
-  // Sort by insertion order
-  matchedContents.sort((a, b) => {
-    // We can't access insertionOrder from here, but entries are already sorted
-    return 0;
+  messages: Message[],
+  attachedLorebooks: CharacterBook[] = []
+): LorebookScanResult =>
+  scanLorebooks(messages, [character.characterBook, ...attachedLorebooks], {
+    personaName,
+    characterName: character.name,
   });
-  
-  return matchedContents;
-};
 
-// Build full system prompt with lorebook support
+// Build the full system prompt with lorebook support, as sections tagged for the context budget
 // Follows guideline: [Context] [Main instructions] [Negative constraints at end]
-export const buildFullSystemPrompt = (
+export const buildSystemPromptSections = (
   character: Character,
   personaName: string,
   personaDescription: string,
-  messages: Message[],
-  globalInstructions?: GlobalInstructions
-): string => {
-  const contextSections: string[] = [];
-  const instructionSections: string[] = [];
-  const constraintSections: string[] = [];
+  lorebook: LorebookScanResult, // See scanCharacterLorebooks
+  globalInstructions?: GlobalInstructions,
+  storySummary?: string,
+  recalledMemories?: string
+): PromptSection[] => {
+  const contextSections: PromptSection[] = [];
+  const instructionSections: PromptSection[] = [];
+  const constraintSections: PromptSection[] = [];
   
   // === CONTEXT AND SOURCE MATERIAL ===
   
+  // Lorebook entries grouped by position
+  const pushLorebook = (contents: string[]) => {
+    if (contents.length > 0) {
+      contextSections.push({ kind: "lorebook", text: `[World Knowledge]\n${contents.join("\n\n")}` });
+    }
+  };
+  
+  pushLorebook(lorebook.byPosition.before_char);
+  
   // Character description
   if (character.description) {
-    contextSections.push(`[Character Description]\n${character.description}`);
+    contextSections.push({ kind: "system", text: `[Character Description]\n${character.description}` });
+  }
+  
+  // Personality summary
+  if (character.personality) {
+    contextSections.push({ kind: "system", text: `[Personality]\n${character.personality}` });
   }
   
+  pushLorebook(lorebook.byPosition.after_char);
+  
   // Scenario
   if (character.scenario) {
-    contextSections.push(`[Scenario]\n${character.scenario}`);
+    contextSections.push({ kind: "system", text: `[Scenario]\n${character.scenario}` });
   }
   
   // User persona info
-  contextSections.push(`[User]\nThe user is roleplaying as ${personaName}.${personaDescription ? ` ${personaDescription}` : ""}`);
+  contextSections.push({ kind: "persona", text: `[User]\nThe user is roleplaying as ${personaName}.${personaDescription ? ` ${personaDescription}` : ""}` });
+  
+  pushLorebook(lorebook.byPosition.before_example);
   
   // Example messages (dialogue examples)
   if (character.mesExample) {
     const exampleText = character.mesExample
       .replace(/\{\{char\}\}/gi, character.name)
       .replace(/\{\{user\}\}/gi, personaName);
-    contextSections.push(`[Example Dialogue]\n${exampleText}`);
+    contextSections.push({ kind: "examples", text: `[Example Dialogue]\n${exampleText}` });
   }
   
-  // Lorebook content (world knowledge) - part of context
-  if (character.characterBook) {
-    const lorebookContent = scanForLorebookEntries(
-      messages,
-      character.characterBook,
-      personaName,
-      character.name
-    );
-    
-    if (lorebookContent.length > 0) {
-      contextSections.push(`[World Knowledge]\n${lorebookContent.join("\n\n")}`);
-    }
+  // Lorebook content (world knowledge) - default position, after the examples
+  pushLorebook(lorebook.byPosition.after_example);
+  
+  // Rolling summary of the messages that no longer fit into the context
+  if (storySummary) {
+    contextSections.push({ kind: "summary", text: `[Story So Far]\n${storySummary}` });
+  }
+  
+  // Earlier messages related to the latest one (memory recall)
+  if (recalledMemories) {
+    contextSections.push({ kind: "memory", text: `[Relevant Memories]\n${recalledMemories}` });
   }
   
   // === MAIN TASK INSTRUCTIONS ===
   
   // Main system prompt - priority: global override > character override > default
   if (globalInstructions?.systemPrompt) {
-    instructionSections.push(globalInstructions.systemPrompt);
+    instructionSections.push({ kind: "system", text: globalInstructions.systemPrompt });
   } else if (character.systemPrompt) {
-    instructionSections.push(character.systemPrompt);
+    instructionSections.push({ kind: "system", text: character.systemPrompt });
   } else {
-    instructionSections.push(`You are ${character.name}.`);
+    instructionSections.push({ kind: "system", text: `You are ${character.name}.` });
   }
   
   // Post-history instructions - priority: global > character
   if (globalInstructions?.postHistoryInstructions) {
-    instructionSections.push(`[Instructions]\n${globalInstructions.postHistoryInstructions}`);
+    instructionSections.push({ kind: "system", text: `[Instructions]\n${globalInstructions.postHistoryInstructions}` });
   } else if (character.postHistoryInstructions) {
-    instructionSections.push(`[Instructions]\n${character.postHistoryInstructions}`);
+    instructionSections.push({ kind: "system", text: `[Instructions]\n${character.postHistoryInstructions}` });
   }
   
   // Custom instructions
   if (globalInstructions?.customInstructions) {
-    instructionSections.push(`[Additional Instructions]\n${globalInstructions.customInstructions}`);
+    instructionSections.push({ kind: "system", text: `[Additional Instructions]\n${globalInstructions.customInstructions}` });
   }
   
   // === NEGATIVE AND FORMATTING CONSTRAINTS (at the end) ===
   
   // Jailbreak instructions (if enabled) - placed near end as it's a constraint
   if (globalInstructions?.enableJailbreak && globalInstructions.jailbreakInstructions) {
-    constraintSections.push(globalInstructions.jailbreakInstructions);
+    constraintSections.push({ kind: "system", text: globalInstructions.jailbreakInstructions });
   }
   
   // Final instruction - core constraint at the very end
-  constraintSections.push("Stay in character at all times. Respond naturally and engage with the roleplay scenario. Do not break character or acknowledge that you are an AI.");
+  constraintSections.push({
+    kind: "system",
+    text: "Stay in character at all times. Respond naturally and engage with the roleplay scenario. Do not break character or acknowledge that you are an AI.",
+  });
   
   // Combine: Context -> Instructions -> Constraints
-  return [...contextSections, ...instructionSections, ...constraintSections].join("\n\n");
+  return [...contextSections, ...instructionSections, ...constraintSections];
 };
+
+// The system prompt text of its sections
+export const joinPromptSections = (sections: PromptSection[]): string =>
+  sections.map((section) => section.text).join("\n\n");
+
+// Build full system prompt with lorebook support
+export const buildFullSystemPrompt = (
+  character: Character,
+  personaName: string,
+  personaDescription: string,
+  messages: Message[],
+  globalInstructions?: GlobalInstructions,
+  attachedLorebooks: CharacterBook[] = [],
+  storySummary?: string,
+  recalledMemories?: string
+): string =>
+  joinPromptSections(
+    buildSystemPromptSections(
+      character,
+      personaName,
+      personaDescription,
+      scanCharacterLorebooks(character, personaName, messages, attachedLorebooks),
+      globalInstructions,
+      storySummary,
+      recalledMemories
+    )
+  );
+
@@ -0,0 +1,158 @@
+// Context budget manager
+// Fits the system prompt and chat history into the context window. When they are too long, messages
+// the story summary covers go first, then the optional parts in the configured order (example
+// dialogue, lorebook content, oldest history); pinned messages and the latest message are always
+// kept. The context map records where the tokens went and what was cut.
+
+import { ContextDropTarget, Message, PromptSection, PromptSectionKind } from "./types";
+import { TokenCounter, countMessageTokens } from "./tokenizer";
+import { joinPromptSections } from "./character-import";
+
+export const DEFAULT_CONTEXT_DROP_ORDER: ContextDropTarget[] = ["examples", "lorebook", "history"];
+export const DEFAULT_REPLY_RESERVE_TOKENS = 1000;
+
+export const CONTEXT_DROP_TARGET_NAMES: Record<ContextDropTarget, string> = {
+  examples: "Example dialogue",
+  lorebook: "Lorebook entries",
+  history: "Oldest chat history",
+};
+
+// Where prompt tokens go (lorebook includes entries inserted into the history)
+export type ContextCategory = PromptSectionKind | "history";
+
+export const CONTEXT_CATEGORY_NAMES: Record<ContextCategory, string> = {
+  system: "System prompt",
+  persona: "Persona",
+  lorebook: "Lorebook",
+  examples: "Examples",
+  summary: "Story so far",
+  memory: "Recalled memories",
+  history: "History",
+};
+
+// A history message left out of the request
+export interface CutMessage {
+  index: number; // In the conversation
+  role: Message["role"];
+  preview: string;
+  tokens: number;
+}
+
+export interface ContextMap {
+  maxContextTokens: number;
+  reserveTokens: number; // Kept free for the reply
+  tokenizer: string;
+  exact: boolean;
+  used: Record<ContextCategory, number>; // Tokens sent per category
+  dropped: Record<ContextCategory, number>; // Tokens left out per category
+  cutMessages: CutMessage[];
+  overBudget: boolean; // Still too long with everything droppable dropped
+}
+
+export interface ContextBudgetOptions {
+  maxContextTokens: number;
+  reserveTokens: number;
+  dropOrder: ContextDropTarget[];
+  tokenCounter: TokenCounter;
+  summarizedCount?: number; // Leading conversation messages covered by the story summary (dropped first)
+}
+
+const PREVIEW_LENGTH = 80;
+const CATEGORIES: ContextCategory[] = ["system", "persona", "lorebook", "examples", "summary", "memory", "history"];
+
+const emptyTotals = (): Record<ContextCategory, number> =>
+  Object.fromEntries(CATEGORIES.map((category) => [category, 0])) as Record<ContextCategory, number>;
+
+const messageCategory = (message: Message): ContextCategory => (message.lorebookInsertion ? "lorebook" : "history");
+
+// Fit the system prompt sections and messages (with lorebook insertions) into the context budget
+export const fitToContext = (
+  sections: PromptSection[],
+  messages: Message[],
+  options: ContextBudgetOptions
+): { systemPrompt: string; messages: Message[]; contextMap: ContextMap } => {
+  const { tokenCounter } = options;
+  const budget = options.maxContextTokens - options.reserveTokens;
+  const sectionTokens = sections.map((section) => tokenCounter.count(section.text));
+  const messageTokens = messages.map((message) => countMessageTokens(message, tokenCounter));
+  const keepSection = sections.map(() => true);
+  const keepMessage = messages.map(() => true);
+  let total = [...sectionTokens, ...messageTokens].reduce((sum, tokens) => sum + tokens, 0);
+
+  // Position of each message in the conversation (inserted lorebook messages have none)
+  let nextIndex = 0;
+  const conversationIndexes = messages.map((message) => (message.lorebookInsertion ? -1 : nextIndex++));
+  const isDroppableHistory = (message: Message, i: number) =>
+    !message.pinned && !message.lorebookInsertion && i < messages.length - 1;
+
+  // What a drop target may remove, in removal order
+  const candidates = (target: ContextDropTarget | "summarized"): { section?: number; message?: number }[] => {
+    const result: { section?: number; message?: number }[] = [];
+    if (target === "history" || target === "summarized") {
+      // Oldest first; the last message is the one the model answers
+      messages.forEach((message, i) => {
+        if (!isDroppableHistory(message, i)) return;
+        if (target === "history" || conversationIndexes[i] < (options.summarizedCount ?? 0)) result.push({ message: i });
+      });
+      return result;
+    }
+    // Sections from the end of the prompt first, then (lorebook) the entries inserted into the history
+    for (let i = sections.length - 1; i >= 0; i--) {
+      if (sections[i].kind === target) result.push({ section: i });
+    }
+    if (target === "lorebook") {
+      messages.forEach((message, i) => {
+        if (message.lorebookInsertion) result.push({ message: i });
+      });
+    }
+    return result;
+  };
+
+  // Messages the summary already covers go before anything else
+  for (const target of ["summarized" as const, ...options.dropOrder]) {
+    for (const candidate of candidates(target)) {
+      if (total <= budget) break;
+      if (candidate.section !== undefined) {
+        keepSection[candidate.section] = false;
+        total -= sectionTokens[candidate.section];
+      } else if (candidate.message !== undefined) {
+        keepMessage[candidate.message] = false;
+        total -= messageTokens[candidate.message];
+      }
+    }
+  }
+
+  const used = emptyTotals();
+  const dropped = emptyTotals();
+  sections.forEach((section, i) => {
+    (keepSection[i] ? used : dropped)[section.kind] += sectionTokens[i];
+  });
+
+  const cutMessages: CutMessage[] = [];
+  messages.forEach((message, i) => {
+    (keepMessage[i] ? used : dropped)[messageCategory(message)] += messageTokens[i];
+    if (!keepMessage[i] && !message.lorebookInsertion) {
+      cutMessages.push({
+        index: conversationIndexes[i],
+        role: message.role,
+        preview: message.content.length > PREVIEW_LENGTH ? `${message.content.slice(0, PREVIEW_LENGTH)}...` : message.content,
+        tokens: messageTokens[i],
+      });
+    }
+  });
+
+  return {
+    systemPrompt: joinPromptSections(sections.filter((_, i) => keepSection[i])),
+    messages: messages.filter((_, i) => keepMessage[i]),
+    contextMap: {
+      maxContextTokens: options.maxContextTokens,
+      reserveTokens: options.reserveTokens,
+      tokenizer: tokenCounter.name,
+      exact: tokenCounter.exact,
+      used,
+      dropped,
+      cutMessages,
+      overBudget: total > budget,
+    },
+  };
+};
@@ -0,0 +1,14 @@
+// Web Worker running the local embedding model off the main thread
+// Receives { id, texts } and answers { id, vectors }, or { id, error } when the model can't run
+// (e.g. its download failed)
+
+import { embedLocally } from "./local-embeddings";
+
+self.onmessage = async (event: MessageEvent<{ id: number; texts: string[] }>) => {
+  const { id, texts } = event.data;
+  try {
+    self.postMessage({ id, vectors: await embedLocally(texts) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : "Unknown error" });
+  }
+};
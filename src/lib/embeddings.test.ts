@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from "vitest";
+import { LOCAL_EMBEDDING_SOURCE } from "./embeddings";
+
+// The model itself is downloaded from the Hugging Face Hub; a stand-in returns one vector per text
+const runModel = vi.fn(async (texts: string[]) => ({ tolist: () => texts.map((text) => [text.length, 0]) }));
+vi.mock("@huggingface/transformers", () => ({ pipeline: async () => runModel }));
+
+describe("LOCAL_EMBEDDING_SOURCE", () => {
+  it("embeds texts with the local model without a worker", async () => {
+    const texts = Array.from({ length: 20 }, (_, i) => "x".repeat(i + 1));
+    const vectors = await LOCAL_EMBEDDING_SOURCE.embed(texts, "document");
+    expect(vectors).toHaveLength(20);
+    expect(vectors[19]).toEqual([20, 0]);
+    expect(runModel).toHaveBeenCalledWith(texts.slice(0, 16), { pooling: "mean", normalize: true });
+  });
+
+  it("rejects an aborted request", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(LOCAL_EMBEDDING_SOURCE.embed(["text"], "query", controller.signal)).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+});
@@ -0,0 +1,100 @@
+// Embedding sources for memory recall
+// Vectors come from a provider's embedding endpoint, or from the local model running in a Web Worker
+// (on the main thread where workers aren't available). Vectors of different sources can't be
+// compared, so stored vectors are kept per source id.
+
+import { ProviderConfig } from "./types";
+import { EmbeddingPurpose, getProviderAdapter } from "./providers";
+import { LOCAL_EMBEDDING_MODEL, embedLocally } from "./local-embeddings";
+
+export interface EmbeddingSource {
+  id: string;
+  name: string;
+  embed: (texts: string[], purpose: EmbeddingPurpose, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+const EMBED_BATCH_SIZE = 64; // Texts per embedding request
+
+// The local model's worker, started on first use; requests are matched to answers by id
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (vectors: number[][]) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker || typeof Worker === "undefined") return worker;
+  try {
+    worker = new Worker(new URL("./embedding-worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<{ id: number; vectors?: number[][]; error?: string }>) => {
+    const { id, vectors, error } = event.data;
+    if (vectors) {
+      pending.get(id)?.resolve(vectors);
+    } else {
+      pending.get(id)?.reject(new Error(`The local embedding model failed: ${error}`));
+    }
+    pending.delete(id);
+  };
+  // A crashed worker fails its open requests; the next request starts a new one
+  worker.onerror = () => {
+    pending.forEach(({ reject }) => reject(new Error("The local embedding model stopped")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+export const LOCAL_EMBEDDING_SOURCE: EmbeddingSource = {
+  id: `local:${LOCAL_EMBEDDING_MODEL}`,
+  name: "Local model (all-MiniLM-L6-v2, in the browser)",
+  embed: async (texts, _purpose, signal) => {
+    signal?.throwIfAborted();
+    const localWorker = getWorker();
+    if (!localWorker) return embedLocally(texts);
+    return new Promise((resolve, reject) => {
+      const id = nextRequestId++;
+      // An aborted request fails right away; the worker's answer to it is ignored
+      const onAbort = () => {
+        pending.delete(id);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      pending.set(id, {
+        resolve: (vectors) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(vectors);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+      localWorker.postMessage({ id, texts });
+    });
+  },
+};
+
+// The embedding endpoint of a provider config, whose selected model is the embedding model (null
+// when the provider has none)
+export const getProviderEmbeddingSource = (config: ProviderConfig): EmbeddingSource | null => {
+  const adapter = getProviderAdapter(config.type);
+  const embed = adapter?.embed;
+  if (!adapter || !embed || !config.selectedModel) return null;
+
+  return {
+    id: `${config.type}:${config.selectedModel}`,
+    name: `${adapter.provider.name} · ${config.selectedModel}`,
+    embed: async (texts, purpose, signal) => {
+      const problem = adapter.validate?.(config);
+      if (problem) throw new Error(problem);
+
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        vectors.push(...(await embed(texts.slice(i, i + EMBED_BATCH_SIZE), config, purpose, signal)));
+      }
+      return vectors;
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import { generateKeyPairSync } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getServiceAccountAccessToken, parseServiceAccount } from "./google-auth";
+
+const keyFile = (privateKey: string) =>
+  JSON.stringify({
+    type: "service_account",
+    client_email: "app@project.iam.gserviceaccount.com",
+    private_key_id: "key-1",
+    private_key: privateKey,
+  });
+
+const newPrivateKey = () =>
+  generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getServiceAccountAccessToken", () => {
+  it("reuses a cached token only for the same private key", async () => {
+    let issued = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ access_token: `token-${++issued}`, expires_in: 3600 })));
+
+    const owner = parseServiceAccount(keyFile(newPrivateKey())).account!;
+    const impostor = parseServiceAccount(keyFile(newPrivateKey())).account!;
+
+    expect(await getServiceAccountAccessToken(owner)).toEqual({ accessToken: "token-1" });
+    expect(await getServiceAccountAccessToken(owner)).toEqual({ accessToken: "token-1" });
+    expect(await getServiceAccountAccessToken(impostor)).toEqual({ accessToken: "token-2" });
+  });
+
+  it("refuses key files naming another token endpoint", () => {
+    const json = JSON.stringify({ ...JSON.parse(keyFile(newPrivateKey())), token_uri: "http://169.254.169.254/token" });
+    expect(parseServiceAccount(json).error).toMatch(/token_uri/);
+  });
+});
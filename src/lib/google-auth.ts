@@ -0,0 +1,155 @@
+// Server-side Google service-account authentication (Vertex AI "full" mode)
+// Mints OAuth access tokens with the JWT bearer flow: a JWT signed with the account's
+// private key is exchanged at the token endpoint. Tokens are cached until shortly before expiry.
+
+import { createHash, createPrivateKey, createPublicKey, createSign, KeyObject } from "crypto";
+
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+// The token endpoint the server posts to. The key file can't choose it (the request would go to any
+// URL a user puts there); a stand-in endpoint for testing is set in the server's environment.
+const getTokenUri = () => process.env.GOOGLE_TOKEN_URI?.trim() || DEFAULT_TOKEN_URI;
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const TOKEN_LIFETIME_SECONDS = 3600;
+const EXPIRY_MARGIN_MS = 60 * 1000; // Refresh a minute early so a token never expires mid-request
+
+export interface ServiceAccount {
+  clientEmail: string;
+  privateKey: KeyObject;
+  privateKeyId?: string;
+  projectId?: string;
+  tokenUri: string; // The server's token endpoint (see getTokenUri)
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+// Parse and validate a service-account JSON key (errors name the field that is wrong)
+export const parseServiceAccount = (json: string): { account?: ServiceAccount; error?: string } => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { error: "Service account JSON is not valid JSON. Paste the whole key file downloaded from the Google Cloud Console." };
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { error: "Service account JSON must be an object" };
+  }
+
+  if (data.type !== undefined && data.type !== "service_account") {
+    return { error: `Service account JSON has type "${String(data.type)}"; a "service_account" key is required` };
+  }
+  if (typeof data.client_email !== "string" || !data.client_email.trim()) {
+    return { error: "Service account JSON is missing \"client_email\"" };
+  }
+  if (typeof data.private_key !== "string" || !data.private_key.trim()) {
+    return { error: "Service account JSON is missing \"private_key\"" };
+  }
+
+  let privateKey: KeyObject;
+  try {
+    // Keys pasted through some editors end up with literal "\n" sequences instead of line breaks
+    privateKey = createPrivateKey(data.private_key.replace(/\\n/g, "\n"));
+  } catch {
+    return { error: "Service account \"private_key\" is not a valid PEM private key" };
+  }
+  if (privateKey.asymmetricKeyType !== "rsa") {
+    return { error: "Service account \"private_key\" must be an RSA key" };
+  }
+
+  // Key files name Google's endpoint; one naming another is refused rather than posted to
+  const tokenUri = getTokenUri();
+  const keyTokenUri = typeof data.token_uri === "string" ? data.token_uri.trim() : "";
+  if (keyTokenUri && keyTokenUri !== DEFAULT_TOKEN_URI && keyTokenUri !== tokenUri) {
+    return { error: `Service account "token_uri" must be ${DEFAULT_TOKEN_URI} (this server doesn't use other token endpoints)` };
+  }
+
+  return {
+    account: {
+      clientEmail: data.client_email.trim(),
+      privateKey,
+      privateKeyId: typeof data.private_key_id === "string" ? data.private_key_id : undefined,
+      projectId: typeof data.project_id === "string" ? data.project_id : undefined,
+      tokenUri,
+    },
+  };
+};
+
+// Signed JWT asserting the account's identity, valid for one hour
+const createAssertion = (account: ServiceAccount): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const header = encode({ alg: "RS256", typ: "JWT", ...(account.privateKeyId ? { kid: account.privateKeyId } : {}) });
+  const claims = encode({
+    iss: account.clientEmail,
+    scope: CLOUD_PLATFORM_SCOPE,
+    aud: account.tokenUri,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+  });
+
+  const signature = createSign("RSA-SHA256").update(`${header}.${claims}`).sign(account.privateKey).toString("base64url");
+  return `${header}.${claims}.${signature}`;
+};
+
+// SHA-256 of the key's public half. Part of the token cache key, so a key file that copies another
+// account's client_email and private_key_id but holds a different key never gets that account's token.
+const getKeyFingerprint = (privateKey: KeyObject): string =>
+  createHash("sha256").update(createPublicKey(privateKey).export({ type: "spki", format: "der" })).digest("hex");
+
+// Get an access token for the account (cached per account, key and token endpoint)
+export const getServiceAccountAccessToken = async (
+  account: ServiceAccount,
+  signal?: AbortSignal
+): Promise<{ accessToken?: string; error?: string }> => {
+  const cacheKey = [
+    account.clientEmail,
+    account.privateKeyId || "",
+    getKeyFingerprint(account.privateKey),
+    account.tokenUri,
+  ].join("|");
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return { accessToken: cached.accessToken };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(account.tokenUri, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: createAssertion(account),
+      }).toString(),
+    });
+  } catch (error) {
+    return { error: `Could not reach the token endpoint ${account.tokenUri}: ${error instanceof Error ? error.message : "Unknown error"}` };
+  }
+
+  let data: { access_token?: string; expires_in?: number; error?: string; error_description?: string };
+  try {
+    data = await response.json();
+  } catch {
+    return { error: `Service account token request failed: HTTP ${response.status} (invalid JSON from ${account.tokenUri})` };
+  }
+
+  if (!response.ok || !data.access_token) {
+    // e.g. invalid_grant: "Invalid JWT Signature." when the key was deleted or revoked
+    const reason = data.error_description || data.error || `HTTP ${response.status}`;
+    return { error: `Service account token request failed: ${reason}` };
+  }
+
+  tokenCache.set(cacheKey, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? TOKEN_LIFETIME_SECONDS) * 1000,
+  });
+  return { accessToken: data.access_token };
+};
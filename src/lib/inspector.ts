@@ -0,0 +1,156 @@
+// Request inspector (prompt debugger)
+// Records what was sent for one generation: the system prompt, the messages left after
+// truncation, and per provider attempt the exact payload (secrets redacted), raw events and timings
+
+import { Message } from "./types";
+import { ProviderConfig, ProviderRequest, RequestObserver } from "./providers";
+import { ContextMap } from "./context-budget";
+
+const MAX_EVENTS = 5000; // Raw events kept per attempt (long replies stream thousands)
+export const MAX_GENERATION_RECORDS = 50; // Kept in memory, newest first
+
+// Which action started the generation
+export type GenerationKind = "reply" | "retry" | "continue" | "regenerate";
+
+// One request to one provider (several when the fallback chain or key rotation moved on)
+export interface GenerationAttempt {
+  provider: string;
+  model?: string;
+  url: string;
+  method: string;
+  payload: unknown; // Request body with API keys and credentials redacted
+  events: unknown[]; // Raw stream events, or the single response body
+  droppedEvents: number; // Events past MAX_EVENTS
+  startedAt: number;
+  firstEventAt?: number;
+  finishedAt?: number;
+  error?: string;
+  status?: number;
+  aborted?: boolean;
+}
+
+export interface GenerationRecord {
+  id: string;
+  kind: GenerationKind;
+  createdAt: number;
+  finishedAt?: number;
+  systemPrompt: string;
+  messages: Message[]; // As sent, after lorebook insertions and truncation
+  contextMap?: ContextMap; // Token use per part of the prompt, and what was cut to fit
+  attempts: GenerationAttempt[];
+}
+
+// Object keys whose values are never shown
+const SECRET_KEY = /^(api[-_]?key|authorization|x-api-key|x-goog-api-key|access[-_]?token|token|secret|password|private[-_]?key|service[-_]?account[-_]?json|extra[-_]?headers)$/i;
+
+// Copy of a request body with secrets replaced (also API keys in URL query strings) and
+// image data shortened
+export const redactSecrets = (value: unknown, key = ""): unknown => {
+  if (SECRET_KEY.test(key) && value) return "[redacted]";
+  // Custom headers often carry credentials: only their names are kept
+  if (key === "headers" && value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.fromEntries(Object.keys(value).map((name) => [name, "[redacted]"]));
+  }
+  if (typeof value === "string") {
+    if (value.startsWith("data:") && value.length > 200) return `${value.slice(0, 64)}... (${value.length} chars)`;
+    return value.replace(/([?&]key=)[^&\s]+/g, "$1[redacted]");
+  }
+  if (Array.isArray(value)) return value.map((item) => redactSecrets(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactSecrets(v, k)]));
+  }
+  return value;
+};
+
+// Messages as recorded: attachments keep their type and size, not the image data
+const summarizeMessages = (messages: Message[]): Message[] =>
+  messages.map((m) =>
+    m.attachments?.length
+      ? { ...m, attachments: m.attachments.map((a) => ({ ...a, data: `(${a.data.length} base64 chars)` })) }
+      : m
+  );
+
+// Start recording a generation. Every change is passed to onUpdate (with a new record object),
+// so the UI can keep the latest version; observer goes into the chat options.
+export const createGenerationRecorder = (
+  generation: { kind: GenerationKind; systemPrompt: string; messages: Message[]; contextMap?: ContextMap },
+  onUpdate: (record: GenerationRecord) => void
+): { id: string; observer: RequestObserver } => {
+  let record: GenerationRecord = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    ...generation,
+    messages: summarizeMessages(generation.messages),
+    attempts: [],
+  };
+
+  // Events arrive often: they are collected in place and published with the next request or finish
+  const update = (changes: Partial<GenerationRecord>) => {
+    record = { ...record, ...changes };
+    onUpdate(record);
+  };
+  const current = (): GenerationAttempt | undefined => record.attempts[record.attempts.length - 1];
+
+  const observer: RequestObserver = {
+    onRequest: (config: ProviderConfig, request: ProviderRequest) => {
+      update({
+        attempts: [
+          ...record.attempts,
+          {
+            provider: config.type,
+            model: config.selectedModel,
+            url: redactSecrets(request.url) as string,
+            method: request.method || "POST",
+            payload: redactSecrets(request.body),
+            events: [],
+            droppedEvents: 0,
+            startedAt: Date.now(),
+          },
+        ],
+      });
+    },
+    onEvent: (event: unknown) => {
+      const attempt = current();
+      if (!attempt) return;
+      attempt.firstEventAt ??= Date.now();
+      if (attempt.events.length < MAX_EVENTS) {
+        attempt.events.push(event);
+      } else {
+        attempt.droppedEvents++;
+      }
+    },
+    onFinish: (result) => {
+      const now = Date.now();
+      const attempt = current();
+      // A request rejected before it was sent (e.g. missing API key) has no attempt yet
+      const finished: GenerationAttempt = attempt && attempt.finishedAt === undefined
+        ? { ...attempt, events: [...attempt.events], finishedAt: now, ...result }
+        : { provider: "", url: "", method: "", payload: null, events: [], droppedEvents: 0, startedAt: now, finishedAt: now, ...result };
+      update({
+        attempts: attempt && attempt.finishedAt === undefined
+          ? [...record.attempts.slice(0, -1), finished]
+          : [...record.attempts, finished],
+        finishedAt: now,
+      });
+    },
+  };
+
+  return { id: record.id, observer };
+};
+
+// JSON export of a record (durations added for reading)
+export const exportGenerationRecord = (record: GenerationRecord): string =>
+  JSON.stringify(
+    {
+      ...record,
+      createdAt: new Date(record.createdAt).toISOString(),
+      durationMs: record.finishedAt !== undefined ? record.finishedAt - record.createdAt : undefined,
+      attempts: record.attempts.map((attempt) => ({
+        ...attempt,
+        timeToFirstEventMs: attempt.firstEventAt !== undefined ? attempt.firstEventAt - attempt.startedAt : undefined,
+        durationMs: attempt.finishedAt !== undefined ? attempt.finishedAt - attempt.startedAt : undefined,
+      })),
+    },
+    null,
+    2
+  );
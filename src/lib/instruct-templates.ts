@@ -0,0 +1,128 @@
+// Instruct templates for text-completion models
+// Renders the chat (system prompt + messages) into the single prompt string a raw
+// completion endpoint expects, ending with an open assistant turn for the model to fill
+
+import { InstructTemplateId, Message, TextCompletionSettings } from "./types";
+
+export interface InstructTemplate {
+  id: InstructTemplateId;
+  name: string;
+  bos?: string; // Written once at the very start of the prompt
+  systemPrefix: string;
+  systemSuffix: string;
+  userPrefix: string;
+  userSuffix: string;
+  assistantPrefix: string;
+  assistantSuffix: string;
+  stopSequences: string[]; // Where the model's turn ends
+}
+
+export const INSTRUCT_TEMPLATES: Record<InstructTemplateId, InstructTemplate> = {
+  chatml: {
+    id: "chatml",
+    name: "ChatML",
+    systemPrefix: "<|im_start|>system\n",
+    systemSuffix: "<|im_end|>\n",
+    userPrefix: "<|im_start|>user\n",
+    userSuffix: "<|im_end|>\n",
+    assistantPrefix: "<|im_start|>assistant\n",
+    assistantSuffix: "<|im_end|>\n",
+    stopSequences: ["<|im_end|>", "<|im_start|>"],
+  },
+  llama3: {
+    id: "llama3",
+    name: "Llama 3",
+    bos: "<|begin_of_text|>",
+    systemPrefix: "<|start_header_id|>system<|end_header_id|>\n\n",
+    systemSuffix: "<|eot_id|>",
+    userPrefix: "<|start_header_id|>user<|end_header_id|>\n\n",
+    userSuffix: "<|eot_id|>",
+    assistantPrefix: "<|start_header_id|>assistant<|end_header_id|>\n\n",
+    assistantSuffix: "<|eot_id|>",
+    stopSequences: ["<|eot_id|>", "<|start_header_id|>"],
+  },
+  alpaca: {
+    id: "alpaca",
+    name: "Alpaca",
+    systemPrefix: "",
+    systemSuffix: "\n\n",
+    userPrefix: "### Instruction:\n",
+    userSuffix: "\n\n",
+    assistantPrefix: "### Response:\n",
+    assistantSuffix: "\n\n",
+    stopSequences: ["### Instruction:", "### Response:"],
+  },
+  mistral: {
+    id: "mistral",
+    name: "Mistral",
+    bos: "<s>",
+    // Mistral has no system role: system text is written as plain text between the turns
+    systemPrefix: "",
+    systemSuffix: "\n\n",
+    userPrefix: "[INST] ",
+    userSuffix: " [/INST]",
+    assistantPrefix: "",
+    assistantSuffix: "</s>",
+    stopSequences: ["</s>", "[INST]"],
+  },
+};
+
+export const DEFAULT_INSTRUCT_TEMPLATE: InstructTemplateId = "chatml";
+
+// Settings of a new text-completion profile
+export const DEFAULT_TEXT_COMPLETION_SETTINGS: TextCompletionSettings = {
+  backend: "koboldcpp",
+  template: DEFAULT_INSTRUCT_TEMPLATE,
+};
+
+export const getInstructTemplate = (id?: InstructTemplateId): InstructTemplate =>
+  INSTRUCT_TEMPLATES[id || DEFAULT_INSTRUCT_TEMPLATE] || INSTRUCT_TEMPLATES[DEFAULT_INSTRUCT_TEMPLATE];
+
+// Render the system prompt and messages into one prompt, ending with an open assistant turn
+// (mid-chat system messages, e.g. lorebook insertions, use the system wrapper)
+export const renderInstructPrompt = (
+  messages: Message[],
+  template: InstructTemplate,
+  systemPrompt?: string
+): string => {
+  const wrap = (role: Message["role"], content: string): string => {
+    switch (role) {
+      case "system":
+        return `${template.systemPrefix}${content}${template.systemSuffix}`;
+      case "assistant":
+        return `${template.assistantPrefix}${content}${template.assistantSuffix}`;
+      default:
+        return `${template.userPrefix}${content}${template.userSuffix}`;
+    }
+  };
+
+  let prompt = template.bos || "";
+  if (systemPrompt?.trim()) {
+    prompt += wrap("system", systemPrompt);
+  }
+  for (const message of messages) {
+    if (!message.content.trim()) continue;
+    prompt += wrap(message.role, message.content);
+  }
+
+  return prompt + template.assistantPrefix;
+};
+
+// The template's stop sequences plus user-defined ones (one per line)
+export const getStopSequences = (template: InstructTemplate, extra?: string): string[] => {
+  const custom = (extra || "")
+    .split("\n")
+    .map((line) => line.replace(/\\n/g, "\n"))
+    .filter((line) => line.trim());
+  return [...new Set([...template.stopSequences, ...custom])];
+};
+
+// Cut generated text at the first stop sequence (some servers include it in the output)
+export const trimAtStopSequence = (text: string, stopSequences: string[]): string => {
+  let end = text.length;
+  for (const stop of stopSequences) {
+    const index = text.indexOf(stop);
+    if (index !== -1 && index < end) end = index;
+  }
+  return text.slice(0, end);
+};
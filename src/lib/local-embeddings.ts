@@ -0,0 +1,38 @@
+// Local text embeddings
+// A small sentence embedding model (all-MiniLM-L6-v2, 8-bit quantized) run in the browser with
+// transformers.js. The model (about 23 MB) is downloaded from the Hugging Face Hub on first use and
+// kept in the browser cache, so later sessions work offline. Like provider embedding models it
+// matches paraphrases, not just shared wording.
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+
+export const LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+export const LOCAL_EMBEDDING_DIMENSIONS = 384;
+
+const LOCAL_BATCH_SIZE = 16; // Texts per model run (bounds memory on long histories)
+
+// The model, loaded on first use (a failed load is retried on the next call)
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+const loadExtractor = (): Promise<FeatureExtractionPipeline> => {
+  if (!extractor) {
+    extractor = import("@huggingface/transformers").then(
+      ({ pipeline }) => pipeline("feature-extraction", LOCAL_EMBEDDING_MODEL, { dtype: "q8" }) as Promise<FeatureExtractionPipeline>
+    );
+    extractor.catch(() => {
+      extractor = null;
+    });
+  }
+  return extractor;
+};
+
+// Embedding vectors of texts (unit length, mean-pooled over the tokens)
+export const embedLocally = async (texts: string[]): Promise<number[][]> => {
+  const model = await loadExtractor();
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+    const output = await model(texts.slice(i, i + LOCAL_BATCH_SIZE), { pooling: "mean", normalize: true });
+    vectors.push(...(output.tolist() as number[][]));
+  }
+  return vectors;
+};
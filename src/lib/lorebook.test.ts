@@ -0,0 +1,332 @@
+import { describe, expect, it } from "vitest";
+import { CharacterBook, CharacterBookEntry, Message } from "./types";
+import { SELECTIVE_LOGIC, insertLorebookDepthEntries, scanLorebook, scanLorebooks } from "./lorebook";
+
+const options = { personaName: "Alex", characterName: "Mira" };
+
+let nextId = 1;
+const entry = (fields: Partial<CharacterBookEntry>): CharacterBookEntry => ({
+  id: nextId++,
+  keys: [],
+  content: "",
+  enabled: true,
+  insertionOrder: 100,
+  ...fields,
+});
+
+const book = (entries: CharacterBookEntry[], fields: Partial<CharacterBook> = {}): CharacterBook => ({
+  entries,
+  extensions: {},
+  ...fields,
+});
+
+const chat = (...contents: string[]): Message[] =>
+  contents.map((content, i) => ({ role: i % 2 === 0 ? "user" : "assistant", content }));
+
+const activatedContents = (messages: Message[], lorebook: CharacterBook) =>
+  scanLorebook(messages, lorebook, options).entries.map((activated) => activated.content);
+
+describe("scanLorebook", () => {
+  it("activates entries whose keys occur in the recent messages", () => {
+    const lorebook = book([
+      entry({ keys: ["castle"], content: "The castle is old." }),
+      entry({ keys: ["dragon"], content: "Dragons breathe fire." }),
+    ]);
+    expect(activatedContents(chat("We reach the castle."), lorebook)).toEqual(["The castle is old."]);
+  });
+
+  it("skips disabled entries and always includes constant entries", () => {
+    const lorebook = book([
+      entry({ keys: ["castle"], content: "Disabled.", enabled: false }),
+      entry({ content: "Always there.", constant: true }),
+    ]);
+    expect(activatedContents(chat("The castle."), lorebook)).toEqual(["Always there."]);
+  });
+
+  it("only scans the last scanDepth messages", () => {
+    const lorebook = book([entry({ keys: ["castle"], content: "Castle lore." })], { scanDepth: 1 });
+    expect(activatedContents(chat("The castle.", "Let's go."), lorebook)).toEqual([]);
+    expect(activatedContents(chat("Let's go.", "The castle."), lorebook)).toEqual(["Castle lore."]);
+  });
+
+  it("scans no messages with a scan depth of 0", () => {
+    const lorebook = book(
+      [entry({ keys: ["castle"], content: "Castle lore." }), entry({ content: "Always there.", constant: true })],
+      { scanDepth: 0 }
+    );
+    expect(activatedContents(chat("The castle.", "The castle again."), lorebook)).toEqual(["Always there."]);
+  });
+
+  it("replaces {{char}} and {{user}} in keys and content", () => {
+    const lorebook = book([entry({ keys: ["{{char}}'s sword"], content: "{{user}} admires it." })]);
+    expect(activatedContents(chat("Mira's sword glows."), lorebook)).toEqual(["Alex admires it."]);
+  });
+
+  describe("insertionOrder", () => {
+    it("orders activated entries by insertion order, then id", () => {
+      const lorebook = book([
+        entry({ content: "Third", constant: true, insertionOrder: 30 }),
+        entry({ content: "First", constant: true, insertionOrder: 10 }),
+        entry({ content: "Second", constant: true, insertionOrder: 20 }),
+        entry({ content: "Fourth", constant: true, insertionOrder: 30 }),
+      ]);
+      expect(activatedContents([], lorebook)).toEqual(["First", "Second", "Third", "Fourth"]);
+    });
+
+    it("keeps insertion order within each position", () => {
+      const lorebook = book([
+        entry({ content: "Later", constant: true, insertionOrder: 50, position: "before_char" }),
+        entry({ content: "Earlier", constant: true, insertionOrder: 5, position: "before_char" }),
+      ]);
+      expect(scanLorebook([], lorebook, options).byPosition.before_char).toEqual(["Earlier", "Later"]);
+    });
+  });
+
+  describe("position", () => {
+    it("places content at each system prompt position", () => {
+      const lorebook = book([
+        entry({ content: "A", constant: true, position: "before_char" }),
+        entry({ content: "B", constant: true, position: "after_char" }),
+        entry({ content: "C", constant: true, position: "before_example" }),
+        entry({ content: "D", constant: true, position: "after_example" }),
+      ]);
+      expect(scanLorebook([], lorebook, options).byPosition).toEqual({
+        before_char: ["A"],
+        after_char: ["B"],
+        before_example: ["C"],
+        after_example: ["D"],
+      });
+    });
+
+    it("defaults to after_example", () => {
+      const lorebook = book([entry({ content: "Default", constant: true })]);
+      expect(scanLorebook([], lorebook, options).byPosition.after_example).toEqual(["Default"]);
+    });
+
+    it("returns at_depth entries as depth insertions (default depth 4)", () => {
+      const lorebook = book([
+        entry({ content: "Deep", constant: true, position: "at_depth", depth: 2 }),
+        entry({ content: "Default depth", constant: true, position: "at_depth" }),
+      ]);
+      const result = scanLorebook([], lorebook, options);
+      expect(result.depthInsertions).toEqual([
+        { depth: 2, content: "Deep" },
+        { depth: 4, content: "Default depth" },
+      ]);
+      expect(Object.values(result.byPosition).flat()).toEqual([]);
+    });
+  });
+
+  describe("tokenBudget", () => {
+    const countTokens = (text: string) => text.length;
+
+    it("drops entries that would overflow the budget", () => {
+      const lorebook = book(
+        [
+          entry({ content: "aaaa", constant: true, insertionOrder: 1 }),
+          entry({ content: "bbbbbb", constant: true, insertionOrder: 2 }),
+          entry({ content: "cc", constant: true, insertionOrder: 3 }),
+        ],
+        { tokenBudget: 7 }
+      );
+      const result = scanLorebook([], lorebook, { ...options, countTokens });
+      expect(result.entries.map((activated) => activated.content)).toEqual(["aaaa", "cc"]);
+      expect(result.entries.map((activated) => activated.tokens)).toEqual([4, 2]);
+    });
+
+    it("is unlimited when unset or zero", () => {
+      const entries = [entry({ content: "x".repeat(5000), constant: true })];
+      expect(activatedContents([], book(entries))).toHaveLength(1);
+      expect(activatedContents([], book(entries, { tokenBudget: 0 }))).toHaveLength(1);
+    });
+  });
+
+  describe("priority", () => {
+    it("fills the budget with constant entries, then higher priority first", () => {
+      const lorebook = book(
+        [
+          entry({ keys: ["castle"], content: "low", priority: 1, insertionOrder: 1 }),
+          entry({ keys: ["castle"], content: "high", priority: 10, insertionOrder: 2 }),
+          entry({ content: "const", constant: true, insertionOrder: 3 }),
+        ],
+        { tokenBudget: 9 }
+      );
+      const result = scanLorebook(chat("The castle."), lorebook, { ...options, countTokens: (text) => text.length });
+      // Placement still follows insertion order
+      expect(result.entries.map((activated) => activated.content)).toEqual(["high", "const"]);
+    });
+  });
+
+  describe("recursive scanning", () => {
+    const entries = () => [
+      entry({ keys: ["castle"], content: "The castle belongs to the king." }),
+      entry({ keys: ["king"], content: "The king has a crown." }),
+      entry({ keys: ["crown"], content: "The crown is cursed." }),
+    ];
+
+    it("lets activated content trigger further entries", () => {
+      expect(activatedContents(chat("The castle."), book(entries(), { recursiveScanning: true }))).toEqual([
+        "The castle belongs to the king.",
+        "The king has a crown.",
+        "The crown is cursed.",
+      ]);
+    });
+
+    it("is off unless enabled", () => {
+      expect(activatedContents(chat("The castle."), book(entries()))).toEqual(["The castle belongs to the king."]);
+    });
+
+    it("honors preventRecursion and excludeRecursion", () => {
+      const [castle, king, crown] = entries();
+      const prevented = book([{ ...castle, preventRecursion: true }, king, crown], { recursiveScanning: true });
+      expect(activatedContents(chat("The castle."), prevented)).toEqual(["The castle belongs to the king."]);
+
+      const excluded = book([castle, { ...king, excludeRecursion: true }, crown], { recursiveScanning: true });
+      expect(activatedContents(chat("The castle."), excluded)).toEqual(["The castle belongs to the king."]);
+    });
+  });
+
+  describe("selectiveLogic", () => {
+    const selectiveEntry = (selectiveLogic: number) =>
+      book([entry({ keys: ["sword"], secondaryKeys: ["fire", "ice"], selective: true, selectiveLogic, content: "Hit" })]);
+    const fires = (selectiveLogic: number, text: string) =>
+      activatedContents(chat(text), selectiveEntry(selectiveLogic)).length > 0;
+
+    it("AND needs at least one secondary key", () => {
+      expect(fires(SELECTIVE_LOGIC.AND, "A sword of fire.")).toBe(true);
+      expect(fires(SELECTIVE_LOGIC.AND, "A plain sword.")).toBe(false);
+    });
+
+    it("NOT fails only when every secondary key matches", () => {
+      expect(fires(SELECTIVE_LOGIC.NOT, "A sword of fire.")).toBe(true);
+      expect(fires(SELECTIVE_LOGIC.NOT, "A sword of fire and ice.")).toBe(false);
+    });
+
+    it("NOT_OR fails when any secondary key matches", () => {
+      expect(fires(SELECTIVE_LOGIC.NOT_OR, "A plain sword.")).toBe(true);
+      expect(fires(SELECTIVE_LOGIC.NOT_OR, "A sword of ice.")).toBe(false);
+    });
+
+    it("AND_ALL needs every secondary key", () => {
+      expect(fires(SELECTIVE_LOGIC.AND_ALL, "A sword of fire and ice.")).toBe(true);
+      expect(fires(SELECTIVE_LOGIC.AND_ALL, "A sword of fire.")).toBe(false);
+    });
+
+    it("ignores secondary keys when the entry isn't selective", () => {
+      const lorebook = book([entry({ keys: ["sword"], secondaryKeys: ["fire"], selective: false, content: "Hit" })]);
+      expect(activatedContents(chat("A plain sword."), lorebook)).toEqual(["Hit"]);
+    });
+
+    it("still requires a primary key", () => {
+      expect(fires(SELECTIVE_LOGIC.AND, "Fire and ice.")).toBe(false);
+    });
+  });
+
+  describe("groups", () => {
+    it("keeps only the most important entry of a group", () => {
+      const lorebook = book([
+        entry({ content: "Low", constant: true, group: "weather", priority: 1 }),
+        entry({ content: "High", constant: true, group: "weather", priority: 5 }),
+        entry({ content: "Other group", constant: true, group: "mood" }),
+        entry({ content: "No group", constant: true }),
+      ]);
+      expect(activatedContents([], lorebook)).toEqual(["High", "Other group", "No group"]);
+    });
+
+    it("lets a groupOverride entry win over more important entries", () => {
+      const lorebook = book([
+        entry({ content: "High", constant: true, group: "weather", priority: 5 }),
+        entry({ content: "Override", constant: true, group: "weather", priority: 1, groupOverride: true }),
+      ]);
+      expect(activatedContents([], lorebook)).toEqual(["Override"]);
+    });
+
+    it("breaks ties by insertion order", () => {
+      const lorebook = book([
+        entry({ content: "Later", constant: true, group: "weather", insertionOrder: 20 }),
+        entry({ content: "Earlier", constant: true, group: "weather", insertionOrder: 10 }),
+      ]);
+      expect(activatedContents([], lorebook)).toEqual(["Earlier"]);
+    });
+  });
+
+  describe("caseSensitive", () => {
+    it("matches keys ignoring case by default", () => {
+      const lorebook = book([entry({ keys: ["Castle"], content: "Lore" })]);
+      expect(activatedContents(chat("the CASTLE"), lorebook)).toEqual(["Lore"]);
+    });
+
+    it("matches the exact case when set", () => {
+      const lorebook = book([entry({ keys: ["Castle"], content: "Lore", caseSensitive: true })]);
+      expect(activatedContents(chat("the castle"), lorebook)).toEqual([]);
+      expect(activatedContents(chat("the Castle"), lorebook)).toEqual(["Lore"]);
+    });
+
+    it("applies to secondary keys", () => {
+      const lorebook = book([
+        entry({ keys: ["sword"], secondaryKeys: ["Fire"], selective: true, caseSensitive: true, content: "Hit" }),
+      ]);
+      expect(activatedContents(chat("a sword of fire"), lorebook)).toEqual([]);
+      expect(activatedContents(chat("a sword of Fire"), lorebook)).toEqual(["Hit"]);
+    });
+  });
+
+  describe("match modes", () => {
+    it("matches whole words only when set", () => {
+      const lorebook = book([entry({ keys: ["cat"], content: "Cat lore", matchWholeWords: true })]);
+      expect(activatedContents(chat("A category."), lorebook)).toEqual([]);
+      expect(activatedContents(chat("A cat."), lorebook)).toEqual(["Cat lore"]);
+    });
+
+    it("matches regex keys and never matches invalid ones", () => {
+      const lorebook = book([
+        entry({ keys: ["/drag(on|in)s?/i"], content: "Regex", useRegex: true }),
+        entry({ keys: ["(unclosed"], content: "Invalid", useRegex: true }),
+      ]);
+      expect(activatedContents(chat("Two DRAGONS (unclosed"), lorebook)).toEqual(["Regex"]);
+    });
+
+    it("treats only keys in /pattern/flags form as regexes outside regex mode", () => {
+      const lorebook = book([
+        entry({ keys: ["/wyrms?/i", "C++"], content: "Mixed" }),
+        entry({ keys: ["Mr. Smith"], content: "Literal" }),
+      ]);
+      expect(activatedContents(chat("I write C++."), lorebook)).toEqual(["Mixed"]);
+      expect(activatedContents(chat("A WYRM."), lorebook)).toEqual(["Mixed"]);
+      expect(activatedContents(chat("Mrs Smith"), lorebook)).toEqual([]);
+    });
+  });
+});
+
+describe("scanLorebooks", () => {
+  it("applies each book's budget on its own and places earlier books first", () => {
+    const first = book([entry({ content: "First book", constant: true, insertionOrder: 50 })], { tokenBudget: 100 });
+    const second = book([entry({ content: "Second book", constant: true, insertionOrder: 1 })], { tokenBudget: 100 });
+    const result = scanLorebooks([], [first, undefined, second], options);
+    expect(result.byPosition.after_example).toEqual(["First book", "Second book"]);
+  });
+});
+
+describe("insertLorebookDepthEntries", () => {
+  it("inserts content the given number of messages from the end", () => {
+    const messages = chat("one", "two", "three");
+    const result = insertLorebookDepthEntries(messages, [
+      { depth: 0, content: "At end" },
+      { depth: 2, content: "Deep" },
+      { depth: 2, content: "Also deep" },
+    ]);
+    expect(result.map((message) => message.content)).toEqual([
+      "one",
+      "[World Knowledge]\nDeep\n\nAlso deep",
+      "two",
+      "three",
+      "[World Knowledge]\nAt end",
+    ]);
+    expect(result[1]).toMatchObject({ role: "system", lorebookInsertion: true });
+  });
+
+  it("puts insertions deeper than the chat at the start", () => {
+    const result = insertLorebookDepthEntries(chat("only"), [{ depth: 10, content: "Deep" }]);
+    expect(result.map((message) => message.content)).toEqual(["[World Knowledge]\nDeep", "only"]);
+  });
+});
@@ -0,0 +1,347 @@
+// Lorebook (Character Book) engine
+// Decides which entries fire for the current chat and where their content goes
+
+import { CharacterBook, CharacterBookEntry, Message } from "./types";
+
+// Where an entry's content is placed in the prompt
+export type LorebookPosition = NonNullable<CharacterBookEntry["position"]>;
+
+// Positions that live in the system prompt (at_depth entries go into the chat history)
+export const SYSTEM_PROMPT_POSITIONS: Exclude<LorebookPosition, "at_depth">[] = [
+  "before_char",
+  "after_char",
+  "before_example",
+  "after_example",
+];
+
+// Defaults (match the previous keyword scanner and SillyTavern)
+export const DEFAULT_SCAN_DEPTH = 2;
+export const DEFAULT_ENTRY_POSITION: LorebookPosition = "after_example";
+export const DEFAULT_INSERTION_DEPTH = 4;
+const MAX_RECURSION_STEPS = 10;
+const MAX_CACHED_PATTERNS = 1000;
+
+// Secondary key logic (values of CharacterBookEntry.selectiveLogic)
+export const SELECTIVE_LOGIC = {
+  AND: 0, // At least one secondary key must match
+  NOT: 1, // Not all secondary keys may match
+  NOT_OR: 2, // None of the secondary keys may match
+  AND_ALL: 3, // Every secondary key must match
+} as const;
+
+export interface LorebookScanOptions {
+  personaName: string;
+  characterName: string;
+  // Token counter for the budget (defaults to ~4 chars per token)
+  countTokens?: (text: string) => number;
+}
+
+// An entry that fired, with macro-replaced content
+export interface ActivatedLorebookEntry {
+  entry: CharacterBookEntry;
+  content: string;
+  tokens: number;
+}
+
+// Content to insert into the chat history, `depth` messages from the end
+export interface LorebookDepthInsertion {
+  depth: number;
+  content: string;
+}
+
+export interface LorebookScanResult {
+  entries: ActivatedLorebookEntry[]; // In insertion order
+  byPosition: Record<Exclude<LorebookPosition, "at_depth">, string[]>;
+  depthInsertions: LorebookDepthInsertion[];
+}
+
+const defaultCountTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const replaceMacros = (text: string, options: LorebookScanOptions): string => {
+  return text
+    .replace(/\{\{char\}\}/gi, options.characterName)
+    .replace(/\{\{user\}\}/gi, options.personaName);
+};
+
+// How an entry's keys are compared against the text
+export type LorebookMatchMode = "substring" | "whole_word" | "regex";
+
+export const getEntryMatchMode = (entry: CharacterBookEntry): LorebookMatchMode => {
+  if (entry.useRegex) return "regex";
+  if (entry.matchWholeWords) return "whole_word";
+  return "substring";
+};
+
+// Regex keys are written as /pattern/flags (a bare pattern is also accepted in regex mode)
+const REGEX_KEY = /^\/([\s\S]+)\/([a-z]*)$/;
+
+// Keys in /pattern/flags form are regexes in every mode (as in SillyTavern); other keys follow the entry
+export const isRegexKey = (key: string): boolean => REGEX_KEY.test(key);
+const getKeyMatchMode = (key: string, mode: LorebookMatchMode): LorebookMatchMode =>
+  isRegexKey(key) ? "regex" : mode;
+
+// Word characters for whole-word matching in any script (letters, combining marks, digits)
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}_]";
+
+// Scripts written without spaces between words; whole-word matching can't apply to them
+const NO_WORD_SEPARATORS = new RegExp(
+  "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}]",
+  "u"
+);
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Compiled key patterns (null = invalid regex), keyed by mode, case sensitivity and key
+// The oldest pattern is dropped when the cache is full (keys typed in the editor add up)
+const patternCache = new Map<string, RegExp | null>();
+const storePattern = (cacheKey: string, pattern: RegExp | null) => {
+  patternCache.set(cacheKey, pattern);
+  if (patternCache.size > MAX_CACHED_PATTERNS) {
+    patternCache.delete(patternCache.keys().next().value as string);
+  }
+};
+
+const buildKeyPattern = (key: string, mode: LorebookMatchMode, caseSensitive: boolean): RegExp | null => {
+  const cacheKey = `${mode}:${caseSensitive}:${key}`;
+  if (patternCache.has(cacheKey)) return patternCache.get(cacheKey)!;
+
+  let pattern: RegExp | null = null;
+  try {
+    if (mode === "regex") {
+      const literal = key.match(REGEX_KEY);
+      pattern = literal
+        // Explicit flags win; "g"/"y" are dropped since test() must not keep state
+        ? new RegExp(literal[1], literal[2].replace(/[gy]/g, ""))
+        : new RegExp(key, caseSensitive ? "" : "i");
+    } else {
+      pattern = new RegExp(
+        `(?<!${WORD_CHAR})${escapeRegex(key)}(?!${WORD_CHAR})`,
+        caseSensitive ? "u" : "iu"
+      );
+    }
+  } catch {
+    pattern = null;
+  }
+
+  storePattern(cacheKey, pattern);
+  return pattern;
+};
+
+// Validate a key for the given mode (returns an error message, or null if the key is usable)
+export const validateLorebookKey = (key: string, mode: LorebookMatchMode): string | null => {
+  if (!key || getKeyMatchMode(key, mode) !== "regex") return null;
+  const literal = key.match(REGEX_KEY);
+  try {
+    new RegExp(literal ? literal[1] : key, literal ? literal[2] : "");
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid regular expression";
+  }
+};
+
+// Check whether a single key occurs in the text
+export const matchesKey = (
+  text: string,
+  key: string,
+  caseSensitive = false,
+  mode: LorebookMatchMode = "substring"
+): boolean => {
+  if (!key) return false;
+  const keyMode = getKeyMatchMode(key, mode);
+
+  if (keyMode === "substring" || (keyMode === "whole_word" && NO_WORD_SEPARATORS.test(key))) {
+    return caseSensitive
+      ? text.includes(key)
+      : text.toLowerCase().includes(key.toLowerCase());
+  }
+
+  // Invalid regexes never match
+  return buildKeyPattern(key, keyMode, caseSensitive)?.test(text) ?? false;
+};
+
+// Check the secondary keys of an entry against its selective logic
+const matchesSecondaryKeys = (entry: CharacterBookEntry, text: string, options: LorebookScanOptions): boolean => {
+  const secondaryKeys = (entry.secondaryKeys || []).filter(Boolean);
+  if (entry.selective === false || secondaryKeys.length === 0) return true;
+
+  const mode = getEntryMatchMode(entry);
+  const matches = secondaryKeys.map((key) => matchesKey(text, replaceMacros(key, options), entry.caseSensitive, mode));
+
+  switch (entry.selectiveLogic ?? SELECTIVE_LOGIC.AND) {
+    case SELECTIVE_LOGIC.NOT:
+      return !matches.every(Boolean);
+    case SELECTIVE_LOGIC.NOT_OR:
+      return !matches.some(Boolean);
+    case SELECTIVE_LOGIC.AND_ALL:
+      return matches.every(Boolean);
+    case SELECTIVE_LOGIC.AND:
+    default:
+      return matches.some(Boolean);
+  }
+};
+
+// Check whether an entry fires for the given text
+export const entryMatches = (entry: CharacterBookEntry, text: string, options: LorebookScanOptions): boolean => {
+  const mode = getEntryMatchMode(entry);
+  const primaryMatch = (entry.keys || []).some((key) => matchesKey(text, replaceMacros(key, options), entry.caseSensitive, mode));
+  return primaryMatch && matchesSecondaryKeys(entry, text, options);
+};
+
+// Importance used for group winners and the token budget:
+// constant entries first, then higher priority, then earlier insertion order
+const compareImportance = (a: CharacterBookEntry, b: CharacterBookEntry): number => {
+  if (!!a.constant !== !!b.constant) return a.constant ? -1 : 1;
+  const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+  if (priorityDiff !== 0) return priorityDiff;
+  return a.insertionOrder - b.insertionOrder;
+};
+
+// Keep a single entry per inclusion group (group override entries win)
+const applyGroups = (entries: CharacterBookEntry[]): CharacterBookEntry[] => {
+  const winners = new Map<string, CharacterBookEntry>();
+
+  for (const entry of entries) {
+    if (!entry.group) continue;
+    const current = winners.get(entry.group);
+    if (
+      !current ||
+      (entry.groupOverride && !current.groupOverride) ||
+      (!!entry.groupOverride === !!current.groupOverride && compareImportance(entry, current) < 0)
+    ) {
+      winners.set(entry.group, entry);
+    }
+  }
+
+  return entries.filter((entry) => !entry.group || winners.get(entry.group) === entry);
+};
+
+// Scan recent messages and return the entries that fire
+export const scanLorebook = (
+  messages: Message[],
+  book: CharacterBook | undefined,
+  options: LorebookScanOptions
+): LorebookScanResult => {
+  const result: LorebookScanResult = {
+    entries: [],
+    byPosition: { before_char: [], after_char: [], before_example: [], after_example: [] },
+    depthInsertions: [],
+  };
+  if (!book?.entries?.length) return result;
+
+  const countTokens = options.countTokens || defaultCountTokens;
+  const scanDepth = book.scanDepth ?? DEFAULT_SCAN_DEPTH;
+  // A scan depth of 0 scans no messages (only constant entries fire)
+  const scannedMessages = scanDepth > 0 ? messages.slice(-scanDepth) : [];
+  const chatText = replaceMacros(scannedMessages.map((m) => m.content).join("\n"), options);
+
+  const candidates = book.entries.filter((entry) => entry.enabled);
+  const activated = new Set<CharacterBookEntry>();
+
+  // Initial pass: constant entries and keyword matches against the chat
+  for (const entry of candidates) {
+    if (entry.constant || entryMatches(entry, chatText, options)) {
+      activated.add(entry);
+    }
+  }
+
+  // Recursive passes: activated content can trigger further entries
+  if (book.recursiveScanning) {
+    let newlyActivated = [...activated];
+    for (let step = 0; step < MAX_RECURSION_STEPS && newlyActivated.length > 0; step++) {
+      const recursionText = replaceMacros(
+        newlyActivated
+          .filter((entry) => !entry.preventRecursion)
+          .map((entry) => entry.content)
+          .join("\n"),
+        options
+      );
+      if (!recursionText) break;
+
+      newlyActivated = candidates.filter(
+        (entry) => !activated.has(entry) && !entry.excludeRecursion && entryMatches(entry, recursionText, options)
+      );
+      newlyActivated.forEach((entry) => activated.add(entry));
+    }
+  }
+
+  // Resolve inclusion groups, then fill the token budget by importance
+  const byImportance = applyGroups([...activated]).sort(compareImportance);
+  const budget = book.tokenBudget && book.tokenBudget > 0 ? book.tokenBudget : Infinity;
+  let usedTokens = 0;
+
+  for (const entry of byImportance) {
+    const content = replaceMacros(entry.content, options);
+    if (!content.trim()) continue;
+
+    const tokens = countTokens(content);
+    if (usedTokens + tokens > budget) continue; // Entries that would overflow are dropped
+    usedTokens += tokens;
+    result.entries.push({ entry, content, tokens });
+  }
+
+  // Final placement follows insertion order (lower = earlier)
+  result.entries.sort((a, b) => a.entry.insertionOrder - b.entry.insertionOrder || a.entry.id - b.entry.id);
+
+  for (const { entry, content } of result.entries) {
+    const position = entry.position || DEFAULT_ENTRY_POSITION;
+    if (position === "at_depth") {
+      result.depthInsertions.push({ depth: Math.max(0, entry.depth ?? DEFAULT_INSERTION_DEPTH), content });
+    } else {
+      result.byPosition[position].push(content);
+    }
+  }
+
+  return result;
+};
+
+// Scan several lorebooks (each with its own settings and budget) and merge the results
+// Earlier books take precedence: their content is placed first at every position
+export const scanLorebooks = (
+  messages: Message[],
+  books: (CharacterBook | undefined)[],
+  options: LorebookScanOptions
+): LorebookScanResult => {
+  const merged: LorebookScanResult = {
+    entries: [],
+    byPosition: { before_char: [], after_char: [], before_example: [], after_example: [] },
+    depthInsertions: [],
+  };
+
+  for (const book of books) {
+    const result = scanLorebook(messages, book, options);
+    merged.entries.push(...result.entries);
+    for (const position of SYSTEM_PROMPT_POSITIONS) {
+      merged.byPosition[position].push(...result.byPosition[position]);
+    }
+    merged.depthInsertions.push(...result.depthInsertions);
+  }
+
+  return merged;
+};
+
+// Insert at_depth lorebook content into the chat history as system messages
+// (depth 0 = after the last message, 1 = before the last message, ...)
+export const insertLorebookDepthEntries = (
+  messages: Message[],
+  insertions: LorebookDepthInsertion[]
+): Message[] => {
+  if (insertions.length === 0) return messages;
+
+  const byDepth = new Map<number, string[]>();
+  for (const { depth, content } of insertions) {
+    const clamped = Math.min(depth, messages.length);
+    byDepth.set(clamped, [...(byDepth.get(clamped) || []), content]);
+  }
+
+  const result = [...messages];
+  // Insert shallowest first so the indices of deeper insertions stay valid
+  for (const depth of [...byDepth.keys()].sort((a, b) => a - b)) {
+    result.splice(messages.length - depth, 0, {
+      role: "system",
+      content: `[World Knowledge]\n${byDepth.get(depth)!.join("\n\n")}`,
+      lorebookInsertion: true,
+    });
+  }
+
+  return result;
+};
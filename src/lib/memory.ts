@@ -0,0 +1,140 @@
+// Memory recall (vector retrieval)
+// Messages of the chat that are no longer in the prompt (and, optionally, all messages of the
+// character's other chats) are embedded into the vector index. For each reply the stored messages
+// closest to the latest user message are recalled and sent as [Relevant Memories].
+
+import { Conversation, Message } from "./types";
+import { EmbeddingSource } from "./embeddings";
+import { MemoryVector, deleteMemoryVectors, loadMemoryVectors, memoryVectorKey, saveMemoryVectors } from "./vector-store";
+
+export const DEFAULT_MEMORY_TOP_K = 4;
+const EMBED_CHARS = 2000; // Longer messages are embedded by their beginning
+const SNIPPET_CHARS = 600; // Recalled text per memory in the prompt
+
+type MemoryChat = Pick<Conversation, "id" | "messages">;
+
+export interface RecalledMemory {
+  conversationId: string;
+  messageIndex: number;
+  role: "user" | "assistant";
+  text: string;
+  score: number; // Cosine similarity to the query
+}
+
+export interface MemoryRecallOptions {
+  source: EmbeddingSource;
+  characterId: string;
+  conversation: MemoryChat; // The chat being replied to
+  otherConversations: MemoryChat[]; // The character's other chats
+  acrossChats: boolean; // Also recall from the other chats
+  query: string;
+  outOfContext: Set<number>; // Indexes of the chat's messages that were left out of the prompt
+  topK: number;
+  signal?: AbortSignal;
+}
+
+// Chat messages worth recalling (not continue instructions, inserted lorebook text or empty replies)
+const isMemorable = (message: Message): boolean =>
+  (message.role === "user" || message.role === "assistant") &&
+  !message.isContinue &&
+  !message.lorebookInsertion &&
+  message.content.trim().length > 0;
+
+const toEmbeddedText = (message: Message) => message.content.trim().slice(0, EMBED_CHARS);
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Bring the index up to date for the chats (embedding new and changed messages, removing vectors of
+// deleted messages and chats) and return the stored vectors
+const syncMemoryIndex = async (options: MemoryRecallOptions): Promise<MemoryVector[]> => {
+  const { source, characterId, conversation, signal } = options;
+  const stored = await loadMemoryVectors(source.id, characterId);
+  const chats = [conversation, ...(options.acrossChats ? options.otherConversations : [])];
+
+  const wanted = chats.flatMap((chat) =>
+    chat.messages
+      .map((message, index) => ({ key: memoryVectorKey(source.id, chat.id, index), conversationId: chat.id, index, message }))
+      .filter(({ message }) => isMemorable(message))
+      .filter(({ index }) => chat.id !== conversation.id || options.outOfContext.has(index))
+  );
+  const storedByKey = new Map(stored.map((vector) => [vector.key, vector]));
+  const missing = wanted.filter(({ key, message }) => storedByKey.get(key)?.text !== toEmbeddedText(message));
+
+  const embedded = missing.length > 0
+    ? await source.embed(missing.map(({ message }) => toEmbeddedText(message)), "document", signal)
+    : [];
+  const added: MemoryVector[] = missing.map(({ key, conversationId, index, message }, i) => ({
+    key,
+    sourceId: source.id,
+    characterId,
+    conversationId,
+    messageIndex: index,
+    role: message.role === "assistant" ? "assistant" : "user",
+    text: toEmbeddedText(message),
+    vector: embedded[i],
+  }));
+  await saveMemoryVectors(added);
+
+  // Vectors of messages and chats that no longer exist
+  const existingChats = new Map([conversation, ...options.otherConversations].map((chat) => [chat.id, chat]));
+  const isStale = (vector: MemoryVector) => {
+    const chat = existingChats.get(vector.conversationId);
+    return !chat || vector.messageIndex >= chat.messages.length;
+  };
+  await deleteMemoryVectors(stored.filter(isStale).map((vector) => vector.key));
+
+  const addedKeys = new Set(added.map((vector) => vector.key));
+  return [...stored.filter((vector) => !isStale(vector) && !addedKeys.has(vector.key)), ...added];
+};
+
+// The stored messages most similar to the query, best first
+export const recallMemories = async (options: MemoryRecallOptions): Promise<RecalledMemory[]> => {
+  const vectors = await syncMemoryIndex(options);
+  const { conversation } = options;
+  const candidates = vectors.filter((vector) =>
+    vector.conversationId === conversation.id ? options.outOfContext.has(vector.messageIndex) : options.acrossChats
+  );
+  if (candidates.length === 0) return [];
+
+  const [queryVector] = await options.source.embed([options.query.slice(0, EMBED_CHARS)], "query", options.signal);
+  const ranked = candidates
+    .map((vector) => ({ vector, score: cosineSimilarity(queryVector, vector.vector) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  // Branches share their earlier messages: each text is recalled once
+  const seen = new Set<string>();
+  const memories: RecalledMemory[] = [];
+  for (const { vector, score } of ranked) {
+    if (memories.length >= options.topK) break;
+    if (seen.has(vector.text)) continue;
+    seen.add(vector.text);
+    memories.push({ conversationId: vector.conversationId, messageIndex: vector.messageIndex, role: vector.role, text: vector.text, score });
+  }
+  return memories;
+};
+
+// Recalled memories as the text of the prompt section
+export const formatMemories = (
+  memories: RecalledMemory[],
+  names: { characterName: string; personaName: string },
+  conversationId: string
+): string =>
+  memories
+    .map((memory) => {
+      const speaker = memory.role === "assistant" ? names.characterName : names.personaName;
+      const where = memory.conversationId === conversationId ? "" : " (in another chat)";
+      const text = memory.text.length > SNIPPET_CHARS ? `${memory.text.slice(0, SNIPPET_CHARS)}...` : memory.text;
+      return `- ${speaker}${where}: ${text}`;
+    })
+    .join("\n");
@@ -0,0 +1,148 @@
+// Server-side proxy for JSON/SSE chat APIs (NVIDIA NIM, OpenAI-compatible servers, OpenRouter, Anthropic,
+// KoboldCpp/Ollama text completion)
+// Used by the API routes to forward requests and relay streaming responses
+
+import { NextResponse } from "next/server";
+
+export interface OpenAIProxyRequest {
+  url: string; // Full upstream URL (base URL + endpoint)
+  headers: Record<string, string>;
+  payload?: unknown; // Sent as a POST body; no payload = GET (e.g. listing models)
+  stream?: boolean;
+  signal?: AbortSignal; // Cancels the upstream fetch when the client aborts
+  label: string; // Upstream name used in error messages
+}
+
+// Normalize a user-entered base URL: no trailing slash, `defaultPath` added when only a host is given
+export const normalizeBaseUrl = (baseUrl: string, defaultPath = "/v1"): string | null => {
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+    const path = url.pathname.replace(/\/+$/, "");
+    return `${url.origin}${path || defaultPath}`;
+  } catch {
+    return null;
+  }
+};
+
+// Forward a request upstream and relay the response (SSE streams are passed through as-is)
+export const proxyOpenAIRequest = async ({
+  url,
+  headers,
+  payload,
+  stream,
+  signal,
+  label,
+}: OpenAIProxyRequest): Promise<Response> => {
+  const response = await fetch(url, {
+    method: payload === undefined ? "GET" : "POST",
+    signal,
+    // Redirects aren't followed: the target of a checked URL could send the request anywhere
+    redirect: "manual",
+    headers: {
+      "Accept": stream ? "text/event-stream" : "application/json",
+      ...(payload === undefined ? {} : { "Content-Type": "application/json" }),
+      ...headers,
+    },
+    body: payload === undefined ? undefined : JSON.stringify(payload),
+  });
+
+  if (response.status >= 300 && response.status < 400) {
+    const location = response.headers.get("location");
+    return NextResponse.json(
+      { error: `${label} redirected the request${location ? ` to ${location}` : ""}. Use the final address as the base URL.` },
+      { status: 502 }
+    );
+  }
+
+  // Handle streaming response
+  if (stream && response.ok && response.body) {
+    const reader = response.body.getReader();
+    const streamResponse = new ReadableStream({
+      async start(controller) {
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            // Forward the chunk directly
+            controller.enqueue(value);
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      // Client went away: stop reading from upstream
+      cancel() {
+        reader.cancel();
+      },
+    });
+
+    return new Response(streamResponse, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  }
+
+  // Handle non-OK streaming responses
+  if (stream && !response.ok) {
+    const contentType = response.headers.get("content-type");
+    let errorMessage: string;
+
+    if (contentType?.includes("application/json")) {
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error?.message || (typeof errorData.error === "string" ? errorData.error : `HTTP ${response.status}`);
+      } catch {
+        errorMessage = `HTTP ${response.status}: Failed to parse error response`;
+      }
+    } else {
+      errorMessage = await response.text() || `HTTP ${response.status}`;
+    }
+
+    // Return as SSE error event
+    return new Response(`event: error\ndata: ${JSON.stringify({ error: errorMessage, status: response.status })}\n\n`, {
+      status: 200, // Return 200 so client can parse the error
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  // Try to parse JSON, but handle non-JSON responses (like Cloudflare errors)
+  let data;
+  const contentType = response.headers.get("content-type");
+
+  if (contentType?.includes("application/json")) {
+    try {
+      data = await response.json();
+    } catch {
+      return NextResponse.json(
+        { error: `HTTP ${response.status}: Invalid JSON response from ${label}` },
+        { status: response.status }
+      );
+    }
+  } else {
+    // Handle non-JSON responses (e.g., Cloudflare timeout errors)
+    const textResponse = await response.text();
+    return NextResponse.json(
+      { error: `HTTP ${response.status}: ${textResponse || `Unknown error from ${label}`}` },
+      { status: response.status }
+    );
+  }
+
+  if (!response.ok) {
+    return NextResponse.json(
+      { error: data.error?.message || (typeof data.error === "string" ? data.error : `HTTP ${response.status}`) },
+      { status: response.status }
+    );
+  }
+
+  return NextResponse.json(data);
+};
@@ -0,0 +1,202 @@
+// PNG chunk utilities for character cards
+// Character cards embed their JSON (base64) inside tEXt chunks keyed "chara" (V2) or "ccv3" (V3)
+
+// Every PNG file starts with this 8-byte signature
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// A single raw PNG chunk
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// Text chunk (keyword + value) decoded from tEXt
+export interface PngTextChunk {
+  keyword: string;
+  text: string;
+}
+
+// Check the 8-byte PNG signature
+export const isPngData = (bytes: Uint8Array): boolean => {
+  if (bytes.length < PNG_SIGNATURE.length) return false;
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+};
+
+// Read a big-endian unsigned 32-bit integer
+const readUint32 = (bytes: Uint8Array, offset: number): number => {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  );
+};
+
+// Split a PNG file into its chunks
+// Throws with a descriptive message if the file is not a well-formed PNG
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPngData(bytes)) {
+    throw new Error("Not a PNG file (invalid signature)");
+  }
+
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset < bytes.length) {
+    // Each chunk: length (4) + type (4) + data (length) + CRC (4)
+    if (offset + 8 > bytes.length) {
+      throw new Error("Corrupted PNG file: truncated chunk header");
+    }
+
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+
+    if (!/^[A-Za-z]{4}$/.test(type)) {
+      throw new Error(`Corrupted PNG file: invalid chunk type at byte ${offset + 4}`);
+    }
+
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > bytes.length) {
+      throw new Error(`Corrupted PNG file: chunk "${type}" extends past end of file`);
+    }
+
+    chunks.push({ type, data: bytes.subarray(dataStart, dataEnd) });
+    offset = dataEnd + 4;
+
+    if (type === "IEND") break;
+  }
+
+  if (chunks.length === 0 || chunks[0].type !== "IHDR") {
+    throw new Error("Corrupted PNG file: missing IHDR chunk");
+  }
+  if (chunks[chunks.length - 1].type !== "IEND") {
+    throw new Error("Corrupted PNG file: missing IEND chunk");
+  }
+
+  return chunks;
+};
+
+// Decode a tEXt chunk (Latin-1 keyword, null separator, Latin-1 text)
+export const decodeTextChunk = (data: Uint8Array): PngTextChunk | null => {
+  const separator = data.indexOf(0);
+  if (separator <= 0) return null;
+
+  const decoder = new TextDecoder("latin1");
+  return {
+    keyword: decoder.decode(data.subarray(0, separator)),
+    text: decoder.decode(data.subarray(separator + 1)),
+  };
+};
+
+// Collect all tEXt chunks as a keyword -> text map (first occurrence wins)
+export const readPngTextChunks = (bytes: Uint8Array): Record<string, string> => {
+  const result: Record<string, string> = {};
+
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== "tEXt") continue;
+    const text = decodeTextChunk(chunk.data);
+    if (text && !(text.keyword in result)) {
+      result[text.keyword] = text.text;
+    }
+  }
+
+  return result;
+};
+
+// CRC-32 lookup table (polynomial 0xEDB88320, as used by PNG)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 over a chunk's type and data
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Encode a tEXt chunk payload (keyword and text must be Latin-1)
+export const encodeTextChunk = (keyword: string, text: string): Uint8Array => {
+  const data = new Uint8Array(keyword.length + 1 + text.length);
+  for (let i = 0; i < keyword.length; i++) {
+    data[i] = keyword.charCodeAt(i) & 0xff;
+  }
+  data[keyword.length] = 0;
+  for (let i = 0; i < text.length; i++) {
+    data[keyword.length + 1 + i] = text.charCodeAt(i) & 0xff;
+  }
+  return data;
+};
+
+// Serialize chunks back into a PNG file (CRCs are recomputed)
+export const writePngChunks = (chunks: PngChunk[]): Uint8Array => {
+  const size = chunks.reduce((total, chunk) => total + 12 + chunk.data.length, PNG_SIGNATURE.length);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.data.length);
+    for (let i = 0; i < 4; i++) {
+      bytes[offset + 4 + i] = chunk.type.charCodeAt(i);
+    }
+    bytes.set(chunk.data, offset + 8);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(bytes.subarray(offset + 4, offset + 8 + chunk.data.length)));
+    offset += 12 + chunk.data.length;
+  }
+
+  return bytes;
+};
+
+// Replace (or add) tEXt chunks by keyword, inserting new ones right before IEND
+export const setPngTextChunks = (bytes: Uint8Array, texts: Record<string, string>): Uint8Array => {
+  const keywords = Object.keys(texts);
+  const chunks = readPngChunks(bytes).filter((chunk) => {
+    if (chunk.type !== "tEXt") return true;
+    const text = decodeTextChunk(chunk.data);
+    return !text || !keywords.includes(text.keyword);
+  });
+
+  const textChunks = keywords.map((keyword) => ({
+    type: "tEXt",
+    data: encodeTextChunk(keyword, texts[keyword]),
+  }));
+
+  // IEND is always last (readPngChunks guarantees it)
+  chunks.splice(chunks.length - 1, 0, ...textChunks);
+  return writePngChunks(chunks);
+};
+
+// Convert raw bytes to a base64 string
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  // Process in slices to stay below the argument limit of String.fromCharCode
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+};
+
+// Convert a base64 string to raw bytes
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64.trim());
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
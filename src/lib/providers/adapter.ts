@@ -0,0 +1,171 @@
+// Provider adapter interface
+// Each provider is one adapter: it turns a chat into a request, parses the (streamed) reply and
+// knows how to list models and test a connection. The shared runner in ./index sends the requests.
+
+import { LLMProvider, ProviderConfig, Message, ThinkingLevel, ModelCost } from "../types";
+
+// Generation options passed to every chat request
+export interface ChatOptions {
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  topK: number;
+  systemPrompt?: string;
+  enableThinking?: boolean;
+  thinkingLevel?: ThinkingLevel;
+  sendImages?: boolean; // Send message attachments (only set for vision models; per target in a fallback chain)
+  signal?: AbortSignal; // Stops the request
+  observer?: RequestObserver; // Debug hooks (request inspector)
+}
+
+// What texts are embedded for (some embedding models encode search queries and documents differently)
+export type EmbeddingPurpose = "query" | "document";
+
+// Sees what the runner sends and receives for one request
+export interface RequestObserver {
+  onRequest?: (config: ProviderConfig, request: ProviderRequest) => void;
+  onEvent?: (event: unknown) => void; // Each raw stream event, or the whole response body
+  onFinish?: (result: { error?: string; status?: number; aborted?: boolean }) => void;
+}
+
+// Chat response interface
+export interface ChatResponse {
+  content?: string;
+  thinking?: string;
+  error?: string;
+  status?: number; // HTTP status of a failed request, when known (429 = rate limited)
+  aborted?: boolean; // Stopped through the abort signal
+}
+
+// Streaming callback type
+// When stopped through the abort signal, the final chunk has done + aborted and carries the partial text
+export type StreamCallback = (chunk: { content?: string; thinking?: string; done?: boolean; error?: string; status?: number; aborted?: boolean }) => void;
+
+// Test connection result
+export interface TestConnectionResult {
+  success: boolean;
+  message: string;
+}
+
+// Fetch models from provider API (server-side to avoid CORS)
+export interface FetchedModel {
+  id: string;
+  provider: string;
+  name: string;
+  context?: number;
+  max_tokens?: number;
+  supportsThinking?: boolean;
+  supportsVision?: boolean;
+  cost?: ModelCost; // Same shape as Puter.js model costs (cents per `tokens` tokens)
+}
+
+// Parsed JSON of a provider response (untyped, as returned by Response.json())
+export type ProviderJson = Awaited<ReturnType<Response["json"]>>;
+
+// An HTTP request built by an adapter (usually to one of this app's proxy routes)
+export interface ProviderRequest {
+  url: string;
+  method?: "POST" | "PATCH"; // Defaults to POST
+  body: unknown; // Sent as JSON
+  // Applied to the accumulated reply text, e.g. to cut it at a stop sequence
+  transformContent?: (content: string) => string;
+}
+
+// Text added by one stream event
+export interface StreamDelta {
+  content?: string;
+  thinking?: string;
+  error?: string;
+}
+
+// What a provider supports beyond plain chat
+export interface ProviderCapabilities {
+  thinking: boolean; // Can return the model's reasoning separately from the reply
+  thinkingLevel: boolean; // Honors the thinking level setting
+  vision: boolean; // Can send image attachments (to models that support them)
+}
+
+// Sends requests for providers that are not reached over HTTP (e.g. the Puter.js SDK)
+// send resolves to the response body, stream yields the stream events
+export interface ProviderTransport {
+  send: (request: ProviderRequest, signal?: AbortSignal) => Promise<unknown>;
+  stream: (request: ProviderRequest, signal?: AbortSignal) => AsyncIterable<unknown>;
+}
+
+export interface ProviderAdapter {
+  provider: LLMProvider; // Id, display name, required settings and built-in models
+  capabilities: ProviderCapabilities;
+  // Error message when the config can't be used for a chat request (e.g. missing API key)
+  validate?: (config: ProviderConfig) => string | undefined;
+  buildRequest: (messages: Message[], config: ProviderConfig, options: ChatOptions, stream: boolean) => ProviderRequest;
+  parseResponse: (data: ProviderJson) => ChatResponse;
+  // One JSON event of a streamed reply (null when it carries no text)
+  parseStreamEvent: (data: ProviderJson) => StreamDelta | null;
+  listModels: (config: ProviderConfig) => Promise<{ models: FetchedModel[]; error?: string }>;
+  testConnection: (config: ProviderConfig) => Promise<TestConnectionResult>;
+  // Token count of a text from the provider's own endpoint (e.g. Gemini countTokens)
+  countTokens?: (text: string, config: ProviderConfig, signal?: AbortSignal) => Promise<number>;
+  // Vectors of texts from the provider's embedding endpoint (config.selectedModel is the embedding model)
+  embed?: (texts: string[], config: ProviderConfig, purpose: EmbeddingPurpose, signal?: AbortSignal) => Promise<number[][]>;
+  transport?: ProviderTransport; // Defaults to fetch with JSON / SSE responses
+}
+
+// Error text from a JSON error body: proxies send { error: string }, APIs { error: { message } }
+export const getErrorMessage = (data: ProviderJson, status: number): string =>
+  data?.error?.message || (typeof data?.error === "string" ? data.error : "") || `HTTP ${status}`;
+
+// HTTP status of an error event or body: the proxies add { status }, OpenRouter sends { error: { code } }
+// and Anthropic names the error type
+export const getErrorStatus = (data: ProviderJson): number | undefined => {
+  if (typeof data?.status === "number") return data.status;
+  if (typeof data?.error?.code === "number") return data.error.code;
+  if (data?.error?.type === "rate_limit_error") return 429;
+  if (data?.error?.type === "overloaded_error") return 529;
+  return undefined;
+};
+
+// Error thrown by a transport for a failed HTTP request (the runner reports the status)
+export const httpError = (message: string, status: number): Error & { status: number } =>
+  Object.assign(new Error(message), { status });
+
+// Message of a thrown error for connection tests
+export const connectionFailed = (error: unknown): TestConnectionResult => ({
+  success: false,
+  message: `Connection failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+});
+
+// Parse extra headers written as one "Name: value" per line (lines without a name are skipped)
+export const parseHeaderLines = (text?: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of (text || "").split("\n")) {
+    const separator = line.indexOf(":");
+    const name = separator > 0 ? line.slice(0, separator).trim() : "";
+    if (name) headers[name] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
+// POST a JSON body to a proxy route and read the JSON reply (model lists, connection tests)
+export const postJson = async (
+  url: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<{ data: ProviderJson; error?: string; status: number }> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await response.json();
+  return { data, error: response.ok ? undefined : getErrorMessage(data, response.status), status: response.status };
+};
+
+// GET a JSON endpoint (model lists)
+export const getJson = async (url: string): Promise<{ data: ProviderJson; error?: string; status: number }> => {
+  const response = await fetch(url);
+  const data = await response.json();
+  return { data, error: response.ok ? undefined : getErrorMessage(data, response.status), status: response.status };
+};
@@ -0,0 +1,172 @@
+// Anthropic adapter - Claude models via the Messages API, through the /api/anthropic proxy
+
+import { Message, MessageAttachment, ProviderConfig, ThinkingLevel } from "../types";
+import { ChatOptions, ProviderAdapter, connectionFailed, getJson } from "./adapter";
+
+// Anthropic extended-thinking budget (tokens) for each thinking level
+export const ANTHROPIC_THINKING_BUDGETS: Record<ThinkingLevel, number> = {
+  LOW: 1024, // The API minimum
+  MEDIUM: 8192,
+  HIGH: 24576,
+};
+
+// Map our messages and options onto an Anthropic Messages API request
+const buildAnthropicPayload = (
+  messages: Message[],
+  config: ProviderConfig,
+  options: ChatOptions
+): Record<string, unknown> => {
+  // Only user/assistant turns exist: mid-chat system messages (lorebook insertions) become
+  // user turns, empty messages are dropped and consecutive same-role turns are merged
+  const turns: { role: "user" | "assistant"; content: string; images: MessageAttachment[] }[] = [];
+  for (const m of messages) {
+    const images = m.attachments || [];
+    if (!m.content.trim() && !images.length) continue;
+    const role = m.role === "assistant" ? "assistant" : "user";
+    const last = turns[turns.length - 1];
+    if (last?.role === role) {
+      last.content = [last.content, m.content].filter((text) => text.trim()).join("\n\n");
+      last.images.push(...images);
+    } else {
+      turns.push({ role, content: m.content, images: [...images] });
+    }
+  }
+  // The conversation has to start with a user turn (chats usually open with the character's greeting)
+  if (turns[0]?.role !== "user") {
+    turns.unshift({ role: "user", content: "[Start a new chat]", images: [] });
+  }
+
+  // Turns with images become content blocks: the images first, then the text (text blocks can't be empty)
+  const formattedTurns = turns.map(({ role, content, images }) => ({
+    role,
+    content: images.length
+      ? [
+          ...images.map((image) => ({ type: "image", source: { type: "base64", media_type: image.mimeType, data: image.data } })),
+          ...(content.trim() ? [{ type: "text", text: content }] : []),
+        ]
+      : content,
+  }));
+
+  const payload: Record<string, unknown> = {
+    model: config.selectedModel,
+    messages: formattedTurns,
+    max_tokens: options.maxTokens,
+  };
+  if (options.systemPrompt) {
+    payload.system = options.systemPrompt;
+  }
+
+  // Thinking counts against max_tokens, so at most half of it goes to the budget (leaving room
+  // for the reply); when that is below the API minimum, the request goes without thinking
+  const budget = Math.min(ANTHROPIC_THINKING_BUDGETS[options.thinkingLevel || "HIGH"], Math.floor(options.maxTokens / 2));
+  if (options.enableThinking && budget >= ANTHROPIC_THINKING_BUDGETS.LOW) {
+    // Extended thinking doesn't allow a custom temperature or top_k
+    payload.thinking = { type: "enabled", budget_tokens: budget };
+  } else {
+    // top_p is left out: newer Claude models reject temperature and top_p together
+    payload.temperature = Math.min(options.temperature, 1); // Anthropic's range is 0-1
+    if (options.topK > 0) payload.top_k = options.topK;
+  }
+
+  return payload;
+};
+
+export const anthropicAdapter: ProviderAdapter = {
+  provider: {
+    id: "anthropic",
+    name: "Anthropic",
+    description: "Claude models via the Anthropic Messages API",
+    requiresApiKey: true,
+    models: [
+      {
+        id: "claude-sonnet-4-5",
+        name: "Claude Sonnet 4.5",
+        provider: "anthropic",
+        contextWindow: 200000,
+        maxTokens: 64000,
+        supportsThinking: true,
+        supportsVision: true,
+      },
+      {
+        id: "claude-opus-4-1",
+        name: "Claude Opus 4.1",
+        provider: "anthropic",
+        contextWindow: 200000,
+        maxTokens: 32000,
+        supportsThinking: true,
+        supportsVision: true,
+      },
+      {
+        id: "claude-haiku-4-5",
+        name: "Claude Haiku 4.5",
+        provider: "anthropic",
+        contextWindow: 200000,
+        maxTokens: 64000,
+        supportsThinking: true,
+        supportsVision: true,
+      },
+      {
+        id: "claude-3-5-haiku-latest",
+        name: "Claude 3.5 Haiku",
+        provider: "anthropic",
+        contextWindow: 200000,
+        maxTokens: 8192,
+        supportsThinking: false,
+        supportsVision: true,
+      },
+    ],
+  },
+  capabilities: { thinking: true, thinkingLevel: true, vision: true },
+
+  validate: (config) => (config.apiKey ? undefined : "Anthropic API key is required"),
+
+  buildRequest: (messages, config, options, stream) => ({
+    url: "/api/anthropic",
+    body: {
+      endpoint: "messages",
+      apiKey: config.apiKey,
+      payload: { ...buildAnthropicPayload(messages, config, options), ...(stream ? { stream: true } : {}) },
+      stream,
+    },
+  }),
+
+  // The reply is a list of content blocks: text and (with extended thinking) thinking blocks
+  parseResponse: (data) => {
+    const blocks: { type: string; text?: string; thinking?: string }[] = data.content || [];
+    return {
+      content: blocks.filter((b) => b.type === "text").map((b) => b.text || "").join(""),
+      thinking: blocks.filter((b) => b.type === "thinking").map((b) => b.thinking || "").join("\n\n"),
+    };
+  },
+
+  // Event names are repeated in the data's "type" field; only content deltas carry text
+  parseStreamEvent: (data) => {
+    if (data.type !== "content_block_delta") return null;
+    return {
+      content: data.delta?.type === "text_delta" ? data.delta.text : undefined,
+      thinking: data.delta?.type === "thinking_delta" ? data.delta.thinking : undefined,
+    };
+  },
+
+  listModels: async (config) => {
+    if (!config.apiKey) {
+      return { models: [], error: "API key is required" };
+    }
+
+    const { data, error } = await getJson(`/api/models?provider=anthropic&apiKey=${encodeURIComponent(config.apiKey)}`);
+    return error ? { models: [], error } : { models: data.models || [] };
+  },
+
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: "API key is required." };
+    }
+    try {
+      // Listing models checks the key without spending tokens
+      const { error } = await getJson(`/api/models?provider=anthropic&apiKey=${encodeURIComponent(config.apiKey)}`);
+      return error ? { success: false, message: error } : { success: true, message: "Anthropic connection successful!" };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { Message, ProviderConfig } from "../types";
+import { ProviderAdapter, httpError } from "./adapter";
+import { ChatTarget, sendChatWithFallback } from "./fallback";
+import { registerProvider } from "./registry";
+
+// Records whether each request carried the attachments; the "busy" model is rate limited
+const sentImages: Record<string, boolean> = {};
+const testAdapter: ProviderAdapter = {
+  provider: { id: "test-vision", name: "Test", description: "", requiresApiKey: false, models: [] },
+  capabilities: { thinking: false, thinkingLevel: false, vision: true },
+  buildRequest: (messages, config) => {
+    sentImages[config.selectedModel!] = messages.some((m) => m.attachments);
+    return { url: "test", body: config.selectedModel };
+  },
+  parseResponse: () => ({ content: "ok" }),
+  parseStreamEvent: () => null,
+  listModels: async () => ({ models: [] }),
+  testConnection: async () => ({ success: true, message: "" }),
+  transport: {
+    send: async (request) => {
+      if (request.body === "busy") throw httpError("Rate limited", 429);
+      return {};
+    },
+    stream: async function* () {},
+  },
+};
+registerProvider(testAdapter);
+
+const target = (selectedModel: string, sendImages: boolean): ChatTarget => ({
+  config: { type: "test-vision", isEnabled: true, profiles: [], activeProfileId: null, selectedModel } as ProviderConfig,
+  profileId: null,
+  rotated: true, // Tried without the backoff delay
+  label: selectedModel,
+  sendImages,
+});
+
+const messages: Message[] = [
+  { role: "user", content: "Look", attachments: [{ type: "image", mimeType: "image/png", data: "AA==" }] },
+];
+
+const options = { temperature: 1, maxTokens: 100, topP: 1, topK: 0 };
+
+describe("sendChatWithFallback", () => {
+  it("sends images only to the targets whose model accepts them", async () => {
+    await sendChatWithFallback(messages, [target("busy", false), target("vision", true)], { ...options, sendImages: false });
+    expect(sentImages).toEqual({ busy: false, vision: true });
+
+    await sendChatWithFallback(messages, [target("busy", true), target("text", false)], { ...options, sendImages: true });
+    expect(sentImages).toMatchObject({ busy: true, text: false });
+  });
+});
@@ -0,0 +1,199 @@
+// Fallback chain: when a provider fails with a rate limit or server error, the request moves on
+// to the next chain entry (another key, provider or model) after an exponential backoff delay.
+// With key rotation on, the active provider's profiles come first, in rotation order.
+
+import { FallbackChainEntry, LLMProviderType, Message, ProviderConfig, ProviderProfile } from "../types";
+import { ChatOptions, ChatResponse, StreamCallback } from "./adapter";
+import { KeyStatusMap, getRotationOrder } from "./key-rotation";
+import { getProviderAdapter } from "./registry";
+import { sendChatMessage, streamChatMessage } from "./runner";
+
+const BACKOFF_BASE_MS = 1000; // Wait before the first fallback, doubled for every further one
+const BACKOFF_MAX_MS = 8000;
+
+// A provider config ready to send, with a label naming it in the UI
+export interface ChatTarget {
+  config: ProviderConfig;
+  profileId: string | null; // Profile whose key is used (for key status)
+  rotated?: boolean; // One of the active provider's keys under key rotation: tried without waiting
+  label: string; // e.g. "NVIDIA NIM (Key B) · meta/llama-3.3-70b-instruct"
+  sendImages?: boolean; // Whether this target's model takes the attachments (unset: options.sendImages)
+}
+
+// Options for one target of the chain: vision support is the target's own, since a fallback model
+// may take images the primary one doesn't, or the other way round
+const targetOptions = (target: ChatTarget, options: ChatOptions): ChatOptions =>
+  target.sendImages === undefined ? options : { ...options, sendImages: target.sendImages };
+
+// Chunks from the chain carry the label of the entry that answered when it wasn't the first one
+export type FallbackStreamCallback = (chunk: Parameters<StreamCallback>[0] & { servedBy?: string }) => void;
+
+// Progress of a request over the chain
+export interface FallbackEvents {
+  onFallback?: (notice: string) => void; // Before moving on to the next entry, with a note for the UI
+  onResult?: (target: ChatTarget, result: { error?: string; status?: number }) => void; // After each attempt
+}
+
+// Rate limits, timeouts and server errors may succeed elsewhere; other errors (bad request,
+// invalid key) are reported right away
+export const isRetryableStatus = (status?: number): boolean =>
+  status === 408 || status === 429 || (status !== undefined && status >= 500);
+
+// Provider config of a profile (credentials and settings copied onto the provider's config)
+export const buildProfileConfig = (
+  config: ProviderConfig,
+  profile: ProviderProfile | undefined,
+  modelId?: string
+): ProviderConfig => ({
+  ...config,
+  apiKey: profile?.apiKey || "",
+  projectId: profile?.projectId || "",
+  serviceAccountJson: profile?.serviceAccountJson,
+  vertexMode: profile?.vertexMode,
+  vertexLocation: profile?.vertexLocation,
+  baseUrl: profile?.baseUrl,
+  extraHeaders: profile?.extraHeaders,
+  sendTopK: profile?.sendTopK,
+  openRouter: profile?.openRouter,
+  textCompletion: profile?.textCompletion,
+  selectedModel: modelId || profile?.selectedModel,
+});
+
+const describeTarget = (config: ProviderConfig, profileId: string | null): string => {
+  const providerName = getProviderAdapter(config.type)?.provider.name || config.type;
+  const profile = config.profiles.find((p) => p.id === profileId);
+  return `${providerName}${profile ? ` (${profile.name})` : ""}${config.selectedModel ? ` · ${config.selectedModel}` : ""}`;
+};
+
+// The primary config (or, with key rotation, each of its provider's profiles in rotation order)
+// followed by the chain's entries (entries whose provider or profile no longer exists, and repeats
+// of an earlier target, are skipped)
+export const resolveChatTargets = (
+  primary: ProviderConfig,
+  chain: FallbackChainEntry[],
+  providerConfigs: Record<LLMProviderType, ProviderConfig>,
+  keyStatus: KeyStatusMap = {},
+  now: number = Date.now()
+): ChatTarget[] => {
+  const rotation = getRotationOrder(primary, keyStatus, now);
+  const primaryTargets: ChatTarget[] = rotation.length > 1
+    ? rotation.map((profile) => {
+        const config = buildProfileConfig({ ...primary, activeProfileId: profile.id }, profile, primary.selectedModel);
+        return { config, profileId: profile.id, rotated: true, label: describeTarget(config, profile.id) };
+      })
+    : [{ config: primary, profileId: primary.activeProfileId, label: describeTarget(primary, primary.activeProfileId) }];
+
+  const targets: ChatTarget[] = [...primaryTargets];
+  const seen = new Set(primaryTargets.map((t) => `${t.config.type}|${t.profileId}|${t.config.selectedModel}`));
+
+  for (const entry of chain) {
+    const config = providerConfigs[entry.provider];
+    if (!config) continue;
+    const profile = config.profiles.find((p) => p.id === entry.profileId);
+    if (entry.profileId && !profile) continue;
+
+    const target = buildProfileConfig({ ...config, activeProfileId: entry.profileId }, profile, entry.modelId);
+    const key = `${target.type}|${entry.profileId}|${target.selectedModel}`;
+    if (!target.selectedModel || seen.has(key)) continue;
+    seen.add(key);
+    targets.push({ config: target, profileId: entry.profileId, label: describeTarget(target, entry.profileId) });
+  }
+
+  return targets;
+};
+
+// Exponential backoff before fallback number `attempt` (0-based); resolves early when aborted
+const backoff = (attempt: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS));
+    signal?.addEventListener("abort", done, { once: true });
+  });
+
+// Error text once the chain is exhausted: the last error, plus the earlier ones when several entries failed
+const chainError = (failures: string[]): string =>
+  failures.length > 1
+    ? `All providers in the fallback chain failed. ${failures.join("; ")}`
+    : failures[0];
+
+const fallbackNotice = (failed: ChatTarget, error: string, next: ChatTarget): string =>
+  `${failed.label} failed (${error}). Trying ${next.label}...`;
+
+// sendChatMessage over the chain; servedBy is set when a fallback entry answered
+export const sendChatWithFallback = async (
+  messages: Message[],
+  targets: ChatTarget[],
+  options: ChatOptions,
+  events: FallbackEvents = {}
+): Promise<ChatResponse & { servedBy?: string }> => {
+  const failures: string[] = [];
+
+  for (let i = 0; i < targets.length; i++) {
+    const response = await sendChatMessage(messages, targets[i].config, targetOptions(targets[i], options));
+    if (!response.aborted) {
+      events.onResult?.(targets[i], { error: response.error, status: response.status });
+    }
+    if (!response.error) {
+      return i > 0 ? { ...response, servedBy: targets[i].label } : response;
+    }
+
+    failures.push(`${targets[i].label}: ${response.error}`);
+    if (!isRetryableStatus(response.status) || i === targets.length - 1) {
+      return { ...response, error: failures.length > 1 ? chainError(failures) : response.error };
+    }
+
+    events.onFallback?.(fallbackNotice(targets[i], response.error, targets[i + 1]));
+    if (!targets[i + 1].rotated) await backoff(i, options.signal);
+    if (options.signal?.aborted) return { aborted: true };
+  }
+
+  return { error: "No provider to send the request to" };
+};
+
+// streamChatMessage over the chain; an entry is only given up while it hasn't streamed any text
+// (a reply that fails halfway is reported, not restarted elsewhere)
+export const streamChatWithFallback = async (
+  messages: Message[],
+  targets: ChatTarget[],
+  options: ChatOptions,
+  onChunk: FallbackStreamCallback,
+  events: FallbackEvents = {}
+): Promise<void> => {
+  const failures: string[] = [];
+
+  for (let i = 0; i < targets.length; i++) {
+    const servedBy = i > 0 ? targets[i].label : undefined;
+    const isLast = i === targets.length - 1;
+    let started = false;
+    let failure: { error: string; status?: number } | undefined;
+
+    await streamChatMessage(messages, targets[i].config, targetOptions(targets[i], options), (chunk) => {
+      if (chunk.error) {
+        events.onResult?.(targets[i], { error: chunk.error, status: chunk.status });
+        failures.push(`${targets[i].label}: ${chunk.error}`);
+        if (!started && !isLast && isRetryableStatus(chunk.status)) {
+          failure = { error: chunk.error, status: chunk.status };
+          return;
+        }
+        onChunk({ ...chunk, error: !started && failures.length > 1 ? chainError(failures) : chunk.error, servedBy });
+        return;
+      }
+      started = true;
+      if (chunk.done && !chunk.aborted) events.onResult?.(targets[i], {});
+      onChunk(servedBy ? { ...chunk, servedBy } : chunk);
+    });
+
+    if (!failure) return;
+
+    events.onFallback?.(fallbackNotice(targets[i], failure.error, targets[i + 1]));
+    if (!targets[i + 1].rotated) await backoff(i, options.signal);
+    if (options.signal?.aborted) {
+      onChunk({ content: "", thinking: "", done: true, aborted: true });
+      return;
+    }
+  }
+};
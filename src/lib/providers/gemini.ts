@@ -0,0 +1,97 @@
+// Gemini request/response format shared by Google AI Studio and Vertex AI
+
+import { Message } from "../types";
+import { ChatOptions, ChatResponse, EmbeddingPurpose, FetchedModel, ProviderJson, StreamDelta } from "./adapter";
+
+// generateContent request body: contents, system instruction and generation config
+export const buildGeminiPayload = (messages: Message[], options: ChatOptions): Record<string, unknown> => {
+  // Images go after the text as inlineData parts (an image-only message gets no text part)
+  const formattedMessages = messages.map((m) => ({
+    role: m.role === "assistant" ? "model" : "user",
+    parts: [
+      ...(m.content || !m.attachments?.length ? [{ text: m.content }] : []),
+      ...(m.attachments || []).map((a) => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+    ],
+  }));
+
+  // Add system prompt if provided
+  const systemInstruction = options.systemPrompt
+    ? { parts: [{ text: options.systemPrompt }] }
+    : undefined;
+
+  // Build generation config with optional thinking
+  const generationConfig: Record<string, unknown> = {
+    temperature: options.temperature,
+    maxOutputTokens: options.maxTokens,
+    topP: options.topP,
+    topK: options.topK,
+  };
+
+  // Add thinking config for models that support it (Gemini 2.0+)
+  if (options.enableThinking) {
+    generationConfig.thinkingConfig = {
+      thinkingLevel: options.thinkingLevel || "HIGH"
+    };
+  }
+
+  return { contents: formattedMessages, systemInstruction, generationConfig };
+};
+
+// Reply text and thought summaries of one generateContent response or stream chunk
+export const parseGeminiStreamEvent = (data: ProviderJson): StreamDelta => {
+  const parts: { text?: string; thought?: boolean }[] = data.candidates?.[0]?.content?.parts || [];
+  return {
+    content: parts.filter((part) => !part.thought).map((part) => part.text || "").join(""),
+    thinking: parts.filter((part) => part.thought).map((part) => part.text || "").join(""),
+  };
+};
+
+// countTokens request body for a single text, and the count from its response
+export const buildGeminiCountTokensPayload = (text: string): Record<string, unknown> => ({
+  contents: [{ role: "user", parts: [{ text }] }],
+});
+
+export const parseGeminiTokenCount = (data: ProviderJson): number => {
+  if (typeof data?.totalTokens !== "number") {
+    throw new Error("The countTokens response has no token count");
+  }
+  return data.totalTokens;
+};
+
+// batchEmbedContents request body (retrieval task types), and the vectors from its response
+export const buildGeminiEmbedPayload = (texts: string[], model: string, purpose: EmbeddingPurpose): Record<string, unknown> => ({
+  requests: texts.map((text) => ({
+    model: `models/${model}`,
+    content: { parts: [{ text }] },
+    taskType: purpose === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+  })),
+});
+
+export const parseGeminiEmbeddings = (data: ProviderJson): number[][] => {
+  const embeddings: { values?: unknown }[] = Array.isArray(data?.embeddings) ? data.embeddings : [];
+  if (embeddings.length === 0 || !embeddings.every((embedding) => Array.isArray(embedding.values))) {
+    throw new Error("The batchEmbedContents response has no vectors");
+  }
+  return embeddings.map((embedding) => embedding.values as number[]);
+};
+
+export const parseGeminiResponse = (data: ProviderJson): ChatResponse => {
+  const { content, thinking } = parseGeminiStreamEvent(data);
+  return { content, thinking };
+};
+
+// Popular Gemini models (the model list API is not used)
+export const getGeminiModels = (provider: "google-ai-studio" | "google-vertex"): FetchedModel[] => [
+  { id: "gemini-3.1-pro-preview", name: "Gemini 3.1 Pro Preview", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-3-flash-preview", name: "Gemini 3 Flash Preview", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-3-pro-preview", name: "Gemini 3 Pro Preview", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-3-pro-image-preview", name: "Gemini 3 Pro Image Preview", context: 1048576, max_tokens: 65536, supportsThinking: false },
+  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-2.5-flash-preview-09-2025", name: "Gemini 2.5 Flash Preview", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-2.5-flash-lite-preview-09-2025", name: "Gemini 2.5 Flash-Lite Preview", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-2.5-flash-image", name: "Gemini 2.5 Flash Image", context: 1048576, max_tokens: 65536, supportsThinking: false },
+  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", context: 1048576, max_tokens: 65536, supportsThinking: true },
+  { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash", context: 1048576, max_tokens: 8192, supportsThinking: true },
+  { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro", context: 2097152, max_tokens: 8192, supportsThinking: false },
+  { id: "gemini-1.5-flash", name: "Gemini 1.5 Flash", context: 1048576, max_tokens: 8192, supportsThinking: false },
+].map((model) => ({ ...model, provider, supportsVision: true })); // Every Gemini model takes images
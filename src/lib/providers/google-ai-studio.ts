@@ -0,0 +1,126 @@
+// Google AI Studio adapter - the Gemini API is called directly from the browser (it allows CORS)
+
+import { ProviderAdapter, connectionFailed, getErrorMessage, httpError } from "./adapter";
+import {
+  buildGeminiCountTokensPayload,
+  buildGeminiEmbedPayload,
+  buildGeminiPayload,
+  getGeminiModels,
+  parseGeminiResponse,
+  parseGeminiEmbeddings,
+  parseGeminiStreamEvent,
+  parseGeminiTokenCount,
+} from "./gemini";
+
+export const googleAIStudioAdapter: ProviderAdapter = {
+  provider: {
+    id: "google-ai-studio",
+    name: "Google AI Studio",
+    description: "Google's Gemini models via AI Studio API",
+    requiresApiKey: true,
+    models: [
+      {
+        id: "gemini-2.0-flash",
+        name: "Gemini 2.0 Flash",
+        provider: "google-ai-studio",
+        contextWindow: 1048576,
+        maxTokens: 8192,
+        supportsThinking: true,
+      },
+      {
+        id: "gemini-2.0-flash-lite",
+        name: "Gemini 2.0 Flash Lite",
+        provider: "google-ai-studio",
+        contextWindow: 1048576,
+        maxTokens: 8192,
+        supportsThinking: false,
+      },
+      {
+        id: "gemini-1.5-pro",
+        name: "Gemini 1.5 Pro",
+        provider: "google-ai-studio",
+        contextWindow: 2097152,
+        maxTokens: 8192,
+        supportsThinking: false,
+      },
+      {
+        id: "gemini-1.5-flash",
+        name: "Gemini 1.5 Flash",
+        provider: "google-ai-studio",
+        contextWindow: 1048576,
+        maxTokens: 8192,
+        supportsThinking: false,
+      },
+    ],
+  },
+  capabilities: { thinking: true, thinkingLevel: true, vision: true },
+
+  validate: (config) => (config.apiKey ? undefined : "Google AI Studio API key is required"),
+
+  buildRequest: (messages, config, options, stream) => ({
+    url: stream
+      ? `https://generativelanguage.googleapis.com/v1beta/models/${config.selectedModel}:streamGenerateContent?key=${config.apiKey}&alt=sse`
+      : `https://generativelanguage.googleapis.com/v1beta/models/${config.selectedModel}:generateContent?key=${config.apiKey}`,
+    body: buildGeminiPayload(messages, options),
+  }),
+
+  parseResponse: parseGeminiResponse,
+  parseStreamEvent: parseGeminiStreamEvent,
+
+  listModels: async () => ({ models: getGeminiModels("google-ai-studio") }),
+
+  countTokens: async (text, config, signal) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${config.selectedModel}:countTokens?key=${config.apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildGeminiCountTokensPayload(text)),
+        signal,
+      }
+    );
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw httpError(getErrorMessage(data, response.status), response.status);
+    }
+    return parseGeminiTokenCount(data);
+  },
+
+  embed: async (texts, config, purpose, signal) => {
+    const model = config.selectedModel || "";
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${config.apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildGeminiEmbedPayload(texts, model, purpose)),
+        signal,
+      }
+    );
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw httpError(getErrorMessage(data, response.status), response.status);
+    }
+    return parseGeminiEmbeddings(data);
+  },
+
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: "API key is required." };
+    }
+    try {
+      // Test by listing models (no tokens are spent)
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models?key=${config.apiKey}`,
+        { method: "GET" }
+      );
+      if (response.ok) {
+        return { success: true, message: "Google AI Studio connection successful!" };
+      }
+      const errorData = await response.json();
+      return { success: false, message: getErrorMessage(errorData, response.status) };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
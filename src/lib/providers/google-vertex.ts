@@ -0,0 +1,137 @@
+// Google Vertex AI adapter - uses server-side proxy to avoid CORS
+
+import { ProviderConfig } from "../types";
+import { ProviderAdapter, connectionFailed, httpError, postJson } from "./adapter";
+import {
+  buildGeminiCountTokensPayload,
+  buildGeminiPayload,
+  getGeminiModels,
+  parseGeminiResponse,
+  parseGeminiStreamEvent,
+  parseGeminiTokenCount,
+} from "./gemini";
+
+// Vertex AI credentials for the proxy: the API key (express mode) or the service-account JSON
+// (full mode), which the proxy exchanges for an OAuth access token
+const getVertexCredentials = (config: ProviderConfig): { credentials: Record<string, string | undefined>; error?: string } => {
+  if (config.vertexMode === "full") {
+    if (!config.serviceAccountJson?.trim()) {
+      return { credentials: {}, error: "Vertex AI full mode requires a service account JSON key" };
+    }
+    // The project ID may be left empty: the proxy then uses the key file's project_id
+    return { credentials: { serviceAccountJson: config.serviceAccountJson, projectId: config.projectId || undefined } };
+  }
+
+  if (!config.apiKey) {
+    return { credentials: {}, error: "Vertex AI requires an API key" };
+  }
+  if (!config.projectId) {
+    return { credentials: {}, error: "Vertex AI requires a Google Cloud Project ID. Please enter your project ID in the provider settings." };
+  }
+  return { credentials: { apiKey: config.apiKey, projectId: config.projectId } };
+};
+
+export const googleVertexAdapter: ProviderAdapter = {
+  provider: {
+    id: "google-vertex",
+    name: "Google Vertex AI",
+    description: "Enterprise Google AI via Vertex AI platform",
+    requiresApiKey: true,
+    requiresProjectId: true,
+    requiresServiceAccount: true,
+    models: [
+      {
+        id: "gemini-2.0-flash",
+        name: "Gemini 2.0 Flash",
+        provider: "google-vertex",
+        contextWindow: 1048576,
+        maxTokens: 8192,
+        supportsThinking: true,
+      },
+      {
+        id: "gemini-1.5-pro",
+        name: "Gemini 1.5 Pro",
+        provider: "google-vertex",
+        contextWindow: 2097152,
+        maxTokens: 8192,
+        supportsThinking: false,
+      },
+      {
+        id: "gemini-1.5-flash",
+        name: "Gemini 1.5 Flash",
+        provider: "google-vertex",
+        contextWindow: 1048576,
+        maxTokens: 8192,
+        supportsThinking: false,
+      },
+    ],
+  },
+  capabilities: { thinking: true, thinkingLevel: true, vision: true },
+
+  validate: (config) => getVertexCredentials(config).error,
+
+  // The proxy's PATCH handler relays the SSE stream
+  buildRequest: (messages, config, options, stream) => ({
+    url: "/api/vertex-ai",
+    method: stream ? "PATCH" : "POST",
+    body: {
+      endpoint: stream
+        ? `${config.selectedModel}:streamGenerateContent?alt=sse`
+        : `${config.selectedModel}:generateContent`,
+      ...getVertexCredentials(config).credentials,
+      location: config.vertexLocation || "global",
+      payload: buildGeminiPayload(messages, options),
+    },
+  }),
+
+  parseResponse: parseGeminiResponse,
+  parseStreamEvent: parseGeminiStreamEvent,
+
+  listModels: async () => ({ models: getGeminiModels("google-vertex") }),
+
+  countTokens: async (text, config, signal) => {
+    const result = await postJson(
+      "/api/vertex-ai",
+      {
+        endpoint: `${config.selectedModel}:countTokens`,
+        ...getVertexCredentials(config).credentials,
+        location: config.vertexLocation || "global",
+        payload: buildGeminiCountTokensPayload(text),
+      },
+      signal
+    );
+    if (result.error) {
+      throw httpError(result.error, result.status);
+    }
+    return parseGeminiTokenCount(result.data);
+  },
+
+  testConnection: async (config) => {
+    const location = config.vertexLocation || "global";
+
+    const { credentials, error } = getVertexCredentials(config);
+    if (error) {
+      return { success: false, message: error };
+    }
+    try {
+      // Test with a one-token request through the proxy
+      const result = await postJson("/api/vertex-ai", {
+        endpoint: "gemini-2.0-flash:generateContent",
+        ...credentials,
+        location: location,
+        payload: {
+          contents: [{ role: "user", parts: [{ text: "test" }] }],
+          generationConfig: { maxOutputTokens: 1 },
+        },
+      });
+      if (result.error) {
+        return { success: false, message: result.error };
+      }
+
+      const auth = config.vertexMode === "full" ? "service account" : "API key";
+      return { success: true, message: `Google Vertex AI (${location}, ${auth}) connection successful!` };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
@@ -0,0 +1,133 @@
+// LLM Provider implementations
+// Every provider is a ProviderAdapter (one file each); the functions below look the adapter up
+// in the registry, and ./runner sends its requests.
+
+import {
+  LLMProviderType,
+  LLMProvider,
+  LLMModel,
+  ProviderConfig,
+  Message,
+  VertexMode,
+  VertexLocation,
+  ThinkingLevel,
+} from "../types";
+import { FetchedModel, TestConnectionResult } from "./adapter";
+import { getProviderAdapter, registerProvider } from "./registry";
+import { guessVisionSupport } from "../attachments";
+import { puterAdapter } from "./puter";
+import { googleAIStudioAdapter } from "./google-ai-studio";
+import { googleVertexAdapter } from "./google-vertex";
+import { nvidiaNIMAdapter } from "./nvidia-nim";
+import { openAICompatibleAdapter } from "./openai-compatible";
+import { openRouterAdapter } from "./openrouter";
+import { anthropicAdapter } from "./anthropic";
+import { textCompletionAdapter } from "./text-completion";
+
+// Re-export types for convenience
+export type { LLMProviderType, ProviderConfig, Message, LLMModel, LLMProvider, VertexMode, VertexLocation, ThinkingLevel };
+export type {
+  ChatOptions,
+  ChatResponse,
+  EmbeddingPurpose,
+  StreamCallback,
+  TestConnectionResult,
+  FetchedModel,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderRequest,
+  ProviderTransport,
+  RequestObserver,
+  StreamDelta,
+} from "./adapter";
+export { parseHeaderLines } from "./adapter";
+export {
+  AVAILABLE_PROVIDERS,
+  registerProvider,
+  getProviderAdapter,
+  createProviderRecord,
+  getDefaultProviderConfig,
+} from "./registry";
+export { sendChatMessage, streamChatMessage } from "./runner";
+export {
+  buildProfileConfig,
+  resolveChatTargets,
+  sendChatWithFallback,
+  streamChatWithFallback,
+  isRetryableStatus,
+} from "./fallback";
+export type { ChatTarget, FallbackStreamCallback, FallbackEvents } from "./fallback";
+export { KEY_ROTATION_MODES, getRotationOrder, recordKeyResult, isCoolingDown } from "./key-rotation";
+export type { KeyStatusMap } from "./key-rotation";
+export { ANTHROPIC_THINKING_BUDGETS } from "./anthropic";
+export { TEXT_COMPLETION_DEFAULT_URLS } from "./text-completion";
+
+// Built-in providers, in the order they are listed
+[
+  puterAdapter,
+  googleAIStudioAdapter,
+  googleVertexAdapter,
+  nvidiaNIMAdapter,
+  openAICompatibleAdapter,
+  openRouterAdapter,
+  anthropicAdapter,
+  textCompletionAdapter,
+].forEach(registerProvider);
+
+// Get models for a provider
+export const getModelsForProvider = (
+  providerType: LLMProviderType
+): LLMModel[] => {
+  return getProviderAdapter(providerType)?.provider.models || [];
+};
+
+// Whether the selected model of a config accepts image attachments, from the provider's fetched and
+// built-in model lists (Puter.js and unknown models are guessed from the id)
+export const getModelVisionSupport = (config: ProviderConfig, fetchedModels: FetchedModel[] = []): boolean => {
+  const modelId = config.selectedModel;
+  if (!getProviderAdapter(config.type)?.capabilities.vision || !modelId) return false;
+  if (config.type === "puter") return guessVisionSupport(modelId);
+  const model = [...fetchedModels, ...getModelsForProvider(config.type)].find((m) => m.id === modelId);
+  return model?.supportsVision ?? guessVisionSupport(modelId);
+};
+
+// Test connection for a provider
+export const testProviderConnection = async (
+  providerType: LLMProviderType,
+  config: ProviderConfig
+): Promise<TestConnectionResult> => {
+  const adapter = getProviderAdapter(providerType);
+  if (!adapter) {
+    return { success: false, message: `Unknown provider: ${providerType}` };
+  }
+  return adapter.testConnection(config);
+};
+
+// Get default model for a provider
+export const getDefaultModelForProvider = (providerType: LLMProviderType): string => {
+  const models = getModelsForProvider(providerType);
+  if (models.length > 0) {
+    return models[0].id;
+  }
+  return "";
+};
+
+// Fetch models from provider API (server-side to avoid CORS)
+export const fetchModelsFromProvider = async (
+  providerType: LLMProviderType,
+  config: ProviderConfig
+): Promise<{ models: FetchedModel[]; error?: string }> => {
+  const adapter = getProviderAdapter(providerType);
+  if (!adapter) {
+    return { models: [], error: `Unknown provider: ${providerType}` };
+  }
+
+  try {
+    return await adapter.listModels(config);
+  } catch (error) {
+    return { 
+      models: [], 
+      error: error instanceof Error ? error.message : "Unknown error occurred" 
+    };
+  }
+};
@@ -0,0 +1,72 @@
+// API key rotation across a provider's profiles
+// Orders the profiles for a request (keys cooling down after a rate limit go last) and keeps
+// each profile's key status up to date from the request results
+
+import { KeyRotationMode, ProfileKeyStatus, ProviderConfig, ProviderProfile } from "../types";
+
+// Key status by profile id
+export type KeyStatusMap = Record<string, ProfileKeyStatus>;
+
+const COOLDOWN_BASE_MS = 60 * 1000; // After a rate limit; doubled for every further one in a row
+const COOLDOWN_MAX_MS = 15 * 60 * 1000;
+
+export const KEY_ROTATION_MODES: { id: KeyRotationMode; name: string }[] = [
+  { id: "off", name: "Off (active profile only)" },
+  { id: "round-robin", name: "Round-robin" },
+  { id: "least-rate-limited", name: "Least recently rate-limited" },
+];
+
+export const isCoolingDown = (status: ProfileKeyStatus | undefined, now: number): boolean =>
+  (status?.cooldownUntil ?? 0) > now;
+
+// Profiles in the order they are tried: the active one alone when rotation is off (or there is
+// nothing to rotate), otherwise every profile, with keys that are cooling down at the end
+export const getRotationOrder = (config: ProviderConfig, statuses: KeyStatusMap, now: number): ProviderProfile[] => {
+  const active = config.profiles.find((p) => p.id === config.activeProfileId);
+  if (!config.keyRotation || config.keyRotation === "off" || config.profiles.length < 2) {
+    return active ? [active] : [];
+  }
+
+  // Never-used keys count as used longest ago; ties keep the profile order (active first)
+  const sortKey = (profile: ProviderProfile): number => {
+    const status = statuses[profile.id];
+    return config.keyRotation === "least-rate-limited"
+      ? status?.lastRateLimitedAt ?? 0
+      : status?.lastUsedAt ?? 0;
+  };
+  const profiles = active ? [active, ...config.profiles.filter((p) => p !== active)] : [...config.profiles];
+
+  return profiles.sort((a, b) => {
+    const coolingA = isCoolingDown(statuses[a.id], now);
+    const coolingB = isCoolingDown(statuses[b.id], now);
+    if (coolingA !== coolingB) return coolingA ? 1 : -1;
+    // Among keys that are all cooling down, the one that is available soonest goes first
+    if (coolingA) return (statuses[a.id].cooldownUntil ?? 0) - (statuses[b.id].cooldownUntil ?? 0);
+    return sortKey(a) - sortKey(b);
+  });
+};
+
+// Key status after a request with the profile (a rate limit starts or lengthens its cooldown)
+export const recordKeyResult = (
+  status: ProfileKeyStatus | undefined,
+  result: { error?: string; status?: number },
+  now: number
+): ProfileKeyStatus => {
+  if (!result.error) {
+    return { ...status, lastUsedAt: now, rateLimitCount: 0, cooldownUntil: undefined };
+  }
+  if (result.status !== 429) {
+    return { ...status, lastUsedAt: now, lastError: result.error, lastErrorAt: now };
+  }
+
+  const rateLimitCount = (status?.rateLimitCount ?? 0) + 1;
+  return {
+    ...status,
+    lastUsedAt: now,
+    lastError: result.error,
+    lastErrorAt: now,
+    lastRateLimitedAt: now,
+    rateLimitCount,
+    cooldownUntil: now + Math.min(COOLDOWN_BASE_MS * 2 ** (rateLimitCount - 1), COOLDOWN_MAX_MS),
+  };
+};
@@ -0,0 +1,153 @@
+// NVIDIA NIM adapter - OpenAI chat-completions through the /api/nvidia-nim proxy
+
+import { ProviderConfig } from "../types";
+import { ProviderAdapter, connectionFailed, getErrorMessage, getJson } from "./adapter";
+import {
+  buildChatCompletionsRequest,
+  embedChatCompletions,
+  parseChatCompletionsResponse,
+  parseChatCompletionsStreamEvent,
+} from "./openai-chat";
+
+const getProxy = (config: ProviderConfig) => ({ route: "/api/nvidia-nim", body: { apiKey: config.apiKey } });
+
+export const nvidiaNIMAdapter: ProviderAdapter = {
+  provider: {
+    id: "nvidia-nim",
+    name: "NVIDIA NIM",
+    description: "NVIDIA's AI models via NIM API",
+    requiresApiKey: true,
+    models: [
+      {
+        id: "deepseek-ai/deepseek-r1",
+        name: "DeepSeek R1",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 16384,
+        supportsThinking: true,
+      },
+      {
+        id: "z-ai/glm4.7",
+        name: "GLM 4.7",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 16384,
+        supportsThinking: false,
+      },
+      {
+        id: "meta/llama-3.3-70b-instruct",
+        name: "Llama 3.3 70B Instruct",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+      {
+        id: "meta/llama-3.1-405b-instruct",
+        name: "Llama 3.1 405B Instruct",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+      {
+        id: "meta/llama-3.1-70b-instruct",
+        name: "Llama 3.1 70B Instruct",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+      {
+        id: "meta/llama-3.1-8b-instruct",
+        name: "Llama 3.1 8B Instruct",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+      {
+        id: "mistralai/mistral-large",
+        name: "Mistral Large",
+        provider: "nvidia-nim",
+        contextWindow: 131072,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+      {
+        id: "mistralai/codestral-22b-instruct-v0.1",
+        name: "Codestral 22B",
+        provider: "nvidia-nim",
+        contextWindow: 32768,
+        maxTokens: 4096,
+        supportsThinking: false,
+      },
+    ],
+  },
+  capabilities: { thinking: true, thinkingLevel: false, vision: true },
+
+  validate: (config) => (config.apiKey ? undefined : "NVIDIA NIM API key is required"),
+
+  buildRequest: (messages, config, options, stream) =>
+    buildChatCompletionsRequest(getProxy(config), messages, config, options, stream, { top_k: options.topK }),
+
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+
+  // NVIDIA's retrieval embedding models need to know whether they embed a query or a passage
+  embed: (texts, config, purpose, signal) =>
+    embedChatCompletions(getProxy(config), texts, config, signal, { input_type: purpose === "query" ? "query" : "passage" }),
+
+  listModels: async (config) => {
+    if (!config.apiKey) {
+      return { models: [], error: "API key is required" };
+    }
+
+    const { data, error } = await getJson(`/api/models?provider=nvidia-nim&apiKey=${encodeURIComponent(config.apiKey)}`);
+    return error ? { models: [], error } : { models: data.models || [] };
+  },
+
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: "API key is required." };
+    }
+    try {
+      // Test with a minimal chat request using server-side proxy to avoid CORS
+      const response = await fetch("/api/nvidia-nim", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          endpoint: "chat/completions",
+          apiKey: config.apiKey,
+          payload: {
+            model: "z-ai/glm4.7",
+            messages: [{ role: "user", content: "Hi" }],
+            max_tokens: 5,
+          },
+        }),
+      });
+
+      // 200 and 202 are success codes
+      if (response.status === 200 || response.status === 202) {
+        return { success: true, message: "NVIDIA NIM connection successful!" };
+      }
+
+      // Parse error response
+      const errorData = await response.json();
+
+      if (response.status === 422) {
+        return { success: false, message: errorData.error || "Validation error (422)" };
+      }
+
+      if (response.status === 500) {
+        return { success: false, message: "Server error (500) - please try again later" };
+      }
+
+      return { success: false, message: getErrorMessage(errorData, response.status) };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
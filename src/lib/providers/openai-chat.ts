@@ -0,0 +1,140 @@
+// OpenAI chat-completions format shared by NVIDIA NIM, OpenAI-compatible servers and OpenRouter
+// Requests go through one of this app's proxy routes (POST { ...credentials, endpoint, payload, stream })
+
+import { Message, ProviderConfig } from "../types";
+import { guessVisionSupport, toDataUrl } from "../attachments";
+import {
+  ChatOptions,
+  ChatResponse,
+  FetchedModel,
+  ProviderJson,
+  ProviderRequest,
+  StreamDelta,
+  getErrorMessage,
+  httpError,
+  postJson,
+} from "./adapter";
+
+// Message content: plain text, or text and image_url parts when the message has images attached
+export const toChatCompletionsContent = (message: Message): string | Record<string, unknown>[] =>
+  message.attachments?.length
+    ? [
+        ...(message.content ? [{ type: "text", text: message.content }] : []),
+        ...message.attachments.map((a) => ({ type: "image_url", image_url: { url: toDataUrl(a) } })),
+      ]
+    : message.content;
+
+// Proxy route plus the credentials it needs in the request body
+export interface ChatCompletionsProxy {
+  route: string;
+  body: Record<string, unknown>;
+}
+
+// top_k isn't part of the OpenAI API (the official API rejects it): adapters of servers that accept
+// it pass it in extraPayload
+export const buildChatCompletionsRequest = (
+  proxy: ChatCompletionsProxy,
+  messages: Message[],
+  config: ProviderConfig,
+  options: ChatOptions,
+  stream: boolean,
+  extraPayload: Record<string, unknown> = {}
+): ProviderRequest => {
+  const formattedMessages = messages.map((m) => ({
+    role: m.role,
+    content: toChatCompletionsContent(m),
+  }));
+
+  // Add system prompt if provided
+  const messagesWithSystem = options.systemPrompt
+    ? [{ role: "system", content: options.systemPrompt }, ...formattedMessages]
+    : formattedMessages;
+
+  return {
+    url: proxy.route,
+    body: {
+      ...proxy.body,
+      endpoint: "chat/completions",
+      payload: {
+        model: config.selectedModel,
+        messages: messagesWithSystem,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        ...extraPayload,
+        ...(stream ? { stream: true } : {}),
+      },
+      stream,
+    },
+  };
+};
+
+// Reasoning models (e.g. DeepSeek R1) return their thinking as reasoning_content (OpenRouter calls it reasoning)
+export const parseChatCompletionsResponse = (data: ProviderJson): ChatResponse => {
+  const message = data.choices?.[0]?.message;
+  return {
+    content: message?.content || "",
+    thinking: message?.reasoning_content || message?.reasoning || "",
+  };
+};
+
+export const parseChatCompletionsStreamEvent = (data: ProviderJson): StreamDelta | null => {
+  const delta = data.choices?.[0]?.delta;
+  if (!delta) return null;
+  return { content: delta.content, thinking: delta.reasoning_content || delta.reasoning };
+};
+
+// Vectors from the server's /embeddings endpoint (through the proxy), in the order of the texts
+export const embedChatCompletions = async (
+  proxy: ChatCompletionsProxy,
+  texts: string[],
+  config: ProviderConfig,
+  signal?: AbortSignal,
+  extraPayload: Record<string, unknown> = {}
+): Promise<number[][]> => {
+  const response = await fetch(proxy.route, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...proxy.body,
+      endpoint: "embeddings",
+      payload: { model: config.selectedModel, input: texts, ...extraPayload },
+    }),
+    signal,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw httpError(getErrorMessage(data, response.status), response.status);
+  }
+
+  const items: { index?: number; embedding?: unknown }[] = Array.isArray(data?.data) ? [...data.data] : [];
+  items.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  if (items.length !== texts.length || !items.every((item) => Array.isArray(item.embedding))) {
+    throw new Error("The embeddings response has no vectors");
+  }
+  return items.map((item) => item.embedding as number[]);
+};
+
+// List the models of the server (GET {baseUrl}/models through the proxy)
+// Context sizes are taken from the fields vLLM, llama.cpp and others add to the standard response
+export const listChatCompletionsModels = async (
+  proxy: ChatCompletionsProxy,
+  provider: string
+): Promise<{ models: FetchedModel[]; error?: string }> => {
+  const { data, error } = await postJson(proxy.route, { ...proxy.body, endpoint: "models" });
+  if (error) {
+    return { models: [], error };
+  }
+
+  const models = (Array.isArray(data.data) ? data.data : [])
+    .filter((model: { id?: unknown }) => typeof model.id === "string")
+    .map((model: { id: string; context_length?: number; max_model_len?: number; meta?: { n_ctx_train?: number } }) => ({
+      id: model.id,
+      provider,
+      name: model.id,
+      context: model.context_length || model.max_model_len || model.meta?.n_ctx_train,
+      supportsVision: guessVisionSupport(model.id),
+    }));
+
+  return { models };
+};
@@ -0,0 +1,61 @@
+// OpenAI-compatible adapter - any server with a chat-completions API (llama.cpp, vLLM, LM Studio, Ollama, ...)
+
+import { ProviderConfig } from "../types";
+import { ProviderAdapter, connectionFailed, parseHeaderLines } from "./adapter";
+import {
+  buildChatCompletionsRequest,
+  embedChatCompletions,
+  listChatCompletionsModels,
+  parseChatCompletionsResponse,
+  parseChatCompletionsStreamEvent,
+} from "./openai-chat";
+
+const getProxy = (config: ProviderConfig) => ({
+  route: "/api/openai-compatible",
+  body: { baseUrl: config.baseUrl, apiKey: config.apiKey || undefined, headers: parseHeaderLines(config.extraHeaders) },
+});
+
+export const openAICompatibleAdapter: ProviderAdapter = {
+  provider: {
+    id: "openai-compatible",
+    name: "OpenAI-Compatible",
+    description: "Any OpenAI-style server (llama.cpp, vLLM, LM Studio, Ollama, ...)",
+    requiresApiKey: false,
+    requiresBaseUrl: true,
+    models: [], // Discovered via the server's /v1/models
+  },
+  capabilities: { thinking: true, thinkingLevel: false, vision: true },
+
+  validate: (config) => (config.baseUrl?.trim() ? undefined : "OpenAI-compatible base URL is required"),
+
+  buildRequest: (messages, config, options, stream) =>
+    buildChatCompletionsRequest(getProxy(config), messages, config, options, stream, config.sendTopK ? { top_k: options.topK } : {}),
+
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+
+  embed: (texts, config, _purpose, signal) => embedChatCompletions(getProxy(config), texts, config, signal),
+
+  listModels: async (config) => {
+    if (!config.baseUrl?.trim()) {
+      return { models: [], error: "OpenAI-compatible base URL is required" };
+    }
+    return listChatCompletionsModels(getProxy(config), "openai-compatible");
+  },
+
+  testConnection: async (config) => {
+    if (!config.baseUrl?.trim()) {
+      return { success: false, message: "Base URL is required." };
+    }
+    try {
+      // Model discovery doubles as the connection test (no tokens are spent)
+      const { models, error } = await listChatCompletionsModels(getProxy(config), "openai-compatible");
+      if (error) {
+        return { success: false, message: error };
+      }
+      return { success: true, message: `Connected to ${config.baseUrl.trim()} (${models.length} model${models.length === 1 ? "" : "s"} available)` };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
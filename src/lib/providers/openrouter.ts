@@ -0,0 +1,93 @@
+// OpenRouter adapter - OpenAI chat-completions plus provider routing, fallback models and reasoning
+
+import { ProviderConfig } from "../types";
+import { ChatOptions, ProviderAdapter, connectionFailed, getJson, postJson } from "./adapter";
+import {
+  buildChatCompletionsRequest,
+  embedChatCompletions,
+  parseChatCompletionsResponse,
+  parseChatCompletionsStreamEvent,
+} from "./openai-chat";
+
+const getProxy = (config: ProviderConfig) => ({ route: "/api/openrouter", body: { apiKey: config.apiKey } });
+
+// Split a comma-separated list from the settings
+const parseList = (text?: string): string[] =>
+  (text || "").split(",").map((item) => item.trim()).filter(Boolean);
+
+// OpenRouter extensions to the chat-completions payload: top_k, provider routing, fallback models and reasoning
+const getOpenRouterPayload = (config: ProviderConfig, options: ChatOptions): Record<string, unknown> => {
+  const payload: Record<string, unknown> = { top_k: options.topK };
+  const preferences = config.openRouter || {};
+
+  const order = parseList(preferences.providerOrder);
+  if (order.length > 0 || preferences.allowFallbacks === false) {
+    payload.provider = {
+      ...(order.length > 0 ? { order } : {}),
+      allow_fallbacks: preferences.allowFallbacks ?? true,
+    };
+  }
+
+  // OpenRouter tries "models" in order when the selected one is unavailable
+  const fallbackModels = parseList(preferences.fallbackModels).filter((model) => model !== config.selectedModel);
+  if (fallbackModels.length > 0) {
+    payload.models = [config.selectedModel, ...fallbackModels];
+  }
+
+  if (options.enableThinking) {
+    payload.reasoning = { effort: (options.thinkingLevel || "HIGH").toLowerCase() };
+  }
+
+  return payload;
+};
+
+export const openRouterAdapter: ProviderAdapter = {
+  provider: {
+    id: "openrouter",
+    name: "OpenRouter",
+    description: "Hundreds of models from many providers through one API key",
+    requiresApiKey: true,
+    models: [], // Fetched with context length and pricing via /api/models
+  },
+  capabilities: { thinking: true, thinkingLevel: true, vision: true },
+
+  validate: (config) => (config.apiKey ? undefined : "OpenRouter API key is required"),
+
+  buildRequest: (messages, config, options, stream) =>
+    buildChatCompletionsRequest(getProxy(config), messages, config, options, stream, getOpenRouterPayload(config, options)),
+
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamEvent: parseChatCompletionsStreamEvent,
+
+  embed: (texts, config, _purpose, signal) => embedChatCompletions(getProxy(config), texts, config, signal),
+
+  // The model list is public; the key is only checked by the connection test
+  listModels: async () => {
+    const { data, error } = await getJson("/api/models?provider=openrouter");
+    return error ? { models: [], error } : { models: data.models || [] };
+  },
+
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: "API key is required." };
+    }
+    try {
+      // The key endpoint checks the key without spending credits
+      const { data, error } = await postJson("/api/openrouter", { endpoint: "key", apiKey: config.apiKey });
+      if (error) {
+        return { success: false, message: error };
+      }
+
+      const usage = data.data?.usage;
+      const limit = data.data?.limit;
+      return {
+        success: true,
+        message: typeof usage === "number"
+          ? `OpenRouter connection successful! Used $${usage.toFixed(2)}${typeof limit === "number" ? ` of $${limit.toFixed(2)}` : ""}`
+          : "OpenRouter connection successful!",
+      };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
@@ -0,0 +1,103 @@
+// Puter.js adapter - free models through the Puter SDK loaded in the page (no HTTP requests of our own)
+
+import { ProviderAdapter, ProviderRequest, connectionFailed } from "./adapter";
+import { toChatCompletionsContent } from "./openai-chat";
+
+// Puter.js takes no abort signal, so its calls are raced against the signal instead
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new DOMException("The operation was aborted", "AbortError"));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("The operation was aborted", "AbortError"));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+// The SDK call: buildRequest puts the chat's arguments in the request body
+const puterChat = (request: ProviderRequest): Promise<unknown> => {
+  if (typeof window === "undefined" || !window.puter) {
+    return Promise.reject(new Error("Puter.js is not available"));
+  }
+  const { messages, options } = request.body as { messages: unknown; options: unknown };
+  return (window.puter.ai.chat as unknown as (messages: unknown, options: unknown) => Promise<unknown>)(messages, options);
+};
+
+export const puterAdapter: ProviderAdapter = {
+  provider: {
+    id: "puter",
+    name: "Puter.js",
+    description: "Free AI access via Puter.js - no API key required",
+    requiresApiKey: false,
+    models: [], // Loaded dynamically via puter.ai.listModels()
+  },
+  capabilities: { thinking: true, thinkingLevel: false, vision: true },
+
+  buildRequest: (messages, config, options, stream) => {
+    // Puter.js takes OpenAI-style content parts for images
+    const formattedMessages = messages.map((m) => ({
+      role: m.role,
+      content: toChatCompletionsContent(m),
+    }));
+
+    // Add system prompt if provided
+    const messagesWithSystem = options.systemPrompt
+      ? [{ role: "system", content: options.systemPrompt }, ...formattedMessages]
+      : formattedMessages;
+
+    return {
+      url: "puter:ai.chat",
+      body: {
+        messages: messagesWithSystem,
+        options: {
+          model: config.selectedModel,
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          top_p: options.topP,
+          ...(stream ? { stream: true } : {}),
+        },
+      },
+    };
+  },
+
+  parseResponse: (data) => ({ content: data?.message?.content || "" }),
+
+  // Handle different chunk formats (OpenAI-style deltas or bare { content, thinking })
+  parseStreamEvent: (chunk) => {
+    const delta = chunk?.choices?.[0]?.delta || chunk?.delta || chunk;
+    return { content: delta?.content, thinking: delta?.thinking };
+  },
+
+  transport: {
+    send: (request, signal) => abortable(puterChat(request), signal),
+    stream: async function* (request, signal) {
+      const stream = (await abortable(puterChat(request), signal)) as AsyncIterable<unknown>;
+      for await (const chunk of stream) {
+        if (signal?.aborted) {
+          throw new DOMException("The operation was aborted", "AbortError");
+        }
+        yield chunk;
+      }
+    },
+  },
+
+  listModels: async () => {
+    // Puter.js models are fetched client-side via window.puter.ai.listModels()
+    return { models: [], error: "Puter.js models must be fetched client-side" };
+  },
+
+  testConnection: async () => {
+    // Puter.js doesn't need API key - just check if it's available
+    if (typeof window === "undefined" || !window.puter) {
+      return { success: false, message: "Puter.js is not available. Please refresh the page." };
+    }
+    try {
+      // Try a minimal model list call to verify connection
+      await window.puter.ai.listModels();
+      return { success: true, message: "Puter.js is connected and ready to use." };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
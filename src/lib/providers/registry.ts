@@ -0,0 +1,38 @@
+// Provider registry
+// Built-in adapters are registered by ./index; other code (e.g. a plugin) can add its own adapter
+// or replace a built-in one with registerProvider.
+
+import { LLMProvider, LLMProviderType, ProviderConfig } from "../types";
+import { ProviderAdapter } from "./adapter";
+
+const adapters = new Map<string, ProviderAdapter>();
+
+// Registered providers in registration order (kept up to date in place, so imports see new providers)
+export const AVAILABLE_PROVIDERS: LLMProvider[] = [];
+
+// Add an adapter, or replace the adapter registered under the same provider id
+export const registerProvider = (adapter: ProviderAdapter): void => {
+  const id = adapter.provider.id;
+  adapters.set(id, adapter);
+
+  const index = AVAILABLE_PROVIDERS.findIndex((p) => p.id === id);
+  if (index === -1) {
+    AVAILABLE_PROVIDERS.push(adapter.provider);
+  } else {
+    AVAILABLE_PROVIDERS[index] = adapter.provider;
+  }
+};
+
+export const getProviderAdapter = (id: string): ProviderAdapter | undefined => adapters.get(id);
+
+// A value for every registered provider (e.g. the initial per-provider state)
+export const createProviderRecord = <T>(create: (provider: LLMProvider) => T): Record<LLMProviderType, T> =>
+  Object.fromEntries(AVAILABLE_PROVIDERS.map((provider) => [provider.id, create(provider)]));
+
+// Config of a provider that hasn't been set up (providers that need no key or server start enabled)
+export const getDefaultProviderConfig = (provider: LLMProvider): ProviderConfig => ({
+  type: provider.id,
+  isEnabled: !provider.requiresApiKey && !provider.requiresBaseUrl,
+  profiles: [],
+  activeProfileId: null,
+});
@@ -0,0 +1,216 @@
+// Request runner: sends a chat through the provider's adapter and transport
+// (validation, attachments, response parsing, cumulative stream chunks and aborts)
+
+import { Message, ProviderConfig } from "../types";
+import {
+  ChatOptions,
+  ChatResponse,
+  ProviderAdapter,
+  ProviderJson,
+  ProviderTransport,
+  StreamCallback,
+  getErrorMessage,
+  getErrorStatus,
+  httpError,
+} from "./adapter";
+import { getProviderAdapter } from "./registry";
+
+// Default transport: fetch with a JSON body; streams are read as SSE "data:" lines or
+// newline-delimited JSON (Ollama), and each JSON event is yielded
+const httpTransport: ProviderTransport = {
+  send: async (request, signal) => {
+    const response = await fetch(request.url, {
+      method: request.method || "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request.body),
+    });
+
+    if (!response.ok) {
+      // Gateways answer rate limits and outages with HTML too, so the body may not be JSON
+      const errorData = await response.json().catch(() => null);
+      throw httpError(getErrorMessage(errorData, response.status), response.status);
+    }
+    return response.json();
+  },
+
+  stream: async function* (request, signal) {
+    const response = await fetch(request.url, {
+      method: request.method || "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request.body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw httpError(getErrorMessage(errorData, response.status), response.status);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("Failed to get response stream");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      // The last line may be incomplete until the stream ends
+      buffer = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        // Event names, [DONE] and keep-alive comments carry no JSON
+        const jsonStr = (line.startsWith("data: ") ? line.slice(6) : line).trim();
+        if (!jsonStr.startsWith("{")) continue;
+
+        let event: unknown;
+        try {
+          event = JSON.parse(jsonStr);
+        } catch {
+          continue; // Skip invalid JSON
+        }
+        yield event;
+      }
+
+      if (done) break;
+    }
+  },
+};
+
+// Status of an error thrown by a transport (see httpError)
+const getThrownStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+// Attachments are only sent when the provider and the selected model can take images
+const withSupportedAttachments = (adapter: ProviderAdapter, messages: Message[], options: ChatOptions): Message[] =>
+  adapter.capabilities.vision && options.sendImages
+    ? messages
+    : messages.map((m) => (m.attachments ? { ...m, attachments: undefined } : m));
+
+// Main chat function that routes to the correct provider
+export const sendChatMessage = async (
+  messages: Message[],
+  config: ProviderConfig,
+  options: ChatOptions
+): Promise<ChatResponse> => {
+  const response = await sendOnce(messages, config, options);
+  options.observer?.onFinish?.({ error: response.error, status: response.status, aborted: response.aborted });
+  return response;
+};
+
+const sendOnce = async (
+  messages: Message[],
+  config: ProviderConfig,
+  options: ChatOptions
+): Promise<ChatResponse> => {
+  const adapter = getProviderAdapter(config.type);
+  if (!adapter) {
+    return { error: `Unknown provider: ${config.type}` };
+  }
+
+  const invalid = adapter.validate?.(config);
+  if (invalid) {
+    return { error: invalid };
+  }
+
+  try {
+    const request = adapter.buildRequest(withSupportedAttachments(adapter, messages, options), config, options, false);
+    options.observer?.onRequest?.(config, request);
+    const data = await (adapter.transport || httpTransport).send(request, options.signal);
+    options.observer?.onEvent?.(data);
+    const response = adapter.parseResponse(data as ProviderJson);
+
+    return {
+      content: request.transformContent ? request.transformContent(response.content || "") : response.content,
+      thinking: response.thinking,
+    };
+  } catch (error) {
+    if (options.signal?.aborted) return { aborted: true };
+    return {
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      status: getThrownStatus(error),
+    };
+  }
+};
+
+// Main streaming function that routes to the correct provider
+// Chunks carry the full text so far, not just the new part
+export const streamChatMessage = async (
+  messages: Message[],
+  config: ProviderConfig,
+  options: ChatOptions,
+  streamCallback: StreamCallback
+): Promise<void> => {
+  // The last chunk (done or error) also finishes the request for the observer
+  const onChunk: StreamCallback = (chunk) => {
+    if (chunk.done || chunk.error) {
+      options.observer?.onFinish?.({ error: chunk.error, status: chunk.status, aborted: chunk.aborted });
+    }
+    streamCallback(chunk);
+  };
+  const adapter = getProviderAdapter(config.type);
+  if (!adapter) {
+    onChunk({ error: `Unknown provider: ${config.type}` });
+    return;
+  }
+
+  const invalid = adapter.validate?.(config);
+  if (invalid) {
+    onChunk({ error: invalid });
+    return;
+  }
+
+  let fullContent = "";
+  let fullThinking = "";
+  let transform = (content: string) => content;
+
+  try {
+    const request = adapter.buildRequest(withSupportedAttachments(adapter, messages, options), config, options, true);
+    if (request.transformContent) transform = request.transformContent;
+    options.observer?.onRequest?.(config, request);
+
+    for await (const event of (adapter.transport || httpTransport).stream(request, options.signal)) {
+      options.observer?.onEvent?.(event);
+      const data = event as ProviderJson;
+
+      // Check for error in stream (proxy errors are strings, API error events carry { message })
+      if (data?.error) {
+        onChunk({ error: getErrorMessage(data, 500), status: getErrorStatus(data) });
+        return;
+      }
+
+      const delta = adapter.parseStreamEvent(data);
+      if (delta?.error) {
+        onChunk({ error: delta.error });
+        return;
+      }
+      if (delta?.thinking) {
+        fullThinking += delta.thinking;
+        onChunk({ thinking: fullThinking });
+      }
+      if (delta?.content) {
+        fullContent += delta.content;
+        onChunk({ content: transform(fullContent) });
+      }
+    }
+
+    onChunk({ content: transform(fullContent), thinking: fullThinking, done: true });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      // Stopped by the user: finish with what was generated so far
+      onChunk({ content: transform(fullContent), thinking: fullThinking, done: true, aborted: true });
+      return;
+    }
+    onChunk({ error: error instanceof Error ? error.message : "Unknown error occurred", status: getThrownStatus(error) });
+  }
+};
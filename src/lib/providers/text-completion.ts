@@ -0,0 +1,159 @@
+// Text-completion adapter - local KoboldCpp / Ollama servers prompted through an instruct template
+
+import { ProviderConfig, TextCompletionBackend } from "../types";
+import { getInstructTemplate, getStopSequences, renderInstructPrompt, trimAtStopSequence } from "../instruct-templates";
+import { FetchedModel, ProviderAdapter, connectionFailed, parseHeaderLines, postJson } from "./adapter";
+
+// Default server URLs of the text-completion backends
+export const TEXT_COMPLETION_DEFAULT_URLS: Record<TextCompletionBackend, string> = {
+  koboldcpp: "http://localhost:5001",
+  ollama: "http://localhost:11434",
+};
+
+// GET an endpoint of the server through the proxy
+const getFromServer = (config: ProviderConfig, endpoint: string) =>
+  postJson("/api/text-completion", { baseUrl: config.baseUrl, endpoint, headers: parseHeaderLines(config.extraHeaders) });
+
+// List the models of a text-completion server
+// Ollama lists its installed models; KoboldCpp serves the single model it was started with
+const listTextCompletionModels = async (
+  config: ProviderConfig
+): Promise<{ models: FetchedModel[]; error?: string }> => {
+  if (!config.baseUrl?.trim()) {
+    return { models: [], error: "Base URL is required" };
+  }
+
+  if (config.textCompletion?.backend === "ollama") {
+    const { data, error } = await getFromServer(config, "api/tags");
+    if (error) {
+      return { models: [], error };
+    }
+
+    const models = (Array.isArray(data.models) ? data.models : [])
+      .filter((model: { name?: unknown }) => typeof model.name === "string")
+      .map((model: { name: string }) => ({
+        id: model.name,
+        provider: "text-completion",
+        name: model.name,
+      }));
+    return { models };
+  }
+
+  const { data, error } = await getFromServer(config, "api/v1/model");
+  if (error) {
+    return { models: [], error };
+  }
+
+  // Context size is a KoboldCpp extension; older servers just don't report it
+  const context = await getFromServer(config, "api/extra/true_max_context_length").catch(() => null);
+  const id = String(data.result || "koboldcpp");
+
+  return {
+    models: [{
+      id,
+      provider: "text-completion",
+      name: id.replace(/^koboldcpp\//, ""),
+      context: typeof context?.data?.value === "number" ? context.data.value : undefined,
+    }],
+  };
+};
+
+export const textCompletionAdapter: ProviderAdapter = {
+  provider: {
+    id: "text-completion",
+    name: "Text Completion (KoboldCpp / Ollama)",
+    description: "Local models via a raw completion API, prompted through an instruct template",
+    requiresApiKey: false,
+    requiresBaseUrl: true,
+    models: [], // Fetched from the server
+  },
+  capabilities: { thinking: false, thinkingLevel: false, vision: false },
+
+  validate: (config) => {
+    if (!config.baseUrl?.trim()) return "Text-completion server URL is required";
+    if (config.textCompletion?.backend === "ollama" && !config.selectedModel) return "Select an Ollama model first";
+    return undefined;
+  },
+
+  // The chat is rendered through the instruct template into one prompt
+  buildRequest: (messages, config, options, stream) => {
+    const settings = config.textCompletion;
+    const template = getInstructTemplate(settings?.template);
+    const prompt = renderInstructPrompt(messages, template, options.systemPrompt);
+    const stopSequences = getStopSequences(template, settings?.stopSequences);
+
+    const request = {
+      url: "/api/text-completion",
+      // Some servers include the stop sequence in the output
+      transformContent: (content: string) => trimAtStopSequence(content, stopSequences).trim(),
+    };
+    const server = { baseUrl: config.baseUrl, headers: parseHeaderLines(config.extraHeaders), stream };
+
+    if (settings?.backend === "ollama") {
+      // raw: the prompt is already templated, so Ollama must not apply the model's own template
+      return {
+        ...request,
+        body: {
+          ...server,
+          endpoint: "api/generate",
+          payload: {
+            model: config.selectedModel,
+            prompt,
+            raw: true,
+            stream,
+            options: {
+              temperature: options.temperature,
+              top_p: options.topP,
+              ...(options.topK > 0 ? { top_k: options.topK } : {}),
+              num_predict: options.maxTokens,
+              stop: stopSequences,
+            },
+          },
+        },
+      };
+    }
+
+    // KoboldCpp (KoboldAI United API); streaming uses the SSE extension endpoint
+    return {
+      ...request,
+      body: {
+        ...server,
+        endpoint: stream ? "api/extra/generate/stream" : "api/v1/generate",
+        payload: {
+          prompt,
+          max_length: options.maxTokens,
+          temperature: options.temperature,
+          top_p: options.topP,
+          ...(options.topK > 0 ? { top_k: options.topK } : {}),
+          stop_sequence: stopSequences,
+        },
+      },
+    };
+  },
+
+  // KoboldCpp returns { results: [{ text }] }, Ollama { response }
+  parseResponse: (data) => ({ content: data.results?.[0]?.text ?? data.response ?? "" }),
+
+  // KoboldCpp streams SSE { token }, Ollama newline-delimited JSON { response, done }
+  parseStreamEvent: (data) => ({ content: data.token ?? data.response }),
+
+  listModels: listTextCompletionModels,
+
+  testConnection: async (config) => {
+    if (!config.baseUrl?.trim()) {
+      return { success: false, message: "Base URL is required." };
+    }
+    try {
+      const { models, error } = await listTextCompletionModels(config);
+      if (error) {
+        return { success: false, message: error };
+      }
+      if (config.textCompletion?.backend === "ollama") {
+        return { success: true, message: `Connected to Ollama (${models.length} model${models.length === 1 ? "" : "s"} installed)` };
+      }
+      return { success: true, message: `Connected to KoboldCpp (model: ${models[0]?.name || "unknown"})` };
+    } catch (error) {
+      return connectionFailed(error);
+    }
+  },
+};
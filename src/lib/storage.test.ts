@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CollectionChanges,
+  CollectionName,
+  StorageBackend,
+  StoredRecord,
+  createCollectionSync,
+  mergeLoadedRecords,
+  migrateFromLocalStorage,
+} from "./storage";
+
+interface TestRecord extends StoredRecord {
+  name: string;
+}
+
+// In-memory backend that records its writes; failNext makes the next write throw
+const memoryBackend = (initial: Partial<Record<CollectionName, StoredRecord[]>> = {}) => {
+  const data = new Map<CollectionName, StoredRecord[]>(Object.entries(initial) as [CollectionName, StoredRecord[]][]);
+  const writes: CollectionChanges[] = [];
+  let failNext = false;
+  const backend: StorageBackend = {
+    name: "memory",
+    load: async (collection) => data.get(collection) || [],
+    write: async (collection, changes) => {
+      if (failNext) {
+        failNext = false;
+        throw new Error("Storage is full");
+      }
+      writes.push(changes);
+      const byId = new Map((data.get(collection) || []).map((record) => [record.id, record]));
+      changes.put.forEach((record) => byId.set(record.id, record));
+      changes.remove.forEach((id) => byId.delete(id));
+      const order = changes.order ?? [...byId.keys()];
+      data.set(collection, order.map((id) => byId.get(id)!).filter(Boolean));
+    },
+  };
+  return { backend, data, writes, failNextWrite: () => (failNext = true) };
+};
+
+// Let the sync's queued write run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const record = (id: string, name = id): TestRecord => ({ id, name });
+
+describe("createCollectionSync", () => {
+  it("writes only the records that changed and the ids that were removed", async () => {
+    const a = record("a");
+    const b = record("b");
+    const { backend, writes } = memoryBackend({ personas: [a, b] });
+    const sync = createCollectionSync<TestRecord>(backend, "personas", () => {});
+    expect(await sync.load()).toEqual([a, b]);
+
+    const renamed = record("a", "renamed");
+    sync.save([renamed, b]);
+    await settle();
+    sync.save([renamed]);
+    await settle();
+    sync.save([renamed]);
+    await settle();
+
+    expect(writes).toEqual([
+      { put: [renamed], remove: [], order: undefined },
+      { put: [], remove: ["b"], order: ["a"] },
+    ]);
+  });
+
+  it("writes the order only when it changed", async () => {
+    const a = record("a");
+    const b = record("b");
+    const { backend, data, writes } = memoryBackend({ characters: [a, b] });
+    const sync = createCollectionSync<TestRecord>(backend, "characters", () => {});
+    await sync.load();
+
+    sync.save([b, a]);
+    await settle();
+    expect(writes).toEqual([{ put: [], remove: [], order: ["b", "a"] }]);
+    expect(data.get("characters")).toEqual([b, a]);
+  });
+
+  it("retries the changes of a failed write with the next save", async () => {
+    const { backend, data, failNextWrite } = memoryBackend();
+    const results: unknown[] = [];
+    const sync = createCollectionSync<TestRecord>(backend, "lorebooks", (error) => results.push(error));
+    await sync.load();
+
+    const a = record("a");
+    failNextWrite();
+    sync.save([a]);
+    await settle();
+    expect(data.get("lorebooks")).toBeUndefined();
+
+    const b = record("b");
+    sync.save([a, b]);
+    await settle();
+    expect(data.get("lorebooks")).toEqual([a, b]);
+    expect(results).toEqual([expect.any(Error), null]);
+  });
+});
+
+describe("migrateFromLocalStorage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubLocalStorage = (items: Record<string, string>) => {
+    const store = new Map(Object.entries(items));
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      removeItem: (key: string) => store.delete(key),
+    });
+    return store;
+  };
+
+  it("moves records written to the localStorage fallback into IndexedDB and then removes them", async () => {
+    const stored = [record("a"), record("b")];
+    const store = stubLocalStorage({ chat_personas: JSON.stringify([record("b", "changed"), record("c")]) });
+    const { backend, data } = memoryBackend({ personas: stored });
+
+    await migrateFromLocalStorage(backend);
+    expect(data.get("personas")).toEqual([record("a"), record("b", "changed"), record("c")]);
+    expect(store.has("chat_personas")).toBe(false);
+  });
+
+  it("keeps the localStorage copy when the move fails", async () => {
+    const store = stubLocalStorage({ chat_conversations: JSON.stringify([record("a")]) });
+    const { backend, failNextWrite } = memoryBackend();
+    failNextWrite();
+
+    await expect(migrateFromLocalStorage(backend)).rejects.toThrow();
+    expect(store.has("chat_conversations")).toBe(true);
+  });
+});
+
+describe("mergeLoadedRecords", () => {
+  it("keeps records created while the collection was loading", () => {
+    const loaded = [{ id: "a", name: "stored" }, { id: "b", name: "stored" }];
+    const current = [{ id: "c", name: "new" }];
+    expect(mergeLoadedRecords(loaded, current).map((record) => record.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("prefers the current version of a record over the loaded one", () => {
+    const edited = { id: "a", name: "edited" };
+    expect(mergeLoadedRecords([{ id: "a", name: "stored" }], [edited])).toEqual([edited]);
+  });
+});
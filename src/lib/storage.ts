@@ -0,0 +1,263 @@
+// Persistent storage of personas, characters, conversations and world lorebooks
+// A StorageBackend keeps every record on its own, so a change writes only the records that changed.
+// IndexedDB is used where it is available: the collections used to be one localStorage JSON blob
+// each and are moved over. Where it isn't, the localStorage backend keeps the blobs (and what is
+// written there is moved over once IndexedDB opens again).
+
+export type CollectionName = "personas" | "characters" | "conversations" | "lorebooks";
+
+const COLLECTIONS: CollectionName[] = ["personas", "characters", "conversations", "lorebooks"];
+
+// Where the collections were kept before IndexedDB (and still are with the localStorage backend)
+const LOCAL_STORAGE_KEYS: Record<CollectionName, string> = {
+  personas: "chat_personas",
+  characters: "chat_characters",
+  conversations: "chat_conversations",
+  lorebooks: "chat_lorebooks",
+};
+
+export interface StoredRecord {
+  id: string;
+}
+
+// Changes to one collection: records to write, ids to delete, and the new order when it changed
+export interface CollectionChanges {
+  put: StoredRecord[];
+  remove: string[];
+  order?: string[];
+}
+
+export interface StorageBackend {
+  name: string;
+  warning?: string; // Why stored data may be missing (IndexedDB failed and the fallback is used)
+  load: (collection: CollectionName) => Promise<StoredRecord[]>; // In the saved order
+  write: (collection: CollectionName, changes: CollectionChanges) => Promise<void>;
+}
+
+const DB_NAME = "roleplay-studio";
+const DB_VERSION = 1;
+const META_STORE = "meta"; // Record order per collection
+
+const orderKey = (collection: CollectionName) => `order:${collection}`;
+
+// Storage full (browsers name it differently)
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED" || error.code === 22);
+
+// Message for a failed write
+export const describeStorageError = (error: unknown): string =>
+  isQuotaError(error)
+    ? "Browser storage is full, so recent changes are not saved. Export a backup, then delete old chats or large images."
+    : `Changes could not be saved: ${error instanceof Error ? error.message : "Unknown error"}`;
+
+// localStorage write that returns the error (e.g. storage full) instead of throwing
+export const setLocalStorageItem = (key: string, value: string): unknown => {
+  try {
+    localStorage.setItem(key, value);
+    return null;
+  } catch (error) {
+    return error;
+  }
+};
+
+// Records in the saved order (records missing from it go last)
+const sortByOrder = (records: StoredRecord[], order: unknown): StoredRecord[] => {
+  const position = new Map((Array.isArray(order) ? order : []).map((id, i) => [id, i]));
+  return [...records].sort(
+    (a, b) => (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+  );
+};
+
+const readLocalStorageCollection = (collection: CollectionName): StoredRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEYS[collection]) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((record) => typeof record?.id === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once the transaction has committed (a full storage aborts it with a QuotaExceededError)
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      COLLECTIONS.forEach((collection) => request.result.createObjectStore(collection, { keyPath: "id" }));
+      request.result.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDBBackend = (db: IDBDatabase): StorageBackend => ({
+  name: "IndexedDB",
+  load: async (collection) => {
+    const transaction = db.transaction([collection, META_STORE], "readonly");
+    const [records, order] = await Promise.all([
+      requestResult(transaction.objectStore(collection).getAll()),
+      requestResult(transaction.objectStore(META_STORE).get(orderKey(collection))),
+    ]);
+    return sortByOrder(records, order);
+  },
+  write: (collection, changes) => {
+    const transaction = db.transaction([collection, META_STORE], "readwrite");
+    const store = transaction.objectStore(collection);
+    changes.put.forEach((record) => store.put(record));
+    changes.remove.forEach((id) => store.delete(id));
+    if (changes.order) {
+      transaction.objectStore(META_STORE).put(changes.order, orderKey(collection));
+    }
+    return transactionDone(transaction);
+  },
+});
+
+// Fallback where IndexedDB can't be opened: each collection stays one JSON blob
+const createLocalStorageBackend = (): StorageBackend => {
+  const loaded = new Map<CollectionName, StoredRecord[]>();
+  return {
+    name: "localStorage",
+    load: async (collection) => {
+      const records = readLocalStorageCollection(collection);
+      loaded.set(collection, records);
+      return records;
+    },
+    write: async (collection, changes) => {
+      const previous = loaded.get(collection) || [];
+      const byId = new Map(previous.map((record) => [record.id, record]));
+      changes.put.forEach((record) => byId.set(record.id, record));
+      changes.remove.forEach((id) => byId.delete(id));
+      const records = sortByOrder([...byId.values()], changes.order ?? previous.map((record) => record.id));
+      localStorage.setItem(LOCAL_STORAGE_KEYS[collection], JSON.stringify(records));
+      loaded.set(collection, records);
+    },
+  };
+};
+
+// Move the localStorage blobs into IndexedDB: the collections saved before IndexedDB was used, and
+// the changes of sessions that fell back to localStorage. Their records replace stored ones with the
+// same id; new ones go last. The blobs are removed (freeing the localStorage quota for the settings)
+// only once every record has been read back from IndexedDB, so a failed move leaves them to the fallback.
+export const migrateFromLocalStorage = async (backend: StorageBackend) => {
+  const moved = COLLECTIONS.filter((collection) => localStorage.getItem(LOCAL_STORAGE_KEYS[collection]) !== null);
+  for (const collection of moved) {
+    const records = readLocalStorageCollection(collection);
+    if (records.length > 0) {
+      const storedIds = (await backend.load(collection)).map((record) => record.id);
+      const known = new Set(storedIds);
+      const order = [...storedIds, ...records.map((record) => record.id).filter((id) => !known.has(id))];
+      await backend.write(collection, { put: records, remove: [], order });
+
+      const written = new Set((await backend.load(collection)).map((record) => record.id));
+      if (records.some((record) => !written.has(record.id))) {
+        throw new Error(`Moving ${collection} to IndexedDB could not be verified`);
+      }
+    }
+  }
+  moved.forEach((collection) => localStorage.removeItem(LOCAL_STORAGE_KEYS[collection]));
+};
+
+// The IndexedDB backend (after moving the localStorage blobs over), or the localStorage backend when
+// IndexedDB is unavailable (e.g. blocked by the browser) or the move fails
+export const openStorage = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === "undefined") return createLocalStorageBackend();
+  let db: IDBDatabase | null = null;
+  try {
+    db = await openDatabase();
+    const backend = createIndexedDBBackend(db);
+    await migrateFromLocalStorage(backend);
+    return backend;
+  } catch (error) {
+    console.error("IndexedDB is not available, keeping data in localStorage:", error);
+    db?.close();
+    return {
+      ...createLocalStorageBackend(),
+      warning: "Browser storage (IndexedDB) could not be used, so data saved there may be missing. Changes are kept in localStorage and moved over once it works again.",
+    };
+  }
+};
+
+// Loaded records with the state changed while they were loading: records in both keep their current
+// version, records created meanwhile go last
+export const mergeLoadedRecords = <T extends StoredRecord>(loaded: T[], current: T[]): T[] => {
+  const currentById = new Map(current.map((record) => [record.id, record]));
+  const loadedIds = new Set(loaded.map((record) => record.id));
+  return [
+    ...loaded.map((record) => currentById.get(record.id) ?? record),
+    ...current.filter((record) => !loadedIds.has(record.id)),
+  ];
+};
+
+export interface CollectionSync<T extends StoredRecord> {
+  load: () => Promise<T[]>;
+  save: (records: T[]) => void;
+}
+
+// Keeps a stored collection in step with its state. save() writes only the records whose object
+// changed since the last write (state updates replace the records they change), removed ids, and
+// the order when it changed. Writes run one at a time; changes made meanwhile go into the next one.
+// onResult gets the error of a failed write (whose changes are retried with the next save) or null.
+export const createCollectionSync = <T extends StoredRecord>(
+  backend: StorageBackend,
+  collection: CollectionName,
+  onResult: (error: unknown) => void
+): CollectionSync<T> => {
+  let written = new Map<string, T | null>(); // null: stored, but the content may be out of date
+  let writtenOrder: string[] = [];
+  let pending: T[] | null = null;
+  let writing = false;
+
+  const flush = async () => {
+    writing = true;
+    while (pending) {
+      const records: T[] = pending;
+      pending = null;
+      const ids = records.map((record) => record.id);
+      const current = new Set(ids);
+      const changes: CollectionChanges = {
+        put: records.filter((record) => written.get(record.id) !== record),
+        remove: [...written.keys()].filter((id) => !current.has(id)),
+        order: ids.length !== writtenOrder.length || ids.some((id, i) => id !== writtenOrder[i]) ? ids : undefined,
+      };
+      if (changes.put.length === 0 && changes.remove.length === 0 && !changes.order) continue;
+
+      try {
+        await backend.write(collection, changes);
+        written = new Map(records.map((record) => [record.id, record]));
+        writtenOrder = ids;
+        onResult(null);
+      } catch (error) {
+        written = new Map([...written.keys(), ...ids].map((id) => [id, null]));
+        writtenOrder = [];
+        onResult(error);
+      }
+    }
+    writing = false;
+  };
+
+  return {
+    load: async () => {
+      const records = (await backend.load(collection)) as T[];
+      written = new Map(records.map((record) => [record.id, record]));
+      writtenOrder = records.map((record) => record.id);
+      return records;
+    },
+    save: (records) => {
+      pending = records;
+      if (!writing) void flush();
+    },
+  };
+};
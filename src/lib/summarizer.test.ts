@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { removeFromSummary } from "./summarizer";
+
+const summary = { text: "Story so far", coveredCount: 5, updatedAt: 0 };
+
+describe("removeFromSummary", () => {
+  it("stops counting removed messages the summary covered", () => {
+    expect(removeFromSummary(summary, [0])?.coveredCount).toBe(4);
+    expect(removeFromSummary(summary, [3, 4, 5, 6])?.coveredCount).toBe(3);
+  });
+
+  it("keeps the summary when no covered message was removed", () => {
+    expect(removeFromSummary(summary, [5, 8])).toBe(summary);
+    expect(removeFromSummary(undefined, [0])).toBeUndefined();
+  });
+});
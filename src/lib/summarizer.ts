@@ -0,0 +1,121 @@
+// Rolling chat summary (long-term memory)
+// When the unsummarized history is about to outgrow the context, its oldest messages are folded into
+// a running summary stored on the conversation. The summary is sent as [Story So Far], and the
+// messages it covers are the first ones the context budget drops.
+
+import { ConversationSummary, Message, ProviderConfig } from "./types";
+import { sendChatMessage } from "./providers";
+import { TokenCounter, countMessageTokens } from "./tokenizer";
+
+const SUMMARY_TRIGGER = 0.9; // Summarize once the unsummarized history fills this share of its budget
+const SUMMARY_TARGET = 0.6; // ...folding the oldest messages until it is down to this share
+export const KEEP_RECENT_MESSAGES = 4; // The latest messages are never folded
+const SUMMARY_CHUNK_TOKENS = 6000; // Transcript per summarization request (keeps cheap models within their context)
+const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_INSTRUCTIONS = `You keep the running summary of a roleplay between {{char}} and {{user}}.
+Merge the new part of the story into the existing summary. Keep what matters later on: events, decisions, \
+relationships, promises, secrets, injuries, items, places and open plot threads. Drop small talk and \
+descriptions that don't matter anymore. Write in past tense, third person, as compact prose (no lists), \
+and answer with the updated summary only.`;
+
+export interface SummaryNames {
+  characterName: string;
+  personaName: string;
+}
+
+// Number of leading messages the summary should cover: unchanged while the unsummarized history
+// fits comfortably in `historyBudget`, otherwise enough to bring it back down to SUMMARY_TARGET
+export const getSummaryCoverage = (
+  messages: Message[],
+  coveredCount: number,
+  historyBudget: number,
+  tokenCounter: TokenCounter
+): number => {
+  const start = Math.min(coveredCount, messages.length);
+  const tokens = messages.map((message) => countMessageTokens(message, tokenCounter));
+  let unsummarized = tokens.slice(start).reduce((sum, count) => sum + count, 0);
+  if (unsummarized <= historyBudget * SUMMARY_TRIGGER) return start;
+
+  let coverage = start;
+  const limit = messages.length - KEEP_RECENT_MESSAGES;
+  while (coverage < limit && unsummarized > historyBudget * SUMMARY_TARGET) {
+    unsummarized -= tokens[coverage];
+    coverage++;
+  }
+  return coverage;
+};
+
+// The summary after messages were removed from the conversation (`removedIndexes` are their positions
+// before the removal): removed messages it covered no longer count
+export const removeFromSummary = (
+  summary: ConversationSummary | undefined,
+  removedIndexes: number[]
+): ConversationSummary | undefined => {
+  if (!summary) return summary;
+  const removedCovered = removedIndexes.filter((index) => index < summary.coveredCount).length;
+  return removedCovered > 0 ? { ...summary, coveredCount: summary.coveredCount - removedCovered } : summary;
+};
+
+// Messages as a plain transcript (continue instructions and inserted system text left out)
+const toTranscript = (messages: Message[], names: SummaryNames): string =>
+  messages
+    .filter((m) => m.role !== "system" && !m.isContinue && m.content.trim())
+    .map((m) => `${m.role === "assistant" ? names.characterName : names.personaName}: ${m.content.trim()}`)
+    .join("\n\n");
+
+// Split messages into runs of at most SUMMARY_CHUNK_TOKENS (a longer single message is its own run)
+const toChunks = (messages: Message[], tokenCounter: TokenCounter): Message[][] => {
+  const chunks: Message[][] = [];
+  let current: Message[] = [];
+  let currentTokens = 0;
+  for (const message of messages) {
+    const tokens = countMessageTokens(message, tokenCounter);
+    if (current.length > 0 && currentTokens + tokens > SUMMARY_CHUNK_TOKENS) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(message);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// Fold messages into the previous summary (one request per chunk of the transcript)
+export const summarizeMessages = async (
+  config: ProviderConfig,
+  previousSummary: string,
+  messages: Message[],
+  names: SummaryNames,
+  tokenCounter: TokenCounter,
+  signal?: AbortSignal
+): Promise<{ summary: string } | { error: string }> => {
+  const systemPrompt = SUMMARY_INSTRUCTIONS
+    .replace(/\{\{char\}\}/g, names.characterName)
+    .replace(/\{\{user\}\}/g, names.personaName);
+  let summary = previousSummary;
+
+  for (const chunk of toChunks(messages, tokenCounter)) {
+    const transcript = toTranscript(chunk, names);
+    if (!transcript) continue;
+
+    const response = await sendChatMessage(
+      [
+        {
+          role: "user",
+          content: `[Summary so far]\n${summary || "(none yet)"}\n\n[New part of the story]\n${transcript}\n\nWrite the updated summary.`,
+        },
+      ],
+      config,
+      { temperature: 0.3, maxTokens: SUMMARY_MAX_TOKENS, topP: 0.9, topK: 40, systemPrompt, signal }
+    );
+    if (response.error) return { error: response.error };
+    if (response.aborted) return { error: "Summarization was stopped" };
+    if (!response.content?.trim()) return { error: "The model returned an empty summary" };
+    summary = response.content.trim();
+  }
+
+  return { summary };
+};
@@ -0,0 +1,61 @@
+// Swipe utilities
+// An assistant message can hold several alternative replies ("swipes").
+// The message's content/thinking/servedBy/generationId always mirror the active swipe, so prompt building
+// and rendering keep reading `content`; the swipes array stores the alternatives.
+
+import { Message, MessageSwipe } from "./types";
+
+// The swipe fields of a message
+const toSwipe = (message: Message): MessageSwipe => ({
+  content: message.content,
+  thinking: message.thinking,
+  servedBy: message.servedBy,
+  generationId: message.generationId,
+});
+
+// Index of the active swipe (clamped to the stored alternatives)
+export const getSwipeIndex = (message: Message): number => {
+  const count = message.swipes?.length ?? 1;
+  return Math.min(Math.max(message.swipeIndex ?? 0, 0), count - 1);
+};
+
+// All alternatives of a message (a message without swipes has exactly one)
+export const getSwipes = (message: Message): MessageSwipe[] => {
+  if (!message.swipes?.length) {
+    return [toSwipe(message)];
+  }
+  // The active slot is refreshed from content, which may have been edited or continued
+  return message.swipes.map((swipe, i) =>
+    i === getSwipeIndex(message) ? toSwipe(message) : swipe
+  );
+};
+
+// Make another swipe the active one
+export const selectSwipe = (message: Message, index: number): Message => {
+  const swipes = getSwipes(message);
+  if (index < 0 || index >= swipes.length) return message;
+
+  return {
+    ...message,
+    content: swipes[index].content,
+    thinking: swipes[index].thinking,
+    servedBy: swipes[index].servedBy,
+    generationId: swipes[index].generationId,
+    swipes,
+    swipeIndex: index,
+  };
+};
+
+// Add a new alternative and make it active
+export const addSwipe = (message: Message, swipe: MessageSwipe): Message => {
+  const swipes = [...getSwipes(message), swipe];
+  return {
+    ...message,
+    content: swipe.content,
+    thinking: swipe.thinking,
+    servedBy: swipe.servedBy,
+    generationId: swipe.generationId,
+    swipes,
+    swipeIndex: swipes.length - 1,
+  };
+};
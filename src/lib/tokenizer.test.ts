@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderConfig } from "./types";
+import { getProviderAdapter } from "./providers";
+import { getTokenCounter } from "./tokenizer";
+
+const adapter = getProviderAdapter("google-ai-studio")!;
+
+const config = (selectedModel: string): ProviderConfig => ({
+  type: "google-ai-studio",
+  isEnabled: true,
+  profiles: [],
+  activeProfileId: null,
+  apiKey: "key",
+  selectedModel,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("endpoint token counts", () => {
+  it("are exact once the endpoint has counted every text", async () => {
+    vi.spyOn(adapter, "countTokens").mockImplementation(async (text) => text.length);
+    const counter = await getTokenCounter(config("gemini-exact-test"));
+    expect(counter.exact).toBe(false);
+
+    await counter.prepare?.(["hello", "world!"]);
+    expect(counter.exact).toBe(true);
+    expect(counter.count("world!")).toBe(6);
+  });
+
+  it("are approximate when the endpoint fails", async () => {
+    vi.spyOn(adapter, "countTokens").mockRejectedValue(new Error("HTTP 500"));
+    const counter = await getTokenCounter(config("gemini-failure-test"));
+
+    await counter.prepare?.(["hello"]);
+    expect(counter.exact).toBe(false);
+    expect(counter.count("hello")).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,191 @@
+// Token counting
+// Texts are counted with a bundled BPE tokenizer (gpt-tokenizer): exact for OpenAI models, a close
+// approximation for other model families. Providers with a token counting endpoint (Gemini
+// countTokens) are asked instead. Counts are cached per text, so every message is counted once.
+
+import { Message, ProviderConfig } from "./types";
+import { getProviderAdapter } from "./providers";
+
+export interface TokenCounter {
+  id: string; // Cache key (tokenizer, or provider and model for endpoint counts)
+  name: string; // Shown with the context meter
+  exact: boolean; // Counts match the model's tokenizer (otherwise an approximation)
+  count: (text: string) => number;
+  // Fetch counts that need a request (provider endpoints); until then count() estimates
+  prepare?: (texts: string[], signal?: AbortSignal) => Promise<void>;
+}
+
+// A bundled tokenizer and the models it is used for
+export interface TokenizerEntry {
+  id: string;
+  name: string;
+  matches: (modelId: string) => boolean;
+  exact: boolean; // Whether it is the matched models' own tokenizer
+  load: () => Promise<(text: string) => number>; // Loaded on first use (the vocabularies are large)
+}
+
+const MESSAGE_OVERHEAD = 4; // Role and separator tokens around each message
+const IMAGE_TOKENS = 800; // Rough cost of one attached image (every provider counts differently)
+const MAX_CACHED_COUNTS = 5000;
+const REMOTE_CONCURRENCY = 4; // Parallel countTokens requests
+const REMOTE_MAX_PER_CALL = 50; // Texts counted by the endpoint per prepare(); the rest follow later
+const REMOTE_RETRY_MS = 60 * 1000; // After a failed countTokens request the endpoint is left alone for a while
+
+// Special tokens like <|endoftext|> in chat text are counted as plain text instead of throwing
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+// Tokenizers checked in order; registered ones go first, the last one matches every model
+const tokenizers: TokenizerEntry[] = [
+  {
+    id: "o200k_base",
+    name: "o200k_base",
+    matches: (modelId) => /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|(^|\/)o[134](-|$)|gpt-oss/i.test(modelId),
+    exact: true,
+    load: async () => {
+      const { countTokens } = await import("gpt-tokenizer/encoding/o200k_base");
+      return (text) => countTokens(text, PLAIN_TEXT);
+    },
+  },
+  {
+    id: "cl100k_base",
+    name: "cl100k_base",
+    matches: (modelId) => /gpt-4|gpt-3\.5/i.test(modelId),
+    exact: true,
+    load: async () => {
+      const { countTokens } = await import("gpt-tokenizer/encoding/cl100k_base");
+      return (text) => countTokens(text, PLAIN_TEXT);
+    },
+  },
+  {
+    // Llama, Mistral, Claude, GLM, DeepSeek etc. tokenize within a few percent of cl100k on
+    // English and far closer than a character estimate on CJK text
+    id: "cl100k_base-approx",
+    name: "cl100k_base (approximate)",
+    matches: () => true,
+    exact: false,
+    load: async () => {
+      const { countTokens } = await import("gpt-tokenizer/encoding/cl100k_base");
+      return (text) => countTokens(text, PLAIN_TEXT);
+    },
+  },
+];
+
+// Add a tokenizer; it takes precedence over the built-in ones for the models it matches
+export const registerTokenizer = (entry: TokenizerEntry) => {
+  tokenizers.unshift(entry);
+};
+
+// Count cache by counter id and text (oldest entries are dropped first)
+const counts = new Map<string, number>();
+const cacheKey = (counterId: string, text: string) => `${counterId}\u0000${text}`;
+const storeCount = (key: string, count: number) => {
+  counts.set(key, count);
+  if (counts.size > MAX_CACHED_COUNTS) {
+    counts.delete(counts.keys().next().value as string);
+  }
+};
+
+const cachedCounter = (id: string, name: string, exact: boolean, countText: (text: string) => number): TokenCounter => ({
+  id,
+  name,
+  exact,
+  count: (text) => {
+    if (!text) return 0;
+    const key = cacheKey(id, text);
+    const cached = counts.get(key);
+    if (cached !== undefined) return cached;
+    const count = countText(text);
+    storeCount(key, count);
+    return count;
+  },
+});
+
+// Used until a tokenizer has loaded (or when it fails to): CJK characters are about a token each,
+// other text about four characters per token
+export const ESTIMATE_COUNTER: TokenCounter = cachedCounter("estimate", "estimate", false, (text) => {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length ?? 0;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+});
+
+// Loaded tokenizers by entry id (a failed load is retried on the next call)
+const loaded = new Map<string, Promise<TokenCounter>>();
+
+const loadTokenizer = (entry: TokenizerEntry): Promise<TokenCounter> => {
+  let counter = loaded.get(entry.id);
+  if (!counter) {
+    counter = entry.load().then((countText) => cachedCounter(entry.id, entry.name, entry.exact, countText));
+    counter.catch(() => loaded.delete(entry.id));
+    loaded.set(entry.id, counter);
+  }
+  return counter;
+};
+
+// When each provider endpoint last failed, by counter id
+const remoteFailures = new Map<string, number>();
+
+// Counts from the provider's endpoint, with the local counter for texts it hasn't counted yet
+const remoteCounter = (
+  config: ProviderConfig,
+  countTokens: (text: string, config: ProviderConfig, signal?: AbortSignal) => Promise<number>,
+  providerName: string,
+  local: TokenCounter
+): TokenCounter => {
+  const id = `${config.type}:${config.selectedModel}`;
+  // Whether the endpoint counted every text of the last prepare() (otherwise some are local counts)
+  let allCounted = false;
+  const countedAll = (texts: string[]) => texts.every((text) => !text || counts.has(cacheKey(id, text)));
+  return {
+    id,
+    name: `${providerName} countTokens`,
+    get exact() {
+      return allCounted || local.exact;
+    },
+    count: (text) => (text ? counts.get(cacheKey(id, text)) ?? local.count(text) : 0),
+    prepare: async (texts, signal) => {
+      allCounted = countedAll(texts);
+      if (Date.now() - (remoteFailures.get(id) ?? 0) < REMOTE_RETRY_MS) return;
+
+      // Newest texts first (they come last in a conversation)
+      const missing = [...new Set(texts)].filter((text) => text && !counts.has(cacheKey(id, text)));
+      const queue = missing.slice(-REMOTE_MAX_PER_CALL).reverse();
+      const worker = async () => {
+        for (let text = queue.shift(); text !== undefined; text = queue.shift()) {
+          storeCount(cacheKey(id, text), await countTokens(text, config, signal));
+        }
+      };
+      try {
+        await Promise.all(Array.from({ length: REMOTE_CONCURRENCY }, worker));
+      } catch {
+        // Local counts stand in for whatever the endpoint couldn't count
+        if (!signal?.aborted) remoteFailures.set(id, Date.now());
+      }
+      allCounted = countedAll(texts);
+    },
+  };
+};
+
+// Token counter for a provider config: the provider's endpoint when it has one (and the config can
+// make requests), otherwise the bundled tokenizer matching the model
+export const getTokenCounter = async (config: ProviderConfig): Promise<TokenCounter> => {
+  const modelId = config.selectedModel || "";
+  const entry = tokenizers.find((t) => t.matches(modelId));
+  const local = entry ? await loadTokenizer(entry).catch(() => ESTIMATE_COUNTER) : ESTIMATE_COUNTER;
+
+  const adapter = getProviderAdapter(config.type);
+  if (!adapter?.countTokens || !modelId || adapter.validate?.(config)) {
+    return local;
+  }
+  return remoteCounter(config, adapter.countTokens, adapter.provider.name, local);
+};
+
+// Tokens a message takes up in the prompt (reasoning of earlier replies is not sent back)
+export const countMessageTokens = (message: Message, counter: TokenCounter): number =>
+  counter.count(message.content) + MESSAGE_OVERHEAD + (message.attachments?.length ?? 0) * IMAGE_TOKENS;
+
+// Fetch endpoint counts for system prompt texts and messages before counting them
+export const prepareTokenCounts = (
+  counter: TokenCounter,
+  systemTexts: string[],
+  messages: Message[],
+  signal?: AbortSignal
+): Promise<void> => counter.prepare?.([...systemTexts, ...messages.map((m) => m.content)], signal) ?? Promise.resolve();
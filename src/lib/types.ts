@@ -5,6 +5,7 @@ export interface Persona {
   id: string;
   name: string;
   description: string;
+  lorebookIds?: string[]; // Attached world lorebooks
   createdAt: number;
 }
 
@@ -15,26 +16,55 @@ export interface Character {
   description: string;
   firstMessage: string;
   // SillyTavern extended fields
+  personality?: string;
   mesExample?: string;
   scenario?: string;
   creatorNotes?: string;
   tags?: string[];
   avatar?: string; // URL or base64
+  creator?: string;
+  characterVersion?: string;
   // Instruction fields (SillyTavern style)
   systemPrompt?: string; // Main system prompt override
   postHistoryInstructions?: string; // Instructions after chat history
   characterBook?: CharacterBook; // Lorebook for dynamic context
   // Alternate greetings
   alternateGreetings?: string[];
+  // Character Card V3 fields
+  nickname?: string; // Used in place of name for {{char}}
+  creatorNotesMultilingual?: Record<string, string>; // Language code -> creator notes
+  groupOnlyGreetings?: string[]; // Greetings only used in group chats
+  assets?: CharacterAsset[];
+  source?: string[]; // Where the card came from (URLs or IDs)
+  creationDate?: number; // Unix timestamp (seconds) from the card
+  modificationDate?: number; // Unix timestamp (seconds) from the card
+  // Card metadata
+  extensions?: Record<string, unknown>; // Unknown/app-specific card data, preserved on export
+  cardSpec?: CharacterCardSpec; // Spec the card was imported from (export uses the same)
+  lorebookIds?: string[]; // Attached world lorebooks (not part of the card)
   createdAt: number;
 }
 
+// Supported character card specs
+export type CharacterCardSpec = "chara_card_v2" | "chara_card_v3";
+
+// Character Card V3 asset (icon, background, emotion, ...)
+export interface CharacterAsset {
+  type: string;
+  uri: string; // URL, data URI, or "ccdefault:" for the embedded image
+  name: string;
+  ext: string;
+}
+
 // Character Book (Lorebook) - dynamic context based on keywords
 export interface CharacterBook {
+  name?: string;
+  description?: string;
   entries: CharacterBookEntry[];
   scanDepth?: number; // How many messages to scan for keywords
   tokenBudget?: number; // Max tokens for lorebook content
   recursiveScanning?: boolean; // Scan triggered entries for more keywords
+  extensions?: Record<string, unknown>;
 }
 
 export interface CharacterBookEntry {
@@ -48,55 +78,110 @@ export interface CharacterBookEntry {
   caseSensitive?: boolean;
   name?: string; // Entry name for organization
   priority?: number; // Higher priority = more important
-  position?: "before_char" | "after_char" | "before_example" | "after_example";
+  position?: "before_char" | "after_char" | "before_example" | "after_example" | "at_depth";
+  useRegex?: boolean; // V3: keys are regular expressions (written as /pattern/flags)
+  matchWholeWords?: boolean; // Keys only match as whole words
   // Exclusion/inclusion
   excludeRecursion?: boolean;
   preventRecursion?: boolean;
   // Selective logic
-  selectiveLogic?: number; // 0 = AND, 1 = NOT, 2 = NOT OR
+  selective?: boolean; // Secondary keys are checked
+  selectiveLogic?: number; // 0 = AND (any), 1 = NOT (not all), 2 = NOT OR (none), 3 = AND ALL
   group?: string;
   groupOverride?: boolean;
   // Metadata
   comment?: string;
   constant?: boolean; // Always include
-  depth?: number; // How far back to insert
+  depth?: number; // How far back to insert (at_depth position only)
   selectivity?: number;
 }
 
-// SillyTavern Character Card V2 format
-export interface SillyTavernCharacterCard {
-  // V1 fields
+// Standalone world lorebook - shared between characters, personas and conversations
+export interface WorldLorebook extends CharacterBook {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Character Book as stored in card files (snake_case, per the V2/V3 spec)
+export interface SillyTavernCharacterBook {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions: Record<string, unknown>;
+  entries: SillyTavernCharacterBookEntry[];
+}
+
+export interface SillyTavernCharacterBookEntry {
+  keys: string[];
+  content: string;
+  extensions: Record<string, unknown>;
+  enabled: boolean;
+  insertion_order: number;
+  case_sensitive?: boolean;
+  use_regex?: boolean; // V3 only
+  name?: string;
+  priority?: number;
+  id?: number;
+  comment?: string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: string;
+}
+
+// Fields shared by the V2 and V3 card "data" object
+export interface SillyTavernCharacterCardData {
   name: string;
   description: string;
+  personality?: string;
   first_mes: string;
   mes_example?: string;
   scenario?: string;
   creator_notes?: string;
   tags?: string[];
   avatar?: string;
+  creator?: string;
+  character_version?: string;
+  system_prompt?: string;
+  post_history_instructions?: string;
+  character_book?: SillyTavernCharacterBook;
+  alternate_greetings?: string[];
+  extensions?: Record<string, unknown>;
+  // V3 fields
+  nickname?: string;
+  creator_notes_multilingual?: Record<string, string>;
+  group_only_greetings?: string[];
+  assets?: CharacterAsset[];
+  source?: string[];
+  creation_date?: number;
+  modification_date?: number;
+}
+
+// SillyTavern Character Card V1/V2/V3 format
+export interface SillyTavernCharacterCard {
+  // V1 fields
+  name?: string;
+  description?: string;
+  personality?: string;
+  first_mes?: string;
+  mes_example?: string;
+  scenario?: string;
+  creator_notes?: string;
+  tags?: string[];
+  avatar?: string;
   // V2 instruction fields
   system_prompt?: string;
   post_history_instructions?: string;
-  character_book?: CharacterBook;
+  character_book?: SillyTavernCharacterBook;
   alternate_greetings?: string[];
-  // V2 fields
+  // V2/V3 fields
   spec?: string;
   spec_version?: string;
-  data?: {
-    name: string;
-    description: string;
-    first_mes: string;
-    mes_example?: string;
-    scenario?: string;
-    creator_notes?: string;
-    tags?: string[];
-    avatar?: string;
-    system_prompt?: string;
-    post_history_instructions?: string;
-    character_book?: CharacterBook;
-    alternate_greetings?: string[];
-    extensions?: Record<string, unknown>;
-  };
+  data?: SillyTavernCharacterCardData;
 }
 
 // Chat message
@@ -105,6 +190,42 @@ export interface Message {
   content: string;
   thinking?: string; // For AI reasoning display
   isContinue?: boolean; // Flag for continue instruction messages (hidden in UI)
+  // Alternative assistant replies; content/thinking/servedBy/generationId mirror swipes[swipeIndex]
+  swipes?: MessageSwipe[];
+  swipeIndex?: number;
+  attachments?: MessageAttachment[]; // Images sent along with a user message
+  servedBy?: string; // Fallback chain entry that wrote the reply (unset when the active provider did)
+  generationId?: string; // Request inspector record of the generation that wrote the reply
+  pinned?: boolean; // Always kept when the history is truncated to fit the context
+  lorebookInsertion?: boolean; // At-depth lorebook content inserted for a request (never stored)
+}
+
+// What a part of the prompt is, for the context budget and the context map
+export type PromptSectionKind = "system" | "persona" | "lorebook" | "examples" | "summary" | "memory";
+
+// Part of the system prompt
+export interface PromptSection {
+  kind: PromptSectionKind;
+  text: string;
+}
+
+// Parts of the prompt the context budget may drop (in the configured order) when it is too long
+export type ContextDropTarget = "examples" | "lorebook" | "history";
+
+// An image attached to a message (stored with the conversation)
+export interface MessageAttachment {
+  type: "image";
+  mimeType: string; // e.g. "image/jpeg"
+  data: string; // Base64, without the data: URL prefix
+  name?: string; // Original file name
+}
+
+// One alternative reply of an assistant message
+export interface MessageSwipe {
+  content: string;
+  thinking?: string;
+  servedBy?: string;
+  generationId?: string;
 }
 
 // Conversation between a persona and character
@@ -113,12 +234,43 @@ export interface Conversation {
   personaId: string;
   characterId: string;
   messages: Message[];
+  lorebookIds?: string[]; // Attached world lorebooks
+  summary?: ConversationSummary; // Rolling summary of the older messages (long-term memory)
+  // Branching: the conversation this one was forked from, and how many messages it shares with it
+  // (messages then holds only the branch's own messages)
+  parentId?: string;
+  branchPointIndex?: number;
+  sharesHistory?: boolean; // Set on branches storing only their own messages (older ones kept a full copy)
   createdAt: number;
   updatedAt: number;
 }
 
+// Running summary of the first `coveredCount` messages of a conversation
+export interface ConversationSummary {
+  text: string;
+  coveredCount: number;
+  updatedAt: number;
+}
+
+// Model that writes chat summaries (unset in the settings: the active provider and model)
+export interface SummaryModel {
+  provider: LLMProviderType;
+  profileId: string | null; // null for providers without profiles (Puter.js)
+  modelId?: string; // Defaults to the profile's selected model
+}
+
+// Provider embedding model for memory recall (unset in the settings: the local model)
+export interface EmbeddingModel {
+  provider: LLMProviderType;
+  profileId: string;
+  modelId: string;
+}
+
 // LLM Provider types
-export type LLMProviderType = "puter" | "google-ai-studio" | "google-vertex" | "nvidia-nim";
+// A provider id is the key its adapter is registered under (built-in: "puter", "google-ai-studio",
+// "google-vertex", "nvidia-nim", "openai-compatible", "anthropic", "openrouter", "text-completion");
+// other adapters register their own
+export type LLMProviderType = string;
 
 export interface LLMProvider {
   id: LLMProviderType;
@@ -127,6 +279,7 @@ export interface LLMProvider {
   requiresApiKey: boolean;
   requiresProjectId?: boolean; // For Vertex AI
   requiresServiceAccount?: boolean; // For Vertex AI
+  requiresBaseUrl?: boolean; // For OpenAI-compatible and text-completion servers
   models: LLMModel[];
 }
 
@@ -137,6 +290,7 @@ export interface LLMModel {
   contextWindow?: number;
   maxTokens?: number;
   supportsThinking?: boolean;
+  supportsVision?: boolean; // Accepts image attachments
 }
 
 // Vertex AI mode type
@@ -155,10 +309,34 @@ export interface ProviderProfile {
   serviceAccountJson?: string; // For Vertex AI
   vertexMode?: VertexMode; // For Vertex AI
   vertexLocation?: VertexLocation; // For Vertex AI
+  baseUrl?: string; // For OpenAI-compatible servers (e.g. http://localhost:8080/v1)
+  extraHeaders?: string; // For OpenAI-compatible servers: one "Name: value" per line
+  sendTopK?: boolean; // For OpenAI-compatible servers: send top_k (not part of the OpenAI API)
+  openRouter?: OpenRouterPreferences; // For OpenRouter
+  textCompletion?: TextCompletionSettings; // For text-completion servers (also uses baseUrl)
   selectedModel?: string;
   createdAt: number;
 }
 
+// OpenRouter routing preferences (lists are comma-separated, as typed in the settings)
+export interface OpenRouterPreferences {
+  providerOrder?: string; // Upstream providers to try first, e.g. "anthropic, deepinfra"
+  allowFallbacks?: boolean; // Let OpenRouter use other providers when the listed ones fail (default true)
+  fallbackModels?: string; // Models tried in order when the selected one fails
+}
+
+// Instruct templates for text-completion models
+export type InstructTemplateId = "chatml" | "llama3" | "alpaca" | "mistral";
+
+// Local servers with a raw text-completion API
+export type TextCompletionBackend = "koboldcpp" | "ollama";
+
+export interface TextCompletionSettings {
+  backend: TextCompletionBackend;
+  template: InstructTemplateId; // How messages are rendered into the prompt
+  stopSequences?: string; // Extra stop sequences, one per line (the template's own are always used)
+}
+
 // Provider configurations (stored in localStorage)
 export interface ProviderConfig {
   type: LLMProviderType;
@@ -168,13 +346,42 @@ export interface ProviderConfig {
   serviceAccountJson?: string; // For Vertex AI
   vertexMode?: VertexMode; // For Vertex AI: express (API key only) or full (project ID + service account)
   vertexLocation?: VertexLocation; // For Vertex AI: server location
+  baseUrl?: string; // For OpenAI-compatible servers
+  extraHeaders?: string; // For OpenAI-compatible servers: one "Name: value" per line
+  sendTopK?: boolean; // For OpenAI-compatible servers: send top_k
+  openRouter?: OpenRouterPreferences; // For OpenRouter
+  textCompletion?: TextCompletionSettings; // For text-completion servers
   selectedModel?: string;
+  keyRotation?: KeyRotationMode; // Spread requests over all profiles (default "off": the active profile only)
   // New profile-based storage
   profiles: ProviderProfile[];
   activeProfileId: string | null;
   isEnabled: boolean;
 }
 
+// How a provider's profiles (API keys) are picked for each request
+// round-robin: the least recently used key first; least-rate-limited: the key rate limited longest ago first
+export type KeyRotationMode = "off" | "round-robin" | "least-rate-limited";
+
+// Health of one profile's key, updated after every request
+export interface ProfileKeyStatus {
+  lastUsedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastRateLimitedAt?: number;
+  rateLimitCount?: number; // Rate limits in a row (lengthens the cooldown)
+  cooldownUntil?: number; // Tried last until then
+}
+
+// One step of the fallback chain: a provider profile (and optionally another model) to try
+// when the previous one fails with a rate limit or server error
+export interface FallbackChainEntry {
+  id: string;
+  provider: LLMProviderType;
+  profileId: string | null; // null for providers without profiles (Puter.js)
+  modelId?: string; // Defaults to the profile's selected model
+}
+
 // Thinking level for Gemini models
 export type ThinkingLevel = "LOW" | "MEDIUM" | "HIGH";
 
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkUpstreamUrl } from "./upstream-url";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("checkUpstreamUrl", () => {
+  it("allows public addresses", async () => {
+    expect(await checkUpstreamUrl("https://8.8.8.8/v1")).toBeNull();
+    expect(await checkUpstreamUrl("https://[2606:4700::1111]/v1")).toBeNull();
+  });
+
+  it("blocks loopback and LAN addresses by default", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/v1",
+      "http://10.1.2.3/v1",
+      "http://172.20.0.5/v1",
+      "http://192.168.1.10:5001",
+      "http://[::1]:8080/v1",
+      "http://[fd12::1]/v1",
+      "http://[::ffff:10.0.0.1]/v1",
+    ]) {
+      expect(await checkUpstreamUrl(url)).toMatch(/PROXY_ALLOW_PRIVATE_NETWORK/);
+    }
+  });
+
+  it("allows loopback and LAN addresses when the server opts in", async () => {
+    vi.stubEnv("PROXY_ALLOW_PRIVATE_NETWORK", "true");
+    expect(await checkUpstreamUrl("http://127.0.0.1:8080/v1")).toBeNull();
+    expect(await checkUpstreamUrl("http://192.168.1.10:5001")).toBeNull();
+  });
+
+  it("always blocks link-local (metadata) and reserved addresses", async () => {
+    vi.stubEnv("PROXY_ALLOW_PRIVATE_NETWORK", "true");
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data",
+      "http://[fe80::1]/v1",
+      "http://[::ffff:169.254.169.254]/",
+      "http://0.0.0.0:8080/v1",
+      "http://[::]/v1",
+    ]) {
+      expect(await checkUpstreamUrl(url)).toMatch(/blocked address/);
+    }
+  });
+
+  it("only allows the listed hosts when an allowlist is set", async () => {
+    vi.stubEnv("PROXY_ALLOWED_HOSTS", "llm.internal, 192.168.1.10");
+    expect(await checkUpstreamUrl("http://llm.internal:8080/v1")).toBeNull();
+    expect(await checkUpstreamUrl("http://192.168.1.10:5001")).toBeNull();
+    expect(await checkUpstreamUrl("https://8.8.8.8/v1")).toMatch(/PROXY_ALLOWED_HOSTS/);
+  });
+});
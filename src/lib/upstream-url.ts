@@ -0,0 +1,96 @@
+// Server-side check of user-chosen upstream URLs (OpenAI-compatible and text-completion base URLs)
+// The proxy routes fetch whatever base URL a client sends, so without a check they could be used to
+// reach the server's own network (SSRF). By default only public addresses are allowed. Server config:
+// - PROXY_ALLOWED_HOSTS: comma-separated host names; when set, only these hosts are allowed (at any
+//   address, private ones included)
+// - PROXY_ALLOW_PRIVATE_NETWORK=true: also allow loopback and LAN addresses (self-hosted llama.cpp,
+//   Ollama, KoboldCpp, ... on the machine running the app). Link-local addresses, where cloud
+//   metadata services live, stay blocked.
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+type AddressRange = "public" | "private" | "link-local" | "reserved";
+
+const parseIPv4 = (address: string): number[] => address.split(".").map(Number);
+
+const classifyIPv4 = (address: string): AddressRange => {
+  const [a, b] = parseIPv4(address);
+  if (a === 169 && b === 254) return "link-local";
+  if (a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) return "private";
+  if (a === 100 && b >= 64 && b <= 127) return "private"; // Carrier-grade NAT
+  if (a === 0 || a >= 224 || (a === 192 && b === 0) || (a === 198 && (b === 18 || b === 19))) return "reserved";
+  return "public";
+};
+
+// Expand an IPv6 address to its eight 16-bit groups
+const parseIPv6 = (address: string): number[] => {
+  let text = address.toLowerCase().split("%")[0];
+  // Embedded IPv4 (e.g. ::ffff:10.0.0.1) becomes two groups
+  const ipv4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4) {
+    const [a, b, c, d] = parseIPv4(ipv4[1]);
+    text = text.slice(0, -ipv4[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill("0");
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+};
+
+const classifyIPv6 = (address: string): AddressRange => {
+  const groups = parseIPv6(address);
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) return classifyIPv4(embeddedIPv4());
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return classifyIPv4(embeddedIPv4()); // NAT64
+  if (groups.slice(0, 7).every((group) => group === 0)) return groups[7] === 1 ? "private" : "reserved"; // ::1, ::
+  if ((groups[0] & 0xffc0) === 0xfe80) return "link-local";
+  if ((groups[0] & 0xfe00) === 0xfc00) return "private"; // Unique local
+  if ((groups[0] & 0xff00) === 0xff00) return "reserved"; // Multicast
+  return "public";
+};
+
+const classifyAddress = (address: string): AddressRange =>
+  isIP(address) === 6 ? classifyIPv6(address) : classifyIPv4(address);
+
+const getAllowedHosts = (): string[] =>
+  (process.env.PROXY_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+// Why the server may not fetch the URL (null when it may)
+export const checkUpstreamUrl = async (url: string): Promise<string | null> => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  } catch {
+    return `Invalid URL: ${url}`;
+  }
+
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts.length > 0) {
+    return allowedHosts.includes(hostname)
+      ? null
+      : `${hostname} is not in this server's allowed hosts (PROXY_ALLOWED_HOSTS)`;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+
+  const allowPrivate = process.env.PROXY_ALLOW_PRIVATE_NETWORK === "true";
+  for (const address of addresses) {
+    const range = classifyAddress(address);
+    if (range === "public" || (range === "private" && allowPrivate)) continue;
+    return range === "private"
+      ? `${hostname} is a local network address. To use servers on this machine or its network, set PROXY_ALLOW_PRIVATE_NETWORK=true (or list the host in PROXY_ALLOWED_HOSTS) on the server.`
+      : `${hostname} resolves to a blocked address (${address})`;
+  }
+  return null;
+};
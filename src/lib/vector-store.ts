@@ -0,0 +1,80 @@
+// Vector index for memory recall (IndexedDB)
+// One record per embedded message (by position in its chat) and embedding source, so only new and
+// changed messages are embedded again. Vectors are looked up per source and character.
+
+const DB_NAME = "roleplay-studio-memory";
+const DB_VERSION = 1;
+const STORE = "vectors";
+const SOURCE_CHARACTER_INDEX = "sourceCharacter";
+
+export interface MemoryVector {
+  key: string; // See memoryVectorKey
+  sourceId: string;
+  characterId: string;
+  conversationId: string;
+  messageIndex: number;
+  role: "user" | "assistant";
+  text: string; // What was embedded (a message whose text changed is embedded again)
+  vector: number[];
+}
+
+export const memoryVectorKey = (sourceId: string, conversationId: string, messageIndex: number) =>
+  `${sourceId}|${conversationId}|${messageIndex}`;
+
+// Opened on first use (a failed open is retried on the next call)
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("This browser has no IndexedDB"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex(SOURCE_CHARACTER_INDEX, ["sourceId", "characterId"]);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+// Run a write transaction; resolves once it has committed
+const write = async (change: (store: IDBObjectStore) => void): Promise<void> => {
+  const transaction = (await openDatabase()).transaction(STORE, "readwrite");
+  change(transaction.objectStore(STORE));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Stored vectors of a character's chats from one embedding source
+export const loadMemoryVectors = async (sourceId: string, characterId: string): Promise<MemoryVector[]> => {
+  const request = (await openDatabase())
+    .transaction(STORE, "readonly")
+    .objectStore(STORE)
+    .index(SOURCE_CHARACTER_INDEX)
+    .getAll([sourceId, characterId]);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveMemoryVectors = (vectors: MemoryVector[]): Promise<void> =>
+  vectors.length > 0 ? write((store) => vectors.forEach((vector) => store.put(vector))) : Promise.resolve();
+
+export const deleteMemoryVectors = (keys: string[]): Promise<void> =>
+  keys.length > 0 ? write((store) => keys.forEach((key) => store.delete(key))) : Promise.resolve();
+
+// Remove every stored vector (they are rebuilt as chats continue)
+export const clearMemoryVectors = (): Promise<void> => write((store) => store.clear());
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { exportWorldInfo, parseWorldInfo } from "./world-info";
+
+const worldInfo = {
+  name: "World",
+  entries: { "0": { uid: 0, key: ["/drag(on|in)/i", "C++", "Mr. Smith"], keysecondary: [], content: "Lore" } },
+};
+
+describe("world info", () => {
+  it("keeps plain keys plain next to regex keys", () => {
+    const lorebook = parseWorldInfo(worldInfo, "fallback")!;
+    expect(lorebook.entries[0].useRegex).toBeUndefined();
+
+    const exported = JSON.parse(exportWorldInfo(lorebook));
+    expect(exported.entries["0"].key).toEqual(["/drag(on|in)/i", "C++", "Mr. Smith"]);
+  });
+
+  it("writes the bare patterns of regex entries in /pattern/flags form", () => {
+    const lorebook = parseWorldInfo(worldInfo, "fallback")!;
+    const regexEntry = { ...lorebook.entries[0], keys: ["drag(on|in)", "/wyrm/"], useRegex: true };
+    const exported = JSON.parse(exportWorldInfo({ ...lorebook, entries: [regexEntry] }));
+    expect(exported.entries["0"].key).toEqual(["/drag(on|in)/i", "/wyrm/"]);
+  });
+});
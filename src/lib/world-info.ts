@@ -0,0 +1,169 @@
+// World lorebook utilities
+// Import/export in SillyTavern world-info JSON and resolving which books apply to a chat
+
+import { CharacterBookEntry, WorldLorebook } from "./types";
+import { generateId, parseCharacterBook } from "./character-import";
+import { isRegexKey } from "./lorebook";
+
+// SillyTavern world-info position numbers <-> our entry positions
+// (2/3 = author's note positions, which we don't support, stay in extensions)
+const ST_POSITIONS: Record<number, NonNullable<CharacterBookEntry["position"]>> = {
+  0: "before_char",
+  1: "after_char",
+  4: "at_depth",
+  5: "before_example",
+  6: "after_example",
+};
+
+const toStPosition = (position: CharacterBookEntry["position"]): number | undefined => {
+  const found = Object.entries(ST_POSITIONS).find(([, p]) => p === position);
+  return found ? Number(found[0]) : undefined;
+};
+
+// World-info entry fields that map onto CharacterBookEntry (everything else goes to extensions)
+const MAPPED_FIELDS = [
+  "uid", "key", "keysecondary", "comment", "content", "constant", "selective", "selectiveLogic",
+  "order", "disable", "excludeRecursion", "preventRecursion", "depth", "group", "groupOverride", "caseSensitive",
+  "matchWholeWords",
+];
+
+// Parse one world-info entry
+const parseWorldInfoEntry = (raw: unknown, index: number): CharacterBookEntry | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const entry = raw as Record<string, unknown>;
+
+  const extensions = Object.fromEntries(
+    Object.entries(entry).filter(([key]) => !MAPPED_FIELDS.includes(key))
+  );
+  const position = typeof entry.position === "number" ? ST_POSITIONS[entry.position] : undefined;
+  if (position) delete extensions.position;
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+
+  const keys = strings(entry.key);
+  const secondaryKeys = strings(entry.keysecondary);
+
+  return {
+    id: typeof entry.uid === "number" ? entry.uid : index,
+    keys,
+    secondaryKeys,
+    content: typeof entry.content === "string" ? entry.content : "",
+    comment: typeof entry.comment === "string" ? entry.comment : undefined,
+    enabled: entry.disable !== true,
+    insertionOrder: typeof entry.order === "number" ? entry.order : 100,
+    constant: typeof entry.constant === "boolean" ? entry.constant : undefined,
+    selective: typeof entry.selective === "boolean" ? entry.selective : undefined,
+    selectiveLogic: typeof entry.selectiveLogic === "number" ? entry.selectiveLogic : undefined,
+    position,
+    excludeRecursion: typeof entry.excludeRecursion === "boolean" ? entry.excludeRecursion : undefined,
+    preventRecursion: typeof entry.preventRecursion === "boolean" ? entry.preventRecursion : undefined,
+    depth: typeof entry.depth === "number" ? entry.depth : undefined,
+    group: typeof entry.group === "string" && entry.group ? entry.group : undefined,
+    groupOverride: typeof entry.groupOverride === "boolean" ? entry.groupOverride : undefined,
+    caseSensitive: typeof entry.caseSensitive === "boolean" ? entry.caseSensitive : undefined,
+    matchWholeWords: typeof entry.matchWholeWords === "boolean" ? entry.matchWholeWords : undefined,
+    extensions: Object.keys(extensions).length > 0 ? extensions : undefined,
+  };
+};
+
+// Parse SillyTavern world-info JSON (entries keyed by uid) or a card-style character_book (entries array)
+export const parseWorldInfo = (json: unknown, fallbackName: string): WorldLorebook | null => {
+  if (!json || typeof json !== "object") return null;
+  const data = json as Record<string, unknown>;
+  const name = typeof data.name === "string" && data.name ? data.name : fallbackName;
+  const now = Date.now();
+
+  // Card-style lorebook (also what character_book exports look like)
+  if (Array.isArray(data.entries)) {
+    const book = parseCharacterBook(data);
+    return book ? { ...book, id: generateId(), name, createdAt: now, updatedAt: now } : null;
+  }
+
+  // SillyTavern world-info format
+  if (data.entries && typeof data.entries === "object") {
+    const entries = Object.values(data.entries as Record<string, unknown>)
+      .map((entry, index) => parseWorldInfoEntry(entry, index))
+      .filter((entry): entry is CharacterBookEntry => entry !== null);
+
+    return {
+      id: generateId(),
+      name,
+      description: typeof data.description === "string" ? data.description : undefined,
+      entries,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  return null;
+};
+
+// Read a world-info JSON file
+export const readWorldInfoFile = async (file: File): Promise<WorldLorebook | { error: string }> => {
+  try {
+    const json = JSON.parse(await file.text());
+    const lorebook = parseWorldInfo(json, file.name.replace(/\.json$/i, ""));
+    return lorebook || { error: "Invalid lorebook format. Expected a SillyTavern world-info JSON with 'entries'." };
+  } catch {
+    return { error: "Invalid JSON file" };
+  }
+};
+
+// SillyTavern reads only keys in /pattern/flags form as regexes (per key, there is no entry-wide
+// regex mode), so the bare patterns of a regex entry are wrapped; other entries' keys stay as they are
+const toRegexKey = (key: string, caseSensitive?: boolean): string =>
+  !key || isRegexKey(key) ? key : `/${key}/${caseSensitive ? "" : "i"}`;
+
+// Convert a world lorebook to SillyTavern world-info JSON
+export const exportWorldInfo = (lorebook: WorldLorebook): string => {
+  const entries: Record<string, Record<string, unknown>> = {};
+
+  lorebook.entries.forEach((entry, index) => {
+    const uid = Number.isInteger(entry.id) ? entry.id : index;
+    entries[String(uid)] = {
+      ...entry.extensions,
+      uid,
+      key: entry.useRegex ? entry.keys.map((key) => toRegexKey(key, entry.caseSensitive)) : entry.keys,
+      keysecondary: (entry.useRegex ? entry.secondaryKeys?.map((key) => toRegexKey(key, entry.caseSensitive)) : entry.secondaryKeys) ?? [],
+      comment: entry.comment ?? entry.name ?? "",
+      content: entry.content,
+      constant: entry.constant ?? false,
+      selective: entry.selective ?? true,
+      selectiveLogic: entry.selectiveLogic ?? 0,
+      order: entry.insertionOrder,
+      position: toStPosition(entry.position) ?? entry.extensions?.position ?? toStPosition("after_example"),
+      disable: !entry.enabled,
+      excludeRecursion: entry.excludeRecursion ?? false,
+      preventRecursion: entry.preventRecursion ?? false,
+      depth: entry.depth ?? 4,
+      group: entry.group ?? "",
+      groupOverride: entry.groupOverride ?? false,
+      caseSensitive: entry.caseSensitive ?? null,
+      matchWholeWords: entry.matchWholeWords ?? null,
+    };
+  });
+
+  return JSON.stringify({ name: lorebook.name, description: lorebook.description, entries }, null, 2);
+};
+
+// Resolve the world lorebooks attached to a chat, in precedence order:
+// conversation > character > persona (each book is included once)
+export const resolveAttachedLorebooks = (
+  lorebooks: WorldLorebook[],
+  attachments: {
+    conversation?: { lorebookIds?: string[] } | null;
+    character?: { lorebookIds?: string[] } | null;
+    persona?: { lorebookIds?: string[] } | null;
+  }
+): WorldLorebook[] => {
+  const ids = [
+    ...(attachments.conversation?.lorebookIds || []),
+    ...(attachments.character?.lorebookIds || []),
+    ...(attachments.persona?.lorebookIds || []),
+  ];
+
+  return [...new Set(ids)]
+    .map((id) => lorebooks.find((book) => book.id === id))
+    .filter((book): book is WorldLorebook => !!book);
+};